@@ -0,0 +1,82 @@
+/* eslint-disable no-restricted-globals */
+
+// Bump the version to drop old caches when the caching strategy changes
+const CACHE_NAME = 'job-application-tracker-v2';
+
+// App shell cached on install so the app can start without a connection
+const APP_SHELL = ['./index.html'];
+
+// Content-hashed build output, the only thing safe to serve cache first
+const STATIC_ASSETS = new URL('./static/', self.location).href;
+
+// The API, passed in by the page at registration. Its data is cached by the app itself.
+const apiBaseParam = new URL(self.location).searchParams.get('apiBase');
+const API_BASE = apiBaseParam ? new URL(apiBaseParam, self.location).href : null;
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then(cache => cache.addAll(APP_SHELL))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  // Only same-origin GETs outside the API are handled here
+  if (
+    request.method !== 'GET' ||
+    url.origin !== self.location.origin ||
+    (API_BASE && url.href.startsWith(API_BASE))
+  ) {
+    return;
+  }
+
+  // Navigations: network first so deploys are picked up, falling back to the cached shell.
+  // Only a successful page replaces the shell, so an error page is never served offline.
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then(response => {
+          if (response.ok) {
+            const copy = response.clone();
+            caches.open(CACHE_NAME).then(cache => cache.put('./index.html', copy));
+          }
+          return response;
+        })
+        .catch(() => caches.match('./index.html'))
+    );
+    return;
+  }
+
+  // Anything else that isn't hashed build output (manifest, icons) always comes from the network
+  if (!url.href.startsWith(STATIC_ASSETS)) {
+    return;
+  }
+
+  // Static assets: cache first. Build output is content-hashed, so cached copies never go stale
+  event.respondWith(
+    caches.match(request).then(cached => {
+      if (cached) {
+        return cached;
+      }
+      return fetch(request).then(response => {
+        if (response.ok) {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then(cache => cache.put(request, copy));
+        }
+        return response;
+      });
+    })
+  );
+});
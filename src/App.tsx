@@ -1,78 +1,67 @@
-import React, { useState, useEffect } from 'react';
-import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
+import React, { useState } from 'react';
+import { Routes, Route, Navigate, NavLink } from 'react-router-dom';
 import JobApplicationTable from './components/JobApplicationTable';
+import JobApplicationBoard from './components/JobApplicationBoard';
+import JobApplicationDetail from './components/JobApplicationDetail';
+import AnalyticsDashboard from './components/AnalyticsDashboard';
+import UpcomingInterviewsPanel from './components/UpcomingInterviewsPanel';
+import NeedsAttentionPanel from './components/NeedsAttentionPanel';
+import FollowUpNotifier from './components/FollowUpNotifier';
+import ImportWizard from './components/ImportWizard';
+import PendingChangesIndicator from './components/PendingChangesIndicator';
 import JobApplicationForm from './components/JobApplicationForm';
+import ContactList from './components/ContactList';
+import ContactDetail from './components/ContactDetail';
+import CompanyList from './components/CompanyList';
+import LoginPage from './components/LoginPage';
+import RequireAuth from './components/RequireAuth';
+import UserMenu from './components/UserMenu';
+import { useAuth } from './contexts/AuthContext';
+import { useJobApplicationQuery } from './hooks/useJobApplicationQuery';
 import { JobApplication } from './types/JobApplication';
-import { Container, Navbar, Button, Row, Col } from 'react-bootstrap';
+import { Container, Navbar, Nav, Button, Row, Col } from 'react-bootstrap';
 import './App.css';
 
 const App: React.FC = () => {
   const [isFormVisible, setIsFormVisible] = useState<boolean>(false);
-  const [editingApplication, setEditingApplication] = useState<JobApplication | undefined>(undefined);
-  const [resetFilter, setResetFilter] = useState<boolean>(false);
-  const [newApplication, setNewApplication] = useState<JobApplication | undefined>(undefined);
-  const [updatedApplication, setUpdatedApplication] = useState<JobApplication | undefined>(undefined);
+  const [isImportVisible, setIsImportVisible] = useState<boolean>(false);
+  const { isAuthenticated } = useAuth();
+  const { clearFilters } = useJobApplicationQuery();
 
-
-  useEffect(() => {
-    if (newApplication) {
-      const timer = setTimeout(() => {
-        setNewApplication(undefined);
-      }, 100); 
-      return () => clearTimeout(timer);
-    }
-  }, [newApplication]);
-
-  
-  useEffect(() => {
-    if (updatedApplication) {
-      const timer = setTimeout(() => {
-        setUpdatedApplication(undefined);
-      }, 100); 
-      return () => clearTimeout(timer);
-    }
-  }, [updatedApplication]);
-
-  // Handle opening form for new application
-  const handleAddNew = () => {
-    setEditingApplication(undefined);
-    setIsFormVisible(true);
-  };
-
-  // Handle opening form for editing
-  const handleEdit = (jobApplication: JobApplication) => {
-    setEditingApplication(jobApplication);
-    setIsFormVisible(true);
-  };
-
-  // Handle form success (create or update)
-  const handleFormSuccess = (jobApplication: JobApplication) => {
+  // Handle form success - the table reloads by itself, so just clear the filters to show the new application
+  const handleFormSuccess = () => {
     setIsFormVisible(false);
-    setEditingApplication(undefined);
-    
-    // For new applications
-    if (!editingApplication) {
-      setNewApplication(jobApplication); // Pass new app to table
-      setResetFilter(prev => !prev); // Reset filter to show the new application
-    } else {
-      
-      setUpdatedApplication(jobApplication);
-    }
+    clearFilters();
   };
 
-  // Handle form cancel
-  const handleFormCancel = () => {
-    setIsFormVisible(false);
-    setEditingApplication(undefined);
+  // Handle import wizard completion - clear the filters so the imported rows show up
+  const handleImportComplete = (created: JobApplication[]) => {
+    setIsImportVisible(false);
+    if (created.length > 0) {
+      clearFilters();
+    }
   };
 
   return (
-    <Router>
+    <>
+      {isAuthenticated && <FollowUpNotifier />}
       <div className="d-flex flex-column min-vh-100">
         <Navbar bg="dark" variant="dark" className="px-3">
           <Navbar.Brand href="#home">
             <h4 className="mb-0">Job Application Tracker</h4>
           </Navbar.Brand>
+          <Nav className="me-auto">
+            {isAuthenticated && (
+              <>
+                <Nav.Link as={NavLink} to="/" end>Table</Nav.Link>
+                <Nav.Link as={NavLink} to="/board">Board</Nav.Link>
+                <Nav.Link as={NavLink} to="/companies">Companies</Nav.Link>
+                <Nav.Link as={NavLink} to="/contacts">Contacts</Nav.Link>
+              </>
+            )}
+          </Nav>
+          <PendingChangesIndicator />
+          <UserMenu />
           <Navbar.Text>
             Manage and track your job applications efficiently
           </Navbar.Text>
@@ -80,52 +69,78 @@ const App: React.FC = () => {
 
         <main className="flex-grow-1">
           <Routes>
-            <Route 
-              path="/" 
-              element={
-                <Container fluid className="py-4">
-                  <Row className="mb-4">
-                    <Col md={6}>
-                      <h2>Dashboard</h2>
-                    </Col>
-                    <Col md={6} className="d-flex justify-content-end">
-                      <Button 
-                        variant="primary"
-                        onClick={handleAddNew}
-                        size="lg"
-                      >
-                        + Add New Application
-                      </Button>
-                    </Col>
-                  </Row>
-                  
-                  <JobApplicationTable
-                    onEdit={handleEdit}
-                    resetFilter={resetFilter}
-                    newApplication={newApplication}
-                    updatedApplication={updatedApplication}
-                  />
-                </Container>
-              } 
-            />
+            <Route path="/login" element={<LoginPage />} />
+            <Route element={<RequireAuth />}>
+              <Route 
+                path="/" 
+                element={
+                  <Container fluid className="py-4">
+                    <Row className="mb-4">
+                      <Col md={6}>
+                        <h2>Dashboard</h2>
+                      </Col>
+                      <Col md={6} className="d-flex justify-content-end gap-2">
+                        <Button
+                          variant="outline-primary"
+                          onClick={() => setIsImportVisible(true)}
+                          size="lg"
+                        >
+                          Import CSV
+                        </Button>
+                        <Button 
+                          variant="primary"
+                          onClick={() => setIsFormVisible(true)}
+                          size="lg"
+                        >
+                          + Add New Application
+                        </Button>
+                      </Col>
+                    </Row>
+
+                    <Row>
+                      <Col lg={6}>
+                        <NeedsAttentionPanel />
+                      </Col>
+                      <Col lg={6}>
+                        <UpcomingInterviewsPanel />
+                      </Col>
+                    </Row>
+
+                    <AnalyticsDashboard />
+
+                    <JobApplicationTable />
+                  </Container>
+                } 
+              />
+              <Route path="/board" element={<JobApplicationBoard />} />
+              <Route path="/applications/:id" element={<JobApplicationDetail />} />
+              <Route path="/companies" element={<CompanyList />} />
+              <Route path="/contacts" element={<ContactList />} />
+              <Route path="/contacts/:id" element={<ContactDetail />} />
+            </Route>
             <Route path="*" element={<Navigate to="/" replace />} />
           </Routes>
         </main>
 
         <JobApplicationForm
-          jobApplication={editingApplication}
           onSuccess={handleFormSuccess}
-          onCancel={handleFormCancel}
+          onCancel={() => setIsFormVisible(false)}
           isVisible={isFormVisible}
         />
 
+        <ImportWizard
+          isVisible={isImportVisible}
+          onComplete={handleImportComplete}
+          onCancel={() => setIsImportVisible(false)}
+        />
+
         <footer className="bg-light text-center py-3 mt-auto">
           <Container>
             <p className="mb-0 text-muted">&copy; 2024 Job Application Tracker. Built with React & TypeScript.</p>
           </Container>
         </footer>
       </div>
-    </Router>
+    </>
   );
 };
 
@@ -0,0 +1,185 @@
+import React, { useState, useMemo } from 'react';
+import { getErrorMessage } from '../services/ApiError';
+import { useJobApplications, useStatusHistory } from '../hooks/queries';
+import {
+  DateRange,
+  filterByDateRange,
+  groupHistoryByApplication,
+  computeFunnel,
+  medianDaysToFirstResponse,
+  applicationsPerWeek,
+  computeOutcomeRatios,
+  formatPercent,
+  toLocalDateKey
+} from '../utils/analytics';
+import FunnelChart from './charts/FunnelChart';
+import BarChart from './charts/BarChart';
+import { Row, Col, Card, Form, Alert, Spinner, ButtonGroup, Button, InputGroup } from 'react-bootstrap';
+
+// Preset ranges, in days back from today (null = all time)
+const RANGE_PRESETS: { label: string; days: number | null }[] = [
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 },
+  { label: 'All time', days: null }
+];
+
+// YYYY-MM-DD for a date a number of days before today
+const daysAgo = (days: number): string => {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return toLocalDateKey(date);
+};
+
+// Short axis label for a week, e.g. "Mar 4"
+const formatWeekLabel = (weekStart: string): string => {
+  const [year, month, day] = weekStart.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+};
+
+const AnalyticsDashboard: React.FC = () => {
+  const applicationsQuery = useJobApplications();
+  const historyQuery = useStatusHistory();
+  const applications = applicationsQuery.data;
+  const history = historyQuery.data;
+  const loading = applicationsQuery.isLoading || historyQuery.isLoading;
+  const loadError = applicationsQuery.error ?? historyQuery.error;
+  const error = loadError !== undefined ? getErrorMessage(loadError, 'Failed to load analytics') : '';
+  const [range, setRange] = useState<DateRange>({ from: daysAgo(90) });
+  const [activePreset, setActivePreset] = useState<number | null | 'custom'>(90);
+
+
+  const stats = useMemo(() => {
+    const inRange = filterByDateRange(applications ?? [], range);
+    const historyByApplication = groupHistoryByApplication(history ?? []);
+    return {
+      total: inRange.length,
+      funnel: computeFunnel(inRange, historyByApplication),
+      medianDays: medianDaysToFirstResponse(inRange, historyByApplication),
+      weekly: applicationsPerWeek(inRange, range).map(week => ({
+        label: formatWeekLabel(week.weekStart),
+        value: week.count
+      })),
+      outcomes: computeOutcomeRatios(inRange)
+    };
+  }, [applications, history, range]);
+
+  // Handle preset range buttons
+  const handlePreset = (days: number | null) => {
+    setActivePreset(days);
+    setRange(days === null ? {} : { from: daysAgo(days) });
+  };
+
+  // Handle custom range inputs
+  const handleRangeChange = (key: keyof DateRange, value: string) => {
+    setActivePreset('custom');
+    setRange(prev => ({ ...prev, [key]: value || undefined }));
+  };
+
+  if (loading) {
+    return (
+      <div className="d-flex justify-content-center align-items-center" style={{ minHeight: '120px' }}>
+        <Spinner animation="border" role="status">
+          <span className="visually-hidden">Loading analytics...</span>
+        </Spinner>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert variant="warning" className="mb-4">
+        Analytics unavailable: {error}
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="mb-4">
+      <div className="d-flex flex-wrap justify-content-end align-items-center gap-2 mb-3">
+        <ButtonGroup size="sm" aria-label="Date range presets">
+          {RANGE_PRESETS.map(preset => (
+            <Button
+              key={preset.label}
+              variant={activePreset === preset.days ? 'primary' : 'outline-primary'}
+              onClick={() => handlePreset(preset.days)}
+            >
+              {preset.label}
+            </Button>
+          ))}
+        </ButtonGroup>
+        <InputGroup size="sm" style={{ width: 'auto' }}>
+          <Form.Control
+            type="date"
+            value={range.from || ''}
+            max={range.to}
+            onChange={(e) => handleRangeChange('from', e.target.value)}
+            aria-label="Range start"
+          />
+          <InputGroup.Text>to</InputGroup.Text>
+          <Form.Control
+            type="date"
+            value={range.to || ''}
+            min={range.from}
+            onChange={(e) => handleRangeChange('to', e.target.value)}
+            aria-label="Range end"
+          />
+        </InputGroup>
+      </div>
+
+      <Row className="g-3 mb-3">
+        <Col sm={6} lg={3}>
+          <Card body className="h-100">
+            <div className="text-muted small">Applications</div>
+            <div className="fs-3 fw-bold">{stats.total}</div>
+          </Card>
+        </Col>
+        <Col sm={6} lg={3}>
+          <Card body className="h-100">
+            <div className="text-muted small">Median days to first response</div>
+            <div className="fs-3 fw-bold">
+              {stats.medianDays === null ? '—' : stats.medianDays.toFixed(1)}
+            </div>
+          </Card>
+        </Col>
+        <Col sm={6} lg={3}>
+          <Card body className="h-100">
+            <div className="text-muted small">Rejection rate</div>
+            <div className="fs-3 fw-bold text-danger">{formatPercent(stats.outcomes.rejectionRate)}</div>
+            <div className="small text-muted">{stats.outcomes.rejected} of {stats.outcomes.total}</div>
+          </Card>
+        </Col>
+        <Col sm={6} lg={3}>
+          <Card body className="h-100">
+            <div className="text-muted small">Withdrawal rate</div>
+            <div className="fs-3 fw-bold text-secondary">{formatPercent(stats.outcomes.withdrawalRate)}</div>
+            <div className="small text-muted">{stats.outcomes.withdrawn} of {stats.outcomes.total}</div>
+          </Card>
+        </Col>
+      </Row>
+
+      <Row className="g-3">
+        <Col lg={5}>
+          <Card className="h-100">
+            <Card.Header>Funnel</Card.Header>
+            <Card.Body>
+              {stats.total === 0
+                ? <div className="text-muted fst-italic">No applications in this range</div>
+                : <FunnelChart stages={stats.funnel} />}
+            </Card.Body>
+          </Card>
+        </Col>
+        <Col lg={7}>
+          <Card className="h-100">
+            <Card.Header>Applications per Week</Card.Header>
+            <Card.Body>
+              <BarChart data={stats.weekly} ariaLabel="Applications per week" />
+            </Card.Body>
+          </Card>
+        </Col>
+      </Row>
+    </div>
+  );
+};
+
+export default AnalyticsDashboard;
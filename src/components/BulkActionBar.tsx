@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { Alert, Button, Dropdown, Form, ProgressBar } from 'react-bootstrap';
+import { ApplicationStatus, getStatusOptions } from '../types/JobApplication';
+import { ExportFormat } from '../utils/export';
+
+export interface BulkProgress {
+  label: string;
+  completed: number;
+  total: number;
+}
+
+export interface BulkFailure {
+  id: number;
+  label: string; // e.g. "Acme - Engineer"
+  message: string;
+}
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  matchingCount: number; // Applications matching the current filters, across all pages
+  allMatchingSelected: boolean;
+  canSelectAllMatching: boolean; // Every row on the page is selected and there are more beyond it
+  progress: BulkProgress | null;
+  failures: BulkFailure[];
+  onSelectAllMatching: () => void;
+  onClearSelection: () => void;
+  onSetStatus: (status: ApplicationStatus) => void;
+  onDelete: () => void;
+  onExport: (format: ExportFormat) => void;
+  onDismissFailures: () => void;
+}
+
+// Actions for the selected rows, with progress while they run and any per-row failures afterwards
+const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  selectedCount,
+  matchingCount,
+  allMatchingSelected,
+  canSelectAllMatching,
+  progress,
+  failures,
+  onSelectAllMatching,
+  onClearSelection,
+  onSetStatus,
+  onDelete,
+  onExport,
+  onDismissFailures
+}) => {
+  const [status, setStatus] = useState<ApplicationStatus>(ApplicationStatus.Rejected);
+  const isRunning = progress !== null;
+
+  if (selectedCount === 0 && !isRunning && failures.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-3">
+      {(selectedCount > 0 || isRunning) && (
+        <div className="d-flex flex-wrap align-items-center gap-2 p-2 bg-light border rounded">
+          <strong className="me-1">
+            {allMatchingSelected ? `All ${matchingCount} matching` : selectedCount} selected
+          </strong>
+          {canSelectAllMatching && !allMatchingSelected && (
+            <Button variant="link" size="sm" className="p-0" onClick={onSelectAllMatching} disabled={isRunning}>
+              Select all {matchingCount} matching applications
+            </Button>
+          )}
+          <Button variant="link" size="sm" className="p-0 me-auto" onClick={onClearSelection} disabled={isRunning}>
+            Clear selection
+          </Button>
+
+          <Form.Select
+            size="sm"
+            style={{ width: 'auto' }}
+            value={status}
+            onChange={(e) => setStatus(parseInt(e.target.value) as ApplicationStatus)}
+            disabled={isRunning}
+            aria-label="Status to apply to selected applications"
+          >
+            {getStatusOptions().map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </Form.Select>
+          <Button variant="primary" size="sm" onClick={() => onSetStatus(status)} disabled={isRunning}>
+            Set status
+          </Button>
+          <Dropdown>
+            <Dropdown.Toggle variant="outline-secondary" size="sm" disabled={isRunning}>
+              Export selected
+            </Dropdown.Toggle>
+            <Dropdown.Menu align="end">
+              <Dropdown.Item onClick={() => onExport('csv')}>CSV (.csv)</Dropdown.Item>
+              <Dropdown.Item onClick={() => onExport('excel')}>Excel (.xls)</Dropdown.Item>
+              <Dropdown.Item onClick={() => onExport('json')}>JSON (.json)</Dropdown.Item>
+            </Dropdown.Menu>
+          </Dropdown>
+          <Button variant="danger" size="sm" onClick={onDelete} disabled={isRunning}>
+            Delete
+          </Button>
+
+          {progress && (
+            <div className="w-100">
+              <div className="small text-muted mb-1">
+                {progress.label} {progress.completed} of {progress.total}...
+              </div>
+              <ProgressBar
+                now={progress.total === 0 ? 0 : (progress.completed / progress.total) * 100}
+                animated
+                style={{ height: '0.5rem' }}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {failures.length > 0 && (
+        <Alert variant="warning" dismissible onClose={onDismissFailures} className="mt-2 mb-0">
+          <strong>{failures.length} application{failures.length === 1 ? '' : 's'} could not be updated:</strong>
+          <ul className="mb-0 mt-1 small">
+            {failures.map(failure => (
+              <li key={failure.id}>
+                {failure.label}: {failure.message}
+              </li>
+            ))}
+          </ul>
+        </Alert>
+      )}
+    </div>
+  );
+};
+
+export default BulkActionBar;
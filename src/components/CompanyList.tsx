@@ -0,0 +1,126 @@
+import React, { useState, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  STATUS_PIPELINE_ORDER,
+  getStatusLabel,
+  getStatusVariant,
+  formatDate
+} from '../types/JobApplication';
+import { useJobApplications } from '../hooks/queries';
+import { getErrorMessage } from '../services/ApiError';
+import { groupByCompany, normalizeCompanyName } from '../utils/companies';
+import { Container, Row, Col, Card, Form, Alert, Spinner, Badge, ListGroup } from 'react-bootstrap';
+
+type CompanySort = 'recent' | 'name' | 'count';
+
+// Every employer applied to, with status counts, latest activity and the roles applied for
+const CompanyList: React.FC = () => {
+  const { data: applications, isLoading: loading, error } = useJobApplications();
+  const [search, setSearch] = useState<string>('');
+  const [sortBy, setSortBy] = useState<CompanySort>('recent');
+
+  const companies = useMemo(() => {
+    const term = normalizeCompanyName(search);
+    const groups = groupByCompany(applications ?? []).filter(group => !term || group.key.includes(term));
+
+    if (sortBy === 'name') {
+      return groups.sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
+    }
+    if (sortBy === 'count') {
+      return groups.sort((a, b) => b.applications.length - a.applications.length);
+    }
+    return groups;
+  }, [applications, search, sortBy]);
+
+  if (loading) {
+    return (
+      <div className="d-flex justify-content-center align-items-center" style={{ minHeight: '200px' }}>
+        <Spinner animation="border" role="status">
+          <span className="visually-hidden">Loading companies...</span>
+        </Spinner>
+      </div>
+    );
+  }
+
+  return (
+    <Container fluid className="py-4">
+      <Row className="mb-4 align-items-center">
+        <Col>
+          <h2 className="mb-0">Companies</h2>
+        </Col>
+        <Col xs="auto" className="text-muted">
+          {companies.length === 1 ? '1 company' : `${companies.length} companies`}
+        </Col>
+      </Row>
+
+      {error !== undefined && (
+        <Alert variant="danger">{getErrorMessage(error, 'Failed to load job applications')}</Alert>
+      )}
+
+      <Row className="g-2 mb-3">
+        <Col md={6} lg={4}>
+          <Form.Control
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search companies"
+            aria-label="Search companies"
+          />
+        </Col>
+        <Col xs="auto">
+          <Form.Select value={sortBy} onChange={(e) => setSortBy(e.target.value as CompanySort)} aria-label="Sort companies">
+            <option value="recent">Most recent activity</option>
+            <option value="name">Name</option>
+            <option value="count">Most applications</option>
+          </Form.Select>
+        </Col>
+      </Row>
+
+      {companies.length === 0 ? (
+        <div className="text-center text-muted py-4 fst-italic">
+          {!applications || applications.length === 0 ? 'No job applications found' : 'No companies match your search'}
+        </div>
+      ) : (
+        <Row xs={1} lg={2} xxl={3} className="g-3">
+          {companies.map(company => (
+            <Col key={company.key}>
+              <Card className="h-100">
+                <Card.Header className="d-flex justify-content-between align-items-start gap-2">
+                  <div>
+                    <h5 className="mb-0">{company.name}</h5>
+                    <small className="text-muted">Last activity {formatDate(company.lastActivity)}</small>
+                  </div>
+                  <Link to={`/?q=${encodeURIComponent(company.name)}`} className="small text-nowrap">
+                    View in table
+                  </Link>
+                </Card.Header>
+                <Card.Body>
+                  <div className="d-flex flex-wrap gap-1 mb-3">
+                    {STATUS_PIPELINE_ORDER.filter(status => company.statusCounts[status] > 0).map(status => (
+                      <Badge key={status} bg={getStatusVariant(status)}>
+                        {getStatusLabel(status)}: {company.statusCounts[status]}
+                      </Badge>
+                    ))}
+                  </div>
+                  <ListGroup variant="flush">
+                    {company.applications.map(app => (
+                      <ListGroup.Item key={app.id} className="px-0 d-flex justify-content-between align-items-center gap-2">
+                        <div>
+                          <Link to={`/applications/${app.id}`}>{app.position}</Link>
+                          <div className="small text-muted">Applied {formatDate(app.dateApplied)}</div>
+                        </div>
+                        <Badge bg={getStatusVariant(app.status)}>{getStatusLabel(app.status)}</Badge>
+                      </ListGroup.Item>
+                    ))}
+                  </ListGroup>
+                </Card.Body>
+              </Card>
+            </Col>
+          ))}
+        </Row>
+      )}
+    </Container>
+  );
+};
+
+export default CompanyList;
@@ -0,0 +1,121 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { JobApplicationConflict, JobApplicationEdit, formatDateTime } from '../types/JobApplication';
+import {
+  ConflictChoice,
+  EditableField,
+  formatFieldValue,
+  getFieldConflicts,
+  resolveConflict
+} from '../utils/conflicts';
+import { Alert, Button, Form, Spinner, Table } from 'react-bootstrap';
+
+interface ConflictResolverProps {
+  conflict: JobApplicationConflict;
+  onResolve: (edit: JobApplicationEdit) => void; // Called with my edit rebased onto their version
+  onDiscard: () => void; // Keep their version and drop my changes
+  isSaving?: boolean;
+  error?: string; // Why saving the merged changes failed, if it did
+}
+
+// Three-way view of an edit that clashed with someone else's: the version both started from,
+// mine and theirs side by side, with a choice per field before saving again
+const ConflictResolver: React.FC<ConflictResolverProps> = ({
+  conflict,
+  onResolve,
+  onDiscard,
+  isSaving,
+  error
+}) => {
+  const fieldConflicts = useMemo(() => getFieldConflicts(conflict), [conflict]);
+  const [choices, setChoices] = useState<Partial<Record<EditableField, ConflictChoice>>>({});
+
+  // Start every field on my value again whenever a new conflict comes in
+  useEffect(() => {
+    setChoices({});
+  }, [conflict]);
+
+  const choose = (field: EditableField, choice: ConflictChoice) =>
+    setChoices(prev => ({ ...prev, [field]: choice }));
+
+  return (
+    <>
+      {error && (
+        <Alert variant="danger" className="mb-3">
+          {error}
+        </Alert>
+      )}
+
+      <Alert variant="warning" className="mb-3">
+        <Alert.Heading as="h6">This application was changed while you were editing it</Alert.Heading>
+        It was last saved {formatDateTime(conflict.theirs.updatedAt)}.{' '}
+        {fieldConflicts.length === 0
+          ? 'None of the other changes touch the fields you edited, so yours can be saved on top of them.'
+          : 'Pick which value to keep for each field below. Your other changes are kept as they are.'}
+      </Alert>
+
+      {fieldConflicts.length > 0 && (
+        <Table bordered size="sm" className="align-middle">
+          <thead className="table-light">
+            <tr>
+              <th>Field</th>
+              <th>Before</th>
+              <th>Yours</th>
+              <th>Theirs</th>
+            </tr>
+          </thead>
+          <tbody>
+            {fieldConflicts.map(({ field, label, base, mine, theirs }) => {
+              const choice = choices[field] ?? 'mine';
+              return (
+                <tr key={field}>
+                  <th scope="row">{label}</th>
+                  <td className="text-muted text-break">{formatFieldValue(field, base)}</td>
+                  <td className={choice === 'mine' ? 'table-success' : undefined}>
+                    <Form.Check
+                      type="radio"
+                      id={`conflict-${field}-mine`}
+                      name={`conflict-${field}`}
+                      label={<span className="text-break">{formatFieldValue(field, mine)}</span>}
+                      checked={choice === 'mine'}
+                      onChange={() => choose(field, 'mine')}
+                      disabled={isSaving}
+                    />
+                  </td>
+                  <td className={choice === 'theirs' ? 'table-success' : undefined}>
+                    <Form.Check
+                      type="radio"
+                      id={`conflict-${field}-theirs`}
+                      name={`conflict-${field}`}
+                      label={<span className="text-break">{formatFieldValue(field, theirs)}</span>}
+                      checked={choice === 'theirs'}
+                      onChange={() => choose(field, 'theirs')}
+                      disabled={isSaving}
+                    />
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </Table>
+      )}
+
+      <div className="d-flex justify-content-end gap-2">
+        <Button variant="outline-secondary" onClick={onDiscard} disabled={isSaving}>
+          Discard My Changes
+        </Button>
+        <Button variant="primary" onClick={() => onResolve(resolveConflict(conflict, choices))} disabled={isSaving}>
+          {isSaving ? (
+            <>
+              <Spinner as="span" animation="border" size="sm" role="status" aria-hidden="true" className="me-2" />
+              Saving...
+            </>
+          ) : (
+            'Save Merged Changes'
+          )}
+        </Button>
+      </div>
+    </>
+  );
+};
+
+export default ConflictResolver;
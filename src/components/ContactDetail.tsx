@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { getStatusLabel, getStatusVariant, formatDate, formatDateTime } from '../types/JobApplication';
+import { ContactService } from '../services/ContactService';
+import { getErrorMessage, isNotFoundError } from '../services/ApiError';
+import { useContact, useContactApplications } from '../hooks/queries';
+import ContactForm from './ContactForm';
+import { Container, Row, Col, Card, Button, Alert, Spinner, Badge, Modal, Table } from 'react-bootstrap';
+
+// A single contact with their details and every application they're linked to
+const ContactDetail: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const contactId = Number(id);
+  const isValidId = Number.isInteger(contactId) && contactId > 0;
+
+  const contactQuery = useContact(contactId, { enabled: isValidId });
+  const applicationsQuery = useContactApplications(contactId, { enabled: isValidId });
+  const contact = contactQuery.data ?? null;
+  const applications = applicationsQuery.data ?? [];
+  const loadError = contactQuery.error ?? applicationsQuery.error;
+  const loading = contactQuery.isLoading || applicationsQuery.isLoading;
+  const notFound = !isValidId || isNotFoundError(loadError);
+  const [actionError, setError] = useState<string>('');
+  const [isFormVisible, setIsFormVisible] = useState<boolean>(false);
+  const [showDeleteModal, setShowDeleteModal] = useState<boolean>(false);
+  const [isDeleting, setIsDeleting] = useState<boolean>(false);
+
+  const error = actionError ||
+    (loadError !== undefined && !notFound ? getErrorMessage(loadError, 'Failed to load contact') : '');
+
+  // Handle edit form success
+  const handleFormSuccess = () => {
+    setIsFormVisible(false);
+  };
+
+  // Confirm delete - remove the contact and go back to the list
+  const confirmDelete = async () => {
+    if (!contact) return;
+
+    try {
+      setIsDeleting(true);
+      await ContactService.delete(contact.id);
+      navigate('/contacts', { replace: true });
+    } catch (err: any) {
+      setError(`Failed to delete contact: ${err.message}`);
+      setShowDeleteModal(false);
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="d-flex justify-content-center align-items-center" style={{ minHeight: '200px' }}>
+        <Spinner animation="border" role="status">
+          <span className="visually-hidden">Loading contact...</span>
+        </Spinner>
+      </div>
+    );
+  }
+
+  if (notFound) {
+    return (
+      <Container className="py-5 text-center">
+        <h2>Contact not found</h2>
+        <p className="text-muted">The contact you are looking for doesn't exist or has been deleted.</p>
+        <Link to="/contacts" className="btn btn-primary">Back to contacts</Link>
+      </Container>
+    );
+  }
+
+  const notSpecified = <span className="text-muted">Not specified</span>;
+
+  return (
+    <Container className="py-4">
+      <div className="mb-3">
+        <Link to="/contacts">&larr; Back to contacts</Link>
+      </div>
+
+      {error && (
+        <Alert variant="danger" dismissible onClose={() => setError('')} className="mb-4">
+          {error}
+        </Alert>
+      )}
+
+      {contact && (
+        <>
+          <Card>
+            <Card.Header className="d-flex justify-content-between align-items-center">
+              <div>
+                <h3 className="mb-0">{contact.name}</h3>
+                {(contact.role || contact.company) && (
+                  <div className="text-muted">{[contact.role, contact.company].filter(Boolean).join(', ')}</div>
+                )}
+              </div>
+              <div>
+                <Button variant="primary" size="sm" className="me-2" onClick={() => setIsFormVisible(true)}>
+                  Edit
+                </Button>
+                <Button variant="danger" size="sm" onClick={() => setShowDeleteModal(true)}>
+                  Delete
+                </Button>
+              </div>
+            </Card.Header>
+            <Card.Body>
+              <Row as="dl" className="mb-0">
+                <Col as="dt" sm={3}>Email</Col>
+                <Col as="dd" sm={9}>
+                  {contact.email ? <a href={`mailto:${contact.email}`}>{contact.email}</a> : notSpecified}
+                </Col>
+                <Col as="dt" sm={3}>Phone</Col>
+                <Col as="dd" sm={9}>
+                  {contact.phone ? <a href={`tel:${contact.phone}`}>{contact.phone}</a> : notSpecified}
+                </Col>
+                <Col as="dt" sm={3}>LinkedIn</Col>
+                <Col as="dd" sm={9} className="text-break">
+                  {contact.linkedInUrl ? (
+                    <a href={contact.linkedInUrl} target="_blank" rel="noopener noreferrer">
+                      {contact.linkedInUrl}
+                    </a>
+                  ) : (
+                    notSpecified
+                  )}
+                </Col>
+                {contact.notes && (
+                  <>
+                    <Col as="dt" sm={3}>Notes</Col>
+                    <Col as="dd" sm={9} style={{ whiteSpace: 'pre-wrap' }}>{contact.notes}</Col>
+                  </>
+                )}
+                <Col as="dt" sm={3}>Added</Col>
+                <Col as="dd" sm={9}>{formatDateTime(contact.createdAt)}</Col>
+              </Row>
+            </Card.Body>
+          </Card>
+
+          <Card className="mt-4">
+            <Card.Header>
+              <h5 className="mb-0">Linked Applications</h5>
+            </Card.Header>
+            <Card.Body>
+              {applications.length === 0 ? (
+                <div className="text-muted fst-italic">
+                  Not linked to any applications yet. Link contacts from an application's edit form.
+                </div>
+              ) : (
+                <Table hover size="sm" className="mb-0">
+                  <thead>
+                    <tr>
+                      <th>Company</th>
+                      <th>Position</th>
+                      <th>Status</th>
+                      <th>Date Applied</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {applications.map(app => (
+                      <tr key={app.id}>
+                        <td>
+                          <Link to={`/applications/${app.id}`}>{app.company}</Link>
+                        </td>
+                        <td>{app.position}</td>
+                        <td>
+                          <Badge bg={getStatusVariant(app.status)}>{getStatusLabel(app.status)}</Badge>
+                        </td>
+                        <td className="text-muted">{formatDate(app.dateApplied)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </Table>
+              )}
+            </Card.Body>
+          </Card>
+        </>
+      )}
+
+      <ContactForm
+        contact={contact ?? undefined}
+        onSuccess={handleFormSuccess}
+        onCancel={() => setIsFormVisible(false)}
+        isVisible={isFormVisible}
+      />
+
+      {/* Delete Confirmation Modal */}
+      <Modal show={showDeleteModal} onHide={() => setShowDeleteModal(false)} centered>
+        <Modal.Header closeButton>
+          <Modal.Title className="text-danger">Delete Contact</Modal.Title>
+        </Modal.Header>
+        <Modal.Body>
+          Delete <strong>{contact?.name}</strong>? They will be unlinked from{' '}
+          {applications.length === 1 ? '1 application' : `${applications.length} applications`}.
+        </Modal.Body>
+        <Modal.Footer>
+          <Button variant="secondary" onClick={() => setShowDeleteModal(false)} disabled={isDeleting}>
+            Cancel
+          </Button>
+          <Button variant="danger" onClick={confirmDelete} disabled={isDeleting}>
+            {isDeleting ? 'Deleting...' : 'Delete Contact'}
+          </Button>
+        </Modal.Footer>
+      </Modal>
+    </Container>
+  );
+};
+
+export default ContactDetail;
@@ -0,0 +1,219 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Contact,
+  ContactFormData,
+  ContactFormErrors,
+  getEmptyContactFormData,
+  toContactFormData,
+  fromContactFormData,
+  CONTACT_FORM_FIELDS
+} from '../types/Contact';
+import { ContactService } from '../services/ContactService';
+import { toFormErrors } from '../services/ApiError';
+import { validateContact } from '../utils/validation';
+import { Modal, Form, Button, Alert, Spinner, Row, Col } from 'react-bootstrap';
+
+interface ContactFormProps {
+  contact?: Contact; // If provided, form is in edit mode
+  onSuccess: (contact: Contact) => void;
+  onCancel: () => void;
+  isVisible: boolean;
+}
+
+const ContactForm: React.FC<ContactFormProps> = ({ contact, onSuccess, onCancel, isVisible }) => {
+  const [formData, setFormData] = useState<ContactFormData>(() => getEmptyContactFormData());
+  const [errors, setErrors] = useState<ContactFormErrors>({});
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+
+  // Initialize form whenever it opens
+  useEffect(() => {
+    if (!isVisible) return;
+    setFormData(contact ? toContactFormData(contact) : getEmptyContactFormData());
+    setErrors({});
+    setIsSubmitting(false);
+  }, [contact, isVisible]);
+
+  // Handle input changes
+  const handleInputChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>
+  ) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+
+    // Clear specific field error when user starts typing
+    if (errors[name as keyof ContactFormErrors]) {
+      setErrors(prev => ({ ...prev, [name]: undefined }));
+    }
+  };
+
+  // Handle form submission
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const newErrors = validateContact(formData);
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) {
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const dto = fromContactFormData(formData);
+      const saved = contact
+        ? await ContactService.update(contact.id, dto)
+        : await ContactService.create(dto);
+      onSuccess(saved);
+    } catch (error) {
+      console.error('Contact form submission error:', error);
+      setErrors(toFormErrors<ContactFormErrors>(
+        error,
+        CONTACT_FORM_FIELDS,
+        'An error occurred while saving the contact'
+      ));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isVisible) {
+    return null;
+  }
+
+  return (
+    <Modal show={isVisible} onHide={onCancel} centered size="lg">
+      <Modal.Header closeButton>
+        <Modal.Title>{contact ? 'Edit Contact' : 'Add Contact'}</Modal.Title>
+      </Modal.Header>
+
+      <Modal.Body>
+        {errors.general && (
+          <Alert variant="danger" className="mb-3">
+            {errors.general}
+          </Alert>
+        )}
+
+        <Form onSubmit={handleSubmit}>
+          <Form.Group className="mb-3">
+            <Form.Label>Name *</Form.Label>
+            <Form.Control
+              type="text"
+              name="name"
+              value={formData.name}
+              onChange={handleInputChange}
+              autoComplete="off"
+              maxLength={200}
+              disabled={isSubmitting}
+              isInvalid={!!errors.name}
+            />
+            <Form.Control.Feedback type="invalid">{errors.name}</Form.Control.Feedback>
+          </Form.Group>
+
+          <Row>
+            <Form.Group as={Col} md={6} className="mb-3">
+              <Form.Label>Role</Form.Label>
+              <Form.Control
+                type="text"
+                name="role"
+                value={formData.role}
+                onChange={handleInputChange}
+                placeholder="e.g. Technical recruiter"
+                maxLength={200}
+                disabled={isSubmitting}
+                isInvalid={!!errors.role}
+              />
+              <Form.Control.Feedback type="invalid">{errors.role}</Form.Control.Feedback>
+            </Form.Group>
+            <Form.Group as={Col} md={6} className="mb-3">
+              <Form.Label>Company</Form.Label>
+              <Form.Control
+                type="text"
+                name="company"
+                value={formData.company}
+                onChange={handleInputChange}
+                maxLength={200}
+                disabled={isSubmitting}
+                isInvalid={!!errors.company}
+              />
+              <Form.Control.Feedback type="invalid">{errors.company}</Form.Control.Feedback>
+            </Form.Group>
+          </Row>
+
+          <Row>
+            <Form.Group as={Col} md={6} className="mb-3">
+              <Form.Label>Email</Form.Label>
+              <Form.Control
+                type="email"
+                name="email"
+                value={formData.email}
+                onChange={handleInputChange}
+                disabled={isSubmitting}
+                isInvalid={!!errors.email}
+              />
+              <Form.Control.Feedback type="invalid">{errors.email}</Form.Control.Feedback>
+            </Form.Group>
+            <Form.Group as={Col} md={6} className="mb-3">
+              <Form.Label>Phone</Form.Label>
+              <Form.Control
+                type="tel"
+                name="phone"
+                value={formData.phone}
+                onChange={handleInputChange}
+                disabled={isSubmitting}
+                isInvalid={!!errors.phone}
+              />
+              <Form.Control.Feedback type="invalid">{errors.phone}</Form.Control.Feedback>
+            </Form.Group>
+          </Row>
+
+          <Form.Group className="mb-3">
+            <Form.Label>LinkedIn URL</Form.Label>
+            <Form.Control
+              type="url"
+              name="linkedInUrl"
+              value={formData.linkedInUrl}
+              onChange={handleInputChange}
+              placeholder="https://www.linkedin.com/in/..."
+              disabled={isSubmitting}
+              isInvalid={!!errors.linkedInUrl}
+            />
+            <Form.Control.Feedback type="invalid">{errors.linkedInUrl}</Form.Control.Feedback>
+          </Form.Group>
+
+          <Form.Group className="mb-2">
+            <Form.Label>Notes</Form.Label>
+            <Form.Control
+              as="textarea"
+              rows={3}
+              name="notes"
+              value={formData.notes}
+              onChange={handleInputChange}
+              maxLength={2000}
+              disabled={isSubmitting}
+              isInvalid={!!errors.notes}
+            />
+            <Form.Control.Feedback type="invalid">{errors.notes}</Form.Control.Feedback>
+          </Form.Group>
+        </Form>
+      </Modal.Body>
+
+      <Modal.Footer>
+        <Button variant="secondary" onClick={onCancel} disabled={isSubmitting}>
+          Cancel
+        </Button>
+        <Button variant="primary" onClick={handleSubmit} disabled={isSubmitting}>
+          {isSubmitting ? (
+            <>
+              <Spinner as="span" animation="border" size="sm" role="status" aria-hidden="true" className="me-2" />
+              Saving...
+            </>
+          ) : (
+            contact ? 'Update Contact' : 'Add Contact'
+          )}
+        </Button>
+      </Modal.Footer>
+    </Modal>
+  );
+};
+
+export default ContactForm;
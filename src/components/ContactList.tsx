@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useContacts } from '../hooks/queries';
+import { getErrorMessage } from '../services/ApiError';
+import ContactForm from './ContactForm';
+import { Container, Row, Col, Table, Button, Form, Alert, Spinner } from 'react-bootstrap';
+
+// Contacts management page: search, add and open contacts
+const ContactList: React.FC = () => {
+  const { data: contacts = [], isLoading: loading, error } = useContacts();
+  const [search, setSearch] = useState<string>('');
+  const [isFormVisible, setIsFormVisible] = useState<boolean>(false);
+
+  // Handle a newly added contact; the contacts query reloads with it in name order
+  const handleFormSuccess = () => {
+    setIsFormVisible(false);
+  };
+
+  const term = search.trim().toLowerCase();
+  const visibleContacts = term
+    ? contacts.filter(contact =>
+        [contact.name, contact.role, contact.company, contact.email]
+          .some(value => value && value.toLowerCase().includes(term))
+      )
+    : contacts;
+
+  return (
+    <Container fluid className="py-4">
+      <Row className="mb-4 align-items-center">
+        <Col>
+          <h2 className="mb-0">Contacts</h2>
+        </Col>
+        <Col xs="auto">
+          <Button variant="primary" onClick={() => setIsFormVisible(true)}>
+            + Add Contact
+          </Button>
+        </Col>
+      </Row>
+
+      {error !== undefined && (
+        <Alert variant="danger">{getErrorMessage(error, 'Failed to load contacts')}</Alert>
+      )}
+
+      <Form.Control
+        type="search"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        placeholder="Search by name, role, company or email"
+        className="mb-3"
+        style={{ maxWidth: '24rem' }}
+        aria-label="Search contacts"
+      />
+
+      {loading ? (
+        <div className="d-flex justify-content-center py-5">
+          <Spinner animation="border" role="status">
+            <span className="visually-hidden">Loading contacts...</span>
+          </Spinner>
+        </div>
+      ) : (
+        <div className="table-responsive">
+          <Table striped bordered hover>
+            <thead className="table-light">
+              <tr>
+                <th>Name</th>
+                <th>Role</th>
+                <th>Company</th>
+                <th>Email</th>
+                <th>Phone</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleContacts.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="text-center text-muted py-4 fst-italic">
+                    {contacts.length === 0 ? 'No contacts yet' : 'No contacts match your search'}
+                  </td>
+                </tr>
+              ) : (
+                visibleContacts.map(contact => (
+                  <tr key={contact.id}>
+                    <td className="fw-medium">
+                      <Link to={`/contacts/${contact.id}`}>{contact.name}</Link>
+                    </td>
+                    <td>{contact.role}</td>
+                    <td>{contact.company}</td>
+                    <td>{contact.email && <a href={`mailto:${contact.email}`}>{contact.email}</a>}</td>
+                    <td>{contact.phone && <a href={`tel:${contact.phone}`}>{contact.phone}</a>}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </Table>
+        </div>
+      )}
+
+      <ContactForm
+        onSuccess={handleFormSuccess}
+        onCancel={() => setIsFormVisible(false)}
+        isVisible={isFormVisible}
+      />
+    </Container>
+  );
+};
+
+export default ContactList;
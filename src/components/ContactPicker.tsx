@@ -0,0 +1,222 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Contact,
+  ContactFormData,
+  ContactFormErrors,
+  getEmptyContactFormData,
+  fromContactFormData,
+  getContactSummary,
+  sortContactsByName,
+  CONTACT_FORM_FIELDS
+} from '../types/Contact';
+import { ContactService } from '../services/ContactService';
+import { getErrorMessage, toFormErrors } from '../services/ApiError';
+import { updateQueries } from '../services/queryCache';
+import { queryKeys } from '../services/queryKeys';
+import { useContacts } from '../hooks/queries';
+import { validateContact } from '../utils/validation';
+import { Form, Button, Badge, Row, Col, Alert, Spinner } from 'react-bootstrap';
+
+interface ContactPickerProps {
+  selectedIds: number[];
+  onChange: (contactIds: number[]) => void;
+  defaultCompany?: string; // Pre-fills the company of contacts created inline
+  disabled?: boolean;
+}
+
+// Link existing contacts to an application, or create a new one without leaving the form
+const ContactPicker: React.FC<ContactPickerProps> = ({ selectedIds, onChange, defaultCompany, disabled }) => {
+  const { data: contacts = [], isLoading: loading, error: loadError } = useContacts();
+  const error = loadError !== undefined ? getErrorMessage(loadError, 'Failed to load contacts') : '';
+  const [isCreating, setIsCreating] = useState<boolean>(false);
+  const [newContact, setNewContact] = useState<ContactFormData>(() => getEmptyContactFormData());
+  const [newContactErrors, setNewContactErrors] = useState<ContactFormErrors>({});
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+
+  const selectedContacts = selectedIds
+    .map(id => contacts.find(contact => contact.id === id))
+    .filter((contact): contact is Contact => !!contact);
+  const availableContacts = contacts.filter(contact => !selectedIds.includes(contact.id));
+
+  // Handle choosing an existing contact from the select
+  const handleSelect = (value: string) => {
+    const id = parseInt(value);
+    if (id && !selectedIds.includes(id)) {
+      onChange([...selectedIds, id]);
+    }
+  };
+
+  // Handle opening the inline form for a new contact
+  const handleStartCreate = () => {
+    setNewContact(getEmptyContactFormData({ company: defaultCompany?.trim() || '' }));
+    setNewContactErrors({});
+    setIsCreating(true);
+  };
+
+  // Handle input changes in the inline form
+  const handleNewContactChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setNewContact(prev => ({ ...prev, [name]: value }));
+    if (newContactErrors[name as keyof ContactFormErrors]) {
+      setNewContactErrors(prev => ({ ...prev, [name]: undefined }));
+    }
+  };
+
+  // Handle saving the new contact and linking it straight away
+  const handleCreate = async () => {
+    const validationErrors = validateContact(newContact);
+    setNewContactErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+
+    try {
+      setIsSaving(true);
+      const created = await ContactService.create(fromContactFormData(newContact));
+      // Show the new contact as linked straight away rather than once the list has reloaded
+      updateQueries<Contact[]>(queryKeys.contacts.list(), prev => sortContactsByName([...prev, created]));
+      onChange([...selectedIds, created.id]);
+      setIsCreating(false);
+    } catch (err) {
+      setNewContactErrors(toFormErrors<ContactFormErrors>(err, CONTACT_FORM_FIELDS, 'Failed to create contact'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Form.Group className="mb-3">
+      <Form.Label>Contacts</Form.Label>
+      {error && <Alert variant="warning" className="py-2 small">{error}</Alert>}
+
+      {selectedContacts.length > 0 && (
+        <div className="d-flex flex-wrap gap-2 mb-2">
+          {selectedContacts.map(contact => (
+            <Badge key={contact.id} bg="light" text="dark" className="border d-flex align-items-center gap-1 fw-normal">
+              <Link to={`/contacts/${contact.id}`}>{contact.name}</Link>
+              <button
+                type="button"
+                className="btn-close"
+                style={{ fontSize: '0.55rem' }}
+                aria-label={`Unlink ${contact.name}`}
+                onClick={() => onChange(selectedIds.filter(id => id !== contact.id))}
+                disabled={disabled}
+              />
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <div className="d-flex gap-2">
+        <Form.Select
+          value=""
+          onChange={(e) => handleSelect(e.target.value)}
+          disabled={disabled || loading || availableContacts.length === 0}
+          aria-label="Link an existing contact"
+        >
+          <option value="">
+            {loading
+              ? 'Loading contacts...'
+              : availableContacts.length === 0 ? 'No other contacts' : 'Link an existing contact...'}
+          </option>
+          {availableContacts.map(contact => (
+            <option key={contact.id} value={contact.id}>
+              {getContactSummary(contact)}
+            </option>
+          ))}
+        </Form.Select>
+        {!isCreating && (
+          <Button variant="outline-secondary" className="text-nowrap" onClick={handleStartCreate} disabled={disabled}>
+            + New Contact
+          </Button>
+        )}
+      </div>
+
+      {isCreating && (
+        <div
+          className="border rounded p-3 mt-2 bg-light"
+          onKeyDown={(e) => {
+            // Enter saves the contact rather than submitting the surrounding application form
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleCreate();
+            }
+          }}
+        >
+          {newContactErrors.general && (
+            <Alert variant="danger" className="py-2 small">{newContactErrors.general}</Alert>
+          )}
+          <Row className="g-2">
+            <Col md={6}>
+              <Form.Control
+                size="sm"
+                name="name"
+                value={newContact.name}
+                onChange={handleNewContactChange}
+                placeholder="Name *"
+                maxLength={200}
+                disabled={isSaving}
+                isInvalid={!!newContactErrors.name}
+                aria-label="Contact name"
+              />
+              <Form.Control.Feedback type="invalid">{newContactErrors.name}</Form.Control.Feedback>
+            </Col>
+            <Col md={6}>
+              <Form.Control
+                size="sm"
+                name="role"
+                value={newContact.role}
+                onChange={handleNewContactChange}
+                placeholder="Role, e.g. Recruiter"
+                maxLength={200}
+                disabled={isSaving}
+                isInvalid={!!newContactErrors.role}
+                aria-label="Contact role"
+              />
+              <Form.Control.Feedback type="invalid">{newContactErrors.role}</Form.Control.Feedback>
+            </Col>
+            <Col md={6}>
+              <Form.Control
+                size="sm"
+                type="email"
+                name="email"
+                value={newContact.email}
+                onChange={handleNewContactChange}
+                placeholder="Email"
+                disabled={isSaving}
+                isInvalid={!!newContactErrors.email}
+                aria-label="Contact email"
+              />
+              <Form.Control.Feedback type="invalid">{newContactErrors.email}</Form.Control.Feedback>
+            </Col>
+            <Col md={6}>
+              <Form.Control
+                size="sm"
+                type="tel"
+                name="phone"
+                value={newContact.phone}
+                onChange={handleNewContactChange}
+                placeholder="Phone"
+                disabled={isSaving}
+                isInvalid={!!newContactErrors.phone}
+                aria-label="Contact phone"
+              />
+              <Form.Control.Feedback type="invalid">{newContactErrors.phone}</Form.Control.Feedback>
+            </Col>
+          </Row>
+          <div className="d-flex justify-content-end gap-2 mt-2">
+            <Button variant="secondary" size="sm" onClick={() => setIsCreating(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button variant="primary" size="sm" onClick={handleCreate} disabled={isSaving}>
+              {isSaving && <Spinner as="span" animation="border" size="sm" className="me-2" aria-hidden="true" />}
+              Create &amp; Link
+            </Button>
+          </div>
+        </div>
+      )}
+    </Form.Group>
+  );
+};
+
+export default ContactPicker;
@@ -0,0 +1,14 @@
+import React, { useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useFollowUpNotifications } from '../hooks/useFollowUpNotifications';
+
+// Raises browser notifications for due follow-ups; clicking one opens the application
+const FollowUpNotifier: React.FC = () => {
+  const navigate = useNavigate();
+  const openApplication = useCallback((id: number) => navigate(`/applications/${id}`), [navigate]);
+
+  useFollowUpNotifications(openApplication);
+  return null;
+};
+
+export default FollowUpNotifier;
@@ -0,0 +1,321 @@
+import React, { useState, useMemo } from 'react';
+import { JobApplication, getStatusLabel, formatDate, fromFormData } from '../types/JobApplication';
+import { JobApplicationService } from '../services/JobApplicationService';
+import { CsvRecord, parseCsvRecords } from '../utils/csv';
+import {
+  ColumnMapping,
+  DateOrder,
+  ImportField,
+  IMPORT_FIELDS,
+  guessColumnMapping,
+  buildImportRows
+} from '../utils/importMapping';
+import { Modal, Form, Button, Alert, Table, ProgressBar, Badge, Row, Col } from 'react-bootstrap';
+
+interface ImportWizardProps {
+  isVisible: boolean;
+  onComplete: (created: JobApplication[]) => void;
+  onCancel: () => void;
+}
+
+type WizardStep = 'upload' | 'map' | 'preview' | 'importing' | 'done';
+
+interface ImportFailure {
+  rowNumber: number;
+  company: string;
+  message: string;
+}
+
+const EMPTY_MAPPING: ColumnMapping = { company: null, position: null, status: null, dateApplied: null };
+
+const ImportWizard: React.FC<ImportWizardProps> = ({ isVisible, onComplete, onCancel }) => {
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [fileName, setFileName] = useState<string>('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<CsvRecord[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>(EMPTY_MAPPING);
+  const [dateOrder, setDateOrder] = useState<DateOrder>('monthFirst');
+  const [showErrorsOnly, setShowErrorsOnly] = useState<boolean>(false);
+  const [uploadError, setUploadError] = useState<string>('');
+  const [progress, setProgress] = useState<number>(0);
+  const [created, setCreated] = useState<JobApplication[]>([]);
+  const [failures, setFailures] = useState<ImportFailure[]>([]);
+
+  const importRows = useMemo(
+    () => buildImportRows(dataRows, mapping, dateOrder),
+    [dataRows, mapping, dateOrder]
+  );
+  const validRows = importRows.filter(row => Object.keys(row.errors).length === 0);
+  const invalidCount = importRows.length - validRows.length;
+  const missingRequired = IMPORT_FIELDS.filter(f => f.required && mapping[f.field] === null);
+
+  // Reset wizard state
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setHeaders([]);
+    setDataRows([]);
+    setMapping(EMPTY_MAPPING);
+    setDateOrder('monthFirst');
+    setShowErrorsOnly(false);
+    setUploadError('');
+    setProgress(0);
+    setCreated([]);
+    setFailures([]);
+  };
+
+  // Handle file selection
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setUploadError('');
+    try {
+      const records = parseCsvRecords(await file.text());
+      if (records.length < 2) {
+        setUploadError('The file needs a header row and at least one data row.');
+        return;
+      }
+      const [header, ...rows] = records;
+      setFileName(file.name);
+      setHeaders(header.fields.map(name => name.trim()));
+      setDataRows(rows);
+      setMapping(guessColumnMapping(header.fields));
+      setStep('map');
+    } catch (err: any) {
+      setUploadError(`Could not read file: ${err.message}`);
+    }
+  };
+
+  // Handle mapping select changes
+  const handleMappingChange = (field: ImportField, value: string) => {
+    setMapping(prev => ({ ...prev, [field]: value === '' ? null : parseInt(value) }));
+  };
+
+  // Create valid rows one at a time so progress is accurate and one failure doesn't stop the rest
+  const handleImport = async () => {
+    setStep('importing');
+    setProgress(0);
+    const createdApps: JobApplication[] = [];
+    const failedRows: ImportFailure[] = [];
+
+    for (let i = 0; i < validRows.length; i++) {
+      const row = validRows[i];
+      try {
+        createdApps.push(await JobApplicationService.create(fromFormData(row.formData)));
+      } catch (err: any) {
+        failedRows.push({
+          rowNumber: row.rowNumber,
+          company: row.formData.company,
+          message: err.message || 'Failed to create application'
+        });
+      }
+      setProgress(i + 1);
+    }
+
+    setCreated(createdApps);
+    setFailures(failedRows);
+    setStep('done');
+  };
+
+  // Handle closing the wizard
+  const handleClose = () => {
+    if (step === 'importing') return;
+    if (step === 'done') {
+      onComplete(created);
+    } else {
+      onCancel();
+    }
+    reset();
+  };
+
+  if (!isVisible) {
+    return null;
+  }
+
+  const previewRows = showErrorsOnly
+    ? importRows.filter(row => Object.keys(row.errors).length > 0)
+    : importRows;
+
+  return (
+    <Modal show={isVisible} onHide={handleClose} centered size="xl" backdrop={step === 'importing' ? 'static' : true}>
+      <Modal.Header closeButton={step !== 'importing'}>
+        <Modal.Title>Import Applications from CSV</Modal.Title>
+      </Modal.Header>
+
+      <Modal.Body>
+        {step === 'upload' && (
+          <>
+            {uploadError && <Alert variant="danger">{uploadError}</Alert>}
+            <Form.Group>
+              <Form.Label>CSV file</Form.Label>
+              <Form.Control type="file" accept=".csv,text/csv" onChange={handleFileChange} />
+              <Form.Text muted>
+                The first row must contain column headers. You'll map the columns in the next step.
+              </Form.Text>
+            </Form.Group>
+          </>
+        )}
+
+        {step === 'map' && (
+          <>
+            <p className="text-muted">
+              {fileName}: {dataRows.length} data rows. Choose which column holds each field.
+            </p>
+            {IMPORT_FIELDS.map(({ field, label, required }) => (
+              <Form.Group as={Row} key={field} className="mb-2 align-items-center">
+                <Form.Label column sm={3}>
+                  {label}{required && ' *'}
+                </Form.Label>
+                <Col sm={9}>
+                  <Form.Select
+                    value={mapping[field] ?? ''}
+                    onChange={(e) => handleMappingChange(field, e.target.value)}
+                    isInvalid={required && mapping[field] === null}
+                  >
+                    <option value="">
+                      {field === 'status' ? '(not mapped - default to Applied)' : '(not mapped)'}
+                    </option>
+                    {headers.map((header, index) => (
+                      <option key={index} value={index}>
+                        {header || `Column ${index + 1}`}
+                      </option>
+                    ))}
+                  </Form.Select>
+                </Col>
+              </Form.Group>
+            ))}
+            <Form.Group as={Row} className="mt-3 align-items-center">
+              <Form.Label column sm={3}>Numeric dates</Form.Label>
+              <Col sm={9}>
+                <Form.Select value={dateOrder} onChange={(e) => setDateOrder(e.target.value as DateOrder)}>
+                  <option value="monthFirst">Month first (03/28/2024)</option>
+                  <option value="dayFirst">Day first (28/03/2024)</option>
+                </Form.Select>
+              </Col>
+            </Form.Group>
+          </>
+        )}
+
+        {step === 'preview' && (
+          <>
+            <div className="d-flex justify-content-between align-items-center mb-3">
+              <div>
+                <Badge bg="success" className="me-2">{validRows.length} ready</Badge>
+                {invalidCount > 0 && <Badge bg="danger">{invalidCount} with errors</Badge>}
+              </div>
+              <Form.Check
+                type="switch"
+                id="import-errors-only"
+                label="Show only rows with errors"
+                checked={showErrorsOnly}
+                onChange={(e) => setShowErrorsOnly(e.target.checked)}
+              />
+            </div>
+            <div className="table-responsive" style={{ maxHeight: '400px' }}>
+              <Table size="sm" bordered>
+                <thead className="table-light">
+                  <tr>
+                    <th>Line</th>
+                    <th>Company</th>
+                    <th>Position</th>
+                    <th>Status</th>
+                    <th>Date Applied</th>
+                    <th>Problems</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {previewRows.map(row => {
+                    const errorMessages = Object.values(row.errors).filter(Boolean);
+                    return (
+                      <tr key={row.rowNumber} className={errorMessages.length > 0 ? 'table-danger' : ''}>
+                        <td>{row.rowNumber}</td>
+                        <td>{row.formData.company}</td>
+                        <td>{row.formData.position}</td>
+                        <td>{row.errors.status ? '' : getStatusLabel(row.formData.status)}</td>
+                        <td>{row.formData.dateApplied ? formatDate(row.formData.dateApplied) : ''}</td>
+                        <td className="small">
+                          {errorMessages.map((message, i) => <div key={i}>{message}</div>)}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </Table>
+            </div>
+          </>
+        )}
+
+        {step === 'importing' && (
+          <>
+            <p>Importing {validRows.length} applications...</p>
+            <ProgressBar
+              now={validRows.length === 0 ? 100 : (progress / validRows.length) * 100}
+              label={`${progress} / ${validRows.length}`}
+              animated
+            />
+          </>
+        )}
+
+        {step === 'done' && (
+          <>
+            <Alert variant={failures.length === 0 ? 'success' : 'warning'}>
+              Imported {created.length} of {validRows.length} applications.
+              {invalidCount > 0 && ` ${invalidCount} rows were skipped because of validation errors.`}
+            </Alert>
+            {failures.length > 0 && (
+              <>
+                <h6>Failed rows</h6>
+                <Table size="sm" bordered>
+                  <thead className="table-light">
+                    <tr>
+                      <th>Line</th>
+                      <th>Company</th>
+                      <th>Error</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {failures.map(failure => (
+                      <tr key={failure.rowNumber}>
+                        <td>{failure.rowNumber}</td>
+                        <td>{failure.company}</td>
+                        <td>{failure.message}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </Table>
+              </>
+            )}
+          </>
+        )}
+      </Modal.Body>
+
+      <Modal.Footer>
+        {step === 'map' && (
+          <>
+            <Button variant="secondary" onClick={reset}>Back</Button>
+            <Button variant="primary" onClick={() => setStep('preview')} disabled={missingRequired.length > 0}>
+              Preview
+            </Button>
+          </>
+        )}
+        {step === 'preview' && (
+          <>
+            <Button variant="secondary" onClick={() => setStep('map')}>Back</Button>
+            <Button variant="primary" onClick={handleImport} disabled={validRows.length === 0}>
+              Import {validRows.length} Applications
+            </Button>
+          </>
+        )}
+        {step === 'done' && (
+          <Button variant="primary" onClick={handleClose}>Done</Button>
+        )}
+        {step === 'upload' && (
+          <Button variant="secondary" onClick={handleClose}>Cancel</Button>
+        )}
+      </Modal.Footer>
+    </Modal>
+  );
+};
+
+export default ImportWizard;
@@ -0,0 +1,317 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Interview,
+  InterviewFormat,
+  InterviewOutcome,
+  InterviewFormData,
+  InterviewFormErrors,
+  CreateInterviewDto,
+  DEFAULT_INTERVIEW_DURATION,
+  getInterviewFormatOptions,
+  getInterviewOutcomeOptions,
+  INTERVIEW_FORM_FIELDS
+} from '../types/Interview';
+import { InterviewService } from '../services/InterviewService';
+import { toFormErrors } from '../services/ApiError';
+import { validateInterview } from '../utils/validation';
+import {
+  getLocalTimeZone,
+  getTimeZoneOptions,
+  zonedDateTimeToIso,
+  isoToZonedDateTime
+} from '../utils/timeZone';
+import { Modal, Form, Button, Alert, Spinner, Row, Col } from 'react-bootstrap';
+
+interface InterviewFormProps {
+  jobApplicationId: number;
+  interview?: Interview; // If provided, form is in edit mode
+  onSuccess: (interview: Interview) => void;
+  onCancel: () => void;
+  isVisible: boolean;
+}
+
+const emptyFormData = (): InterviewFormData => ({
+  roundName: '',
+  scheduledAt: '',
+  timeZone: getLocalTimeZone(),
+  durationMinutes: String(DEFAULT_INTERVIEW_DURATION),
+  format: InterviewFormat.Video,
+  interviewers: '',
+  location: '',
+  outcome: InterviewOutcome.Scheduled
+});
+
+const InterviewForm: React.FC<InterviewFormProps> = ({
+  jobApplicationId,
+  interview,
+  onSuccess,
+  onCancel,
+  isVisible
+}) => {
+  const [formData, setFormData] = useState<InterviewFormData>(emptyFormData);
+  const [errors, setErrors] = useState<InterviewFormErrors>({});
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const timeZones = useMemo(() => getTimeZoneOptions(), []);
+
+  // Initialize form whenever it opens, so wall-clock times are shown in the interview's own zone
+  useEffect(() => {
+    if (!isVisible) return;
+    if (interview) {
+      setFormData({
+        roundName: interview.roundName,
+        scheduledAt: isoToZonedDateTime(interview.scheduledAt, interview.timeZone),
+        timeZone: interview.timeZone,
+        durationMinutes: String(interview.durationMinutes),
+        format: interview.format,
+        interviewers: interview.interviewers.join(', '),
+        location: interview.location || '',
+        outcome: interview.outcome
+      });
+    } else {
+      setFormData(emptyFormData());
+    }
+    setErrors({});
+    setIsSubmitting(false);
+  }, [interview, isVisible]);
+
+  // Handle input changes
+  const handleInputChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>
+  ) => {
+    const { name, value } = e.target;
+
+    setFormData(prev => ({
+      ...prev,
+      [name]: name === 'format' || name === 'outcome' ? parseInt(value) : value
+    }));
+
+    // Clear specific field error when user starts typing
+    if (errors[name as keyof InterviewFormErrors]) {
+      setErrors(prev => ({
+        ...prev,
+        [name]: undefined
+      }));
+    }
+  };
+
+  // Handle form submission
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const newErrors = validateInterview(formData);
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) {
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const dto: CreateInterviewDto = {
+        roundName: formData.roundName.trim(),
+        scheduledAt: zonedDateTimeToIso(formData.scheduledAt, formData.timeZone),
+        timeZone: formData.timeZone,
+        durationMinutes: Number(formData.durationMinutes),
+        format: formData.format,
+        interviewers: formData.interviewers.split(',').map(name => name.trim()).filter(Boolean),
+        location: formData.location.trim() || undefined,
+        outcome: formData.outcome
+      };
+
+      const saved = interview
+        ? await InterviewService.update(interview.id, dto)
+        : await InterviewService.create(jobApplicationId, dto);
+      onSuccess(saved);
+    } catch (error) {
+      console.error('Interview form submission error:', error);
+      setErrors(toFormErrors<InterviewFormErrors>(
+        error,
+        INTERVIEW_FORM_FIELDS,
+        'An error occurred while saving the interview'
+      ));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isVisible) {
+    return null;
+  }
+
+  return (
+    <Modal show={isVisible} onHide={onCancel} centered size="lg">
+      <Modal.Header closeButton>
+        <Modal.Title>{interview ? 'Edit Interview' : 'Schedule Interview'}</Modal.Title>
+      </Modal.Header>
+
+      <Modal.Body>
+        {errors.general && (
+          <Alert variant="danger" className="mb-3">
+            {errors.general}
+          </Alert>
+        )}
+
+        <Form onSubmit={handleSubmit}>
+          <Form.Group className="mb-3">
+            <Form.Label>Round *</Form.Label>
+            <Form.Control
+              type="text"
+              name="roundName"
+              value={formData.roundName}
+              onChange={handleInputChange}
+              placeholder="e.g. Phone screen, Technical, Final"
+              autoComplete="off"
+              maxLength={100}
+              disabled={isSubmitting}
+              isInvalid={!!errors.roundName}
+            />
+            <Form.Control.Feedback type="invalid">{errors.roundName}</Form.Control.Feedback>
+          </Form.Group>
+
+          <Row>
+            <Col md={5}>
+              <Form.Group className="mb-3">
+                <Form.Label>Date &amp; Time *</Form.Label>
+                <Form.Control
+                  type="datetime-local"
+                  name="scheduledAt"
+                  value={formData.scheduledAt}
+                  onChange={handleInputChange}
+                  disabled={isSubmitting}
+                  isInvalid={!!errors.scheduledAt}
+                />
+                <Form.Control.Feedback type="invalid">{errors.scheduledAt}</Form.Control.Feedback>
+              </Form.Group>
+            </Col>
+            <Col md={4}>
+              <Form.Group className="mb-3">
+                <Form.Label>Time Zone *</Form.Label>
+                <Form.Select
+                  name="timeZone"
+                  value={formData.timeZone}
+                  onChange={handleInputChange}
+                  disabled={isSubmitting}
+                  isInvalid={!!errors.timeZone}
+                >
+                  {timeZones.map(zone => (
+                    <option key={zone} value={zone}>
+                      {zone.replace(/_/g, ' ')}
+                    </option>
+                  ))}
+                </Form.Select>
+                <Form.Control.Feedback type="invalid">{errors.timeZone}</Form.Control.Feedback>
+              </Form.Group>
+            </Col>
+            <Col md={3}>
+              <Form.Group className="mb-3">
+                <Form.Label>Duration (min) *</Form.Label>
+                <Form.Control
+                  type="number"
+                  name="durationMinutes"
+                  value={formData.durationMinutes}
+                  onChange={handleInputChange}
+                  min={5}
+                  max={1440}
+                  step={5}
+                  disabled={isSubmitting}
+                  isInvalid={!!errors.durationMinutes}
+                />
+                <Form.Control.Feedback type="invalid">{errors.durationMinutes}</Form.Control.Feedback>
+              </Form.Group>
+            </Col>
+          </Row>
+
+          <Row>
+            <Col md={6}>
+              <Form.Group className="mb-3">
+                <Form.Label>Format *</Form.Label>
+                <Form.Select
+                  name="format"
+                  value={formData.format}
+                  onChange={handleInputChange}
+                  disabled={isSubmitting}
+                  isInvalid={!!errors.format}
+                >
+                  {getInterviewFormatOptions().map(option => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </Form.Select>
+                <Form.Control.Feedback type="invalid">{errors.format}</Form.Control.Feedback>
+              </Form.Group>
+            </Col>
+            <Col md={6}>
+              <Form.Group className="mb-3">
+                <Form.Label>Outcome *</Form.Label>
+                <Form.Select
+                  name="outcome"
+                  value={formData.outcome}
+                  onChange={handleInputChange}
+                  disabled={isSubmitting}
+                  isInvalid={!!errors.outcome}
+                >
+                  {getInterviewOutcomeOptions().map(option => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </Form.Select>
+                <Form.Control.Feedback type="invalid">{errors.outcome}</Form.Control.Feedback>
+              </Form.Group>
+            </Col>
+          </Row>
+
+          <Form.Group className="mb-3">
+            <Form.Label>Interviewers</Form.Label>
+            <Form.Control
+              type="text"
+              name="interviewers"
+              value={formData.interviewers}
+              onChange={handleInputChange}
+              placeholder="Comma-separated, e.g. Jane Doe, John Smith"
+              autoComplete="off"
+              disabled={isSubmitting}
+            />
+          </Form.Group>
+
+          <Form.Group className="mb-2">
+            <Form.Label>
+              {formData.format === InterviewFormat.Onsite ? 'Address' : 'Meeting Link or Phone Number'}
+            </Form.Label>
+            <Form.Control
+              type="text"
+              name="location"
+              value={formData.location}
+              onChange={handleInputChange}
+              placeholder={formData.format === InterviewFormat.Onsite ? 'Office address' : 'https://...'}
+              autoComplete="off"
+              maxLength={500}
+              disabled={isSubmitting}
+              isInvalid={!!errors.location}
+            />
+            <Form.Control.Feedback type="invalid">{errors.location}</Form.Control.Feedback>
+          </Form.Group>
+        </Form>
+      </Modal.Body>
+
+      <Modal.Footer>
+        <Button variant="secondary" onClick={onCancel} disabled={isSubmitting}>
+          Cancel
+        </Button>
+        <Button variant="primary" onClick={handleSubmit} disabled={isSubmitting}>
+          {isSubmitting ? (
+            <>
+              <Spinner as="span" animation="border" size="sm" role="status" aria-hidden="true" className="me-2" />
+              Saving...
+            </>
+          ) : (
+            interview ? 'Update Interview' : 'Schedule Interview'
+          )}
+        </Button>
+      </Modal.Footer>
+    </Modal>
+  );
+};
+
+export default InterviewForm;
@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { JobApplication } from '../types/JobApplication';
+import {
+  Interview,
+  getInterviewFormatLabel,
+  getInterviewOutcomeLabel,
+  getInterviewOutcomeVariant
+} from '../types/Interview';
+import { InterviewService } from '../services/InterviewService';
+import { getErrorMessage } from '../services/ApiError';
+import { useApplicationInterviews } from '../hooks/queries';
+import { exportInterviewsToIcs } from '../utils/ics';
+import { formatInZone, getLocalTimeZone } from '../utils/timeZone';
+import InterviewForm from './InterviewForm';
+import { Card, Alert, Spinner, Badge, Button, ListGroup, Modal } from 'react-bootstrap';
+
+interface InterviewListProps {
+  jobApplication: JobApplication;
+}
+
+// Interviews for one application, with scheduling, editing and calendar export
+const InterviewList: React.FC<InterviewListProps> = ({ jobApplication }) => {
+  const { data: interviews = [], isLoading: loading, error: loadError } = useApplicationInterviews(jobApplication.id);
+  const [actionError, setError] = useState<string>('');
+  const [isFormVisible, setIsFormVisible] = useState<boolean>(false);
+  const [editingInterview, setEditingInterview] = useState<Interview | undefined>(undefined);
+  const [interviewToDelete, setInterviewToDelete] = useState<Interview | null>(null);
+  const [isDeleting, setIsDeleting] = useState<boolean>(false);
+  const localTimeZone = getLocalTimeZone();
+
+  const error = actionError || (loadError !== undefined ? getErrorMessage(loadError, 'Failed to load interviews') : '');
+
+  // Handle opening the form for a new interview
+  const handleAdd = () => {
+    setEditingInterview(undefined);
+    setIsFormVisible(true);
+  };
+
+  // Handle opening the form for an existing interview
+  const handleEdit = (interview: Interview) => {
+    setEditingInterview(interview);
+    setIsFormVisible(true);
+  };
+
+  // Handle form success (create or update); the interviews query reloads in date order
+  const handleFormSuccess = () => {
+    setIsFormVisible(false);
+    setEditingInterview(undefined);
+  };
+
+  // Confirm delete - actually perform the deletion
+  const confirmDelete = async () => {
+    if (!interviewToDelete) return;
+
+    try {
+      setIsDeleting(true);
+      await InterviewService.delete(interviewToDelete.id);
+      setInterviewToDelete(null);
+    } catch (err: any) {
+      setError(`Failed to delete interview: ${err.message}`);
+      setInterviewToDelete(null);
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  // Handle downloading one interview, or all of them, as an .ics file
+  const handleExport = (items: Interview[], fileName: string) => {
+    exportInterviewsToIcs(items.map(interview => ({ interview, application: jobApplication })), fileName);
+  };
+
+  return (
+    <Card className="mt-4">
+      <Card.Header className="d-flex justify-content-between align-items-center">
+        <h5 className="mb-0">Interviews</h5>
+        <div className="d-flex gap-2">
+          {interviews.length > 0 && (
+            <Button
+              variant="outline-secondary"
+              size="sm"
+              onClick={() => handleExport(interviews, `interviews-${jobApplication.company}`)}
+              title="Download all interviews as a calendar file"
+            >
+              Export all (.ics)
+            </Button>
+          )}
+          <Button variant="primary" size="sm" onClick={handleAdd}>
+            + Schedule Interview
+          </Button>
+        </div>
+      </Card.Header>
+      <Card.Body>
+        {error && (
+          <Alert variant="danger" dismissible onClose={() => setError('')}>
+            {error}
+          </Alert>
+        )}
+        {loading ? (
+          <div className="text-center">
+            <Spinner animation="border" size="sm" role="status">
+              <span className="visually-hidden">Loading interviews...</span>
+            </Spinner>
+          </div>
+        ) : interviews.length === 0 ? (
+          <div className="text-muted fst-italic">No interviews scheduled yet</div>
+        ) : (
+          <ListGroup variant="flush">
+            {interviews.map(interview => (
+              <ListGroup.Item key={interview.id} className="px-0">
+                <div className="d-flex flex-wrap justify-content-between align-items-start gap-2">
+                  <div>
+                    <div className="d-flex align-items-center gap-2">
+                      <strong>{interview.roundName}</strong>
+                      <Badge bg="light" text="dark">{getInterviewFormatLabel(interview.format)}</Badge>
+                      <Badge bg={getInterviewOutcomeVariant(interview.outcome)}>
+                        {getInterviewOutcomeLabel(interview.outcome)}
+                      </Badge>
+                    </div>
+                    <div className="small">
+                      {formatInZone(interview.scheduledAt, interview.timeZone)} &middot; {interview.durationMinutes} min
+                    </div>
+                    {interview.timeZone !== localTimeZone && (
+                      <div className="small text-muted">
+                        Your time: {formatInZone(interview.scheduledAt, localTimeZone)}
+                      </div>
+                    )}
+                    {interview.interviewers.length > 0 && (
+                      <div className="small text-muted">With {interview.interviewers.join(', ')}</div>
+                    )}
+                    {interview.location && (
+                      <div className="small text-break">
+                        {/^https?:\/\//i.test(interview.location) ? (
+                          <a href={interview.location} target="_blank" rel="noopener noreferrer">
+                            {interview.location}
+                          </a>
+                        ) : (
+                          interview.location
+                        )}
+                      </div>
+                    )}
+                  </div>
+                  <div className="d-flex gap-2">
+                    <Button
+                      variant="outline-secondary"
+                      size="sm"
+                      onClick={() => handleExport([interview], `interview-${interview.id}`)}
+                      title="Download as a calendar file"
+                    >
+                      .ics
+                    </Button>
+                    <Button variant="outline-primary" size="sm" onClick={() => handleEdit(interview)}>
+                      Edit
+                    </Button>
+                    <Button variant="outline-danger" size="sm" onClick={() => setInterviewToDelete(interview)}>
+                      Delete
+                    </Button>
+                  </div>
+                </div>
+              </ListGroup.Item>
+            ))}
+          </ListGroup>
+        )}
+      </Card.Body>
+
+      <InterviewForm
+        jobApplicationId={jobApplication.id}
+        interview={editingInterview}
+        onSuccess={handleFormSuccess}
+        onCancel={() => setIsFormVisible(false)}
+        isVisible={isFormVisible}
+      />
+
+      {/* Delete Confirmation Modal */}
+      <Modal show={interviewToDelete !== null} onHide={() => setInterviewToDelete(null)} centered>
+        <Modal.Header closeButton>
+          <Modal.Title className="text-danger">Delete Interview</Modal.Title>
+        </Modal.Header>
+        <Modal.Body>
+          Delete the <strong>{interviewToDelete?.roundName}</strong> interview?
+        </Modal.Body>
+        <Modal.Footer>
+          <Button variant="secondary" onClick={() => setInterviewToDelete(null)} disabled={isDeleting}>
+            Cancel
+          </Button>
+          <Button variant="danger" onClick={confirmDelete} disabled={isDeleting}>
+            {isDeleting ? 'Deleting...' : 'Delete Interview'}
+          </Button>
+        </Modal.Footer>
+      </Modal>
+    </Card>
+  );
+};
+
+export default InterviewList;
@@ -0,0 +1,374 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  JobApplication,
+  ApplicationStatus,
+  getStatusLabel,
+  formatDate,
+  STATUS_PIPELINE_ORDER
+} from '../types/JobApplication';
+import { Link } from 'react-router-dom';
+import { JobApplicationService } from '../services/JobApplicationService';
+import { getErrorMessage, isConflictError } from '../services/ApiError';
+import { setCachedApplication, invalidateJobApplications } from '../services/jobApplicationCache';
+import { useJobApplications } from '../hooks/queries';
+import { Container, Row, Col, Alert, Spinner, Badge, Card } from 'react-bootstrap';
+
+type BoardColumns = Record<ApplicationStatus, JobApplication[]>;
+type BoardOrder = Partial<Record<ApplicationStatus, number[]>>;
+
+interface DropTarget {
+  status: ApplicationStatus;
+  index: number;
+}
+
+interface GrabbedCard {
+  id: number;
+  snapshot: BoardColumns;
+}
+
+// Card order within each column is a client-side preference, kept in localStorage
+const BOARD_ORDER_STORAGE_KEY = 'jobApplicationBoardOrder';
+
+const loadBoardOrder = (): BoardOrder => {
+  try {
+    return JSON.parse(localStorage.getItem(BOARD_ORDER_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const saveBoardOrder = (columns: BoardColumns) => {
+  const order: BoardOrder = {};
+  STATUS_PIPELINE_ORDER.forEach(status => {
+    order[status] = columns[status].map(app => app.id);
+  });
+  localStorage.setItem(BOARD_ORDER_STORAGE_KEY, JSON.stringify(order));
+};
+
+// Group applications into columns, honouring the saved order.
+// Cards without a saved position go to the top, most recently applied first.
+const buildColumns = (applications: JobApplication[], order: BoardOrder): BoardColumns => {
+  const columns = {} as BoardColumns;
+  STATUS_PIPELINE_ORDER.forEach(status => {
+    const saved = order[status] || [];
+    columns[status] = applications
+      .filter(app => app.status === status)
+      .sort((a, b) => {
+        const rankA = saved.indexOf(a.id);
+        const rankB = saved.indexOf(b.id);
+        if (rankA === -1 && rankB === -1) {
+          return new Date(b.dateApplied).getTime() - new Date(a.dateApplied).getTime();
+        }
+        return rankA - rankB;
+      });
+  });
+  return columns;
+};
+
+// Find a card and its position on the board
+const findCard = (columns: BoardColumns, id: number): { app: JobApplication; index: number } | null => {
+  for (const status of STATUS_PIPELINE_ORDER) {
+    const index = columns[status].findIndex(app => app.id === id);
+    if (index !== -1) {
+      return { app: columns[status][index], index };
+    }
+  }
+  return null;
+};
+
+// Move a card to a column and index, returning a new board
+const moveCard = (
+  columns: BoardColumns,
+  id: number,
+  toStatus: ApplicationStatus,
+  toIndex: number
+): BoardColumns => {
+  const found = findCard(columns, id);
+  if (!found) return columns;
+
+  const { app, index: fromIndex } = found;
+  const next = { ...columns };
+  next[app.status] = columns[app.status].filter(card => card.id !== id);
+
+  // Removing the card shifts everything below it up by one
+  let targetIndex = app.status === toStatus && fromIndex < toIndex ? toIndex - 1 : toIndex;
+  targetIndex = Math.max(0, Math.min(targetIndex, next[toStatus].length));
+
+  const target = [...next[toStatus]];
+  target.splice(targetIndex, 0, { ...app, status: toStatus });
+  next[toStatus] = target;
+  return next;
+};
+
+const JobApplicationBoard: React.FC = () => {
+  const { data: applications, isLoading: loading, error: loadError } = useJobApplications();
+  const [columns, setColumns] = useState<BoardColumns | null>(null);
+  const [actionError, setError] = useState<string>('');
+  const [draggingId, setDraggingId] = useState<number | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const [grabbed, setGrabbed] = useState<GrabbedCard | null>(null);
+  const [announcement, setAnnouncement] = useState<string>('');
+  const cardRefs = useRef<Map<number, HTMLDivElement>>(new Map());
+
+  const error = actionError ||
+    (loadError !== undefined ? getErrorMessage(loadError, 'Failed to load job applications') : '');
+
+  // Lay out the cards whenever the cached applications change, in the order the user arranged them
+  useEffect(() => {
+    if (applications) {
+      setColumns(buildColumns(applications, loadBoardOrder()));
+    }
+  }, [applications]);
+
+  // Keep keyboard focus on the grabbed card as it moves between columns
+  useEffect(() => {
+    if (grabbed) {
+      cardRefs.current.get(grabbed.id)?.focus();
+    }
+  }, [columns, grabbed]);
+
+  // Persist a status change, restoring the previous board if the request fails.
+  // The move is shown in every other view straight away, not just once the server confirms it.
+  const persistStatus = async (app: JobApplication, status: ApplicationStatus, snapshot: BoardColumns) => {
+    setCachedApplication({ ...app, status });
+    try {
+      await JobApplicationService.updateStatus(app.id, status, { expectedUpdatedAt: app.updatedAt });
+    } catch (err: any) {
+      setCachedApplication(app);
+      setColumns(snapshot);
+      saveBoardOrder(snapshot);
+      setError(`Failed to update status: ${err.message}`);
+      // Someone else saved it first, so load their version before the card is moved again
+      if (isConflictError(err)) invalidateJobApplications();
+    }
+  };
+
+  // Apply a finished move: save the order and, if the column changed, the status
+  const commitMove = (id: number, toStatus: ApplicationStatus, toIndex: number) => {
+    if (!columns) return;
+
+    const found = findCard(columns, id);
+    if (!found) return;
+
+    const next = moveCard(columns, id, toStatus, toIndex);
+    setColumns(next);
+    saveBoardOrder(next);
+
+    if (found.app.status !== toStatus) {
+      persistStatus(found.app, toStatus, columns);
+    }
+  };
+
+  // Mouse drag and drop handlers
+  const handleDragStart = (e: React.DragEvent, id: number) => {
+    e.dataTransfer.setData('text/plain', id.toString());
+    e.dataTransfer.effectAllowed = 'move';
+    setDraggingId(id);
+  };
+
+  const handleCardDragOver = (e: React.DragEvent<HTMLDivElement>, status: ApplicationStatus, index: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const after = e.clientY > rect.top + rect.height / 2;
+    setDropTarget({ status, index: after ? index + 1 : index });
+  };
+
+  const handleColumnDragOver = (e: React.DragEvent, status: ApplicationStatus) => {
+    e.preventDefault();
+    // Cards handle their own drag-over, so reaching the column means the empty space below them
+    if (columns && (dropTarget?.status !== status || dropTarget.index !== columns[status].length)) {
+      setDropTarget({ status, index: columns[status].length });
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, status: ApplicationStatus) => {
+    e.preventDefault();
+    const id = draggingId ?? parseInt(e.dataTransfer.getData('text/plain'));
+    if (columns && !isNaN(id)) {
+      const target = dropTarget && dropTarget.status === status
+        ? dropTarget
+        : { status, index: columns[status].length };
+      commitMove(id, target.status, target.index);
+    }
+    handleDragEnd();
+  };
+
+  const handleDragEnd = () => {
+    setDraggingId(null);
+    setDropTarget(null);
+  };
+
+  // Keyboard handling: Space/Enter picks up and drops, arrows move, Escape cancels
+  const handleCardKeyDown = (e: React.KeyboardEvent, app: JobApplication) => {
+    if (!columns) return;
+
+    const isGrabbed = grabbed?.id === app.id;
+    const found = findCard(columns, app.id);
+    if (!found) return;
+
+    if (e.key === ' ' || e.key === 'Enter') {
+      e.preventDefault();
+      if (!isGrabbed) {
+        setGrabbed({ id: app.id, snapshot: columns });
+        setAnnouncement(
+          `Picked up ${app.company}. Use arrow keys to move, Space to drop, Escape to cancel.`
+        );
+        return;
+      }
+
+      const original = findCard(grabbed.snapshot, app.id)?.app;
+      saveBoardOrder(columns);
+      if (original && original.status !== app.status) {
+        persistStatus(original, app.status, grabbed.snapshot);
+      }
+      setGrabbed(null);
+      setAnnouncement(`Dropped ${app.company} in ${getStatusLabel(app.status)} at position ${found.index + 1}.`);
+      return;
+    }
+
+    if (!isGrabbed) return;
+
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      setColumns(grabbed.snapshot);
+      setGrabbed(null);
+      setAnnouncement(`Move cancelled. ${app.company} returned to its original position.`);
+      return;
+    }
+
+    const columnIndex = STATUS_PIPELINE_ORDER.indexOf(app.status);
+    let toStatus = app.status;
+    let toIndex = found.index;
+
+    switch (e.key) {
+      case 'ArrowUp':
+        toIndex = found.index - 1;
+        break;
+      case 'ArrowDown':
+        // Account for the card's own slot being removed before insertion
+        toIndex = found.index + 2;
+        break;
+      case 'ArrowLeft':
+        toStatus = STATUS_PIPELINE_ORDER[Math.max(0, columnIndex - 1)];
+        break;
+      case 'ArrowRight':
+        toStatus = STATUS_PIPELINE_ORDER[Math.min(STATUS_PIPELINE_ORDER.length - 1, columnIndex + 1)];
+        break;
+      default:
+        return;
+    }
+
+    e.preventDefault();
+    if (toIndex < 0) return;
+
+    const next = moveCard(columns, app.id, toStatus, toIndex);
+    setColumns(next);
+    const moved = findCard(next, app.id);
+    if (moved) {
+      setAnnouncement(`${getStatusLabel(toStatus)}, position ${moved.index + 1} of ${next[toStatus].length}.`);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="d-flex justify-content-center align-items-center" style={{ minHeight: '200px' }}>
+        <Spinner animation="border" role="status">
+          <span className="visually-hidden">Loading job applications...</span>
+        </Spinner>
+      </div>
+    );
+  }
+
+  return (
+    <Container fluid className="p-4">
+      <Row className="mb-4">
+        <Col>
+          <h2 className="mb-0">Pipeline Board</h2>
+          <small className="text-muted">
+            Drag cards between columns to change status, or focus a card and press Space to move it with the arrow keys.
+          </small>
+        </Col>
+      </Row>
+
+      {error && (
+        <Alert variant="danger" dismissible onClose={() => setError('')} className="mb-4">
+          {error}
+        </Alert>
+      )}
+
+      <div className="visually-hidden" aria-live="assertive">
+        {announcement}
+      </div>
+
+      {columns && (
+        <div className="board d-flex gap-3 pb-3">
+          {STATUS_PIPELINE_ORDER.map(status => (
+            <div
+              key={status}
+              className={`board-column bg-light border rounded d-flex flex-column ${dropTarget?.status === status ? 'board-column-over' : ''}`}
+              onDragOver={(e) => handleColumnDragOver(e, status)}
+              onDrop={(e) => handleDrop(e, status)}
+              aria-label={`${getStatusLabel(status)} column`}
+              role="region"
+            >
+              <div className="d-flex justify-content-between align-items-center p-2 border-bottom">
+                <strong>{getStatusLabel(status)}</strong>
+                <Badge bg="secondary" pill>{columns[status].length}</Badge>
+              </div>
+              <div className="p-2 flex-grow-1" role="list">
+                {columns[status].map((app, index) => (
+                  <React.Fragment key={app.id}>
+                    {dropTarget?.status === status && dropTarget.index === index && draggingId !== null && (
+                      <div className="board-drop-indicator" />
+                    )}
+                    <Card
+                      ref={(el: HTMLDivElement | null) => {
+                        if (el) {
+                          cardRefs.current.set(app.id, el);
+                        } else {
+                          cardRefs.current.delete(app.id);
+                        }
+                      }}
+                      className={`board-card mb-2 ${draggingId === app.id ? 'opacity-50' : ''} ${grabbed?.id === app.id ? 'border-primary shadow' : ''}`}
+                      draggable
+                      tabIndex={0}
+                      role="listitem"
+                      aria-roledescription="Draggable card"
+                      aria-grabbed={grabbed?.id === app.id}
+                      onDragStart={(e: React.DragEvent) => handleDragStart(e, app.id)}
+                      onDragOver={(e: React.DragEvent<HTMLDivElement>) => handleCardDragOver(e, status, index)}
+                      onDragEnd={handleDragEnd}
+                      onKeyDown={(e: React.KeyboardEvent) => handleCardKeyDown(e, app)}
+                    >
+                      <Card.Body className="p-2">
+                        <Link
+                          to={`/applications/${app.id}`}
+                          className="fw-medium d-block"
+                          draggable={false}
+                          tabIndex={-1}
+                        >
+                          {app.company}
+                        </Link>
+                        <div className="small">{app.position}</div>
+                        <div className="small text-muted">Applied {formatDate(app.dateApplied)}</div>
+                      </Card.Body>
+                    </Card>
+                  </React.Fragment>
+                ))}
+                {dropTarget?.status === status && dropTarget.index >= columns[status].length && draggingId !== null && (
+                  <div className="board-drop-indicator" />
+                )}
+                {columns[status].length === 0 && (
+                  <div className="text-center text-muted small fst-italic py-3">No applications</div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </Container>
+  );
+};
+
+export default JobApplicationBoard;
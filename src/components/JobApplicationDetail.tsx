@@ -0,0 +1,349 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import {
+  JobApplication,
+  JobApplicationConflict,
+  JobApplicationEdit,
+  JobApplicationFormData,
+  FormErrors,
+  getStatusLabel,
+  getStatusVariant,
+  formatDate,
+  formatDateTime,
+  toFormData,
+  fromFormData,
+  getChangedFields,
+  parseFormFieldValue,
+  getWorkModeLabel,
+  getSourceLabel,
+  formatSalaryRange,
+  JOB_APPLICATION_FORM_FIELDS
+} from '../types/JobApplication';
+import { JobApplicationService } from '../services/JobApplicationService';
+import { isNotFoundError, isConflictError, toFormErrors, getErrorMessage } from '../services/ApiError';
+import { useJobApplication } from '../hooks/queries';
+import { validateJobApplication } from '../utils/validation';
+import { getAttentionItem, getAttentionLabel, getAttentionVariant } from '../utils/reminders';
+import { useStaleRules } from '../hooks/useStaleRules';
+import StatusTimeline from './StatusTimeline';
+import InterviewList from './InterviewList';
+import NoteList from './NoteList';
+import JobApplicationFormFields from './JobApplicationFormFields';
+import LinkedContacts from './LinkedContacts';
+import ConflictResolver from './ConflictResolver';
+import { DeleteHandoffState } from './JobApplicationTable';
+import { Container, Row, Col, Card, Button, Form, Alert, Spinner, Badge, Modal } from 'react-bootstrap';
+
+const JobApplicationDetail: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const applicationId = Number(id);
+  const isValidId = Number.isInteger(applicationId) && applicationId > 0;
+
+  const {
+    data: cachedApplication,
+    isLoading: loading,
+    error: loadError
+  } = useJobApplication(applicationId, { enabled: isValidId });
+  const [actionError, setError] = useState<string>('');
+  const [isEditing, setIsEditing] = useState<boolean>(false);
+  const [formData, setFormData] = useState<JobApplicationFormData | null>(null);
+  // The version being edited; the page itself keeps following the cache, which may move on
+  const [editBase, setEditBase] = useState<JobApplication | null>(null);
+  const [conflict, setConflict] = useState<JobApplicationConflict | undefined>(undefined);
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+  const [showDeleteModal, setShowDeleteModal] = useState<boolean>(false);
+  const [statusNote, setStatusNote] = useState<string>('');
+  const [staleRules] = useStaleRules();
+  const jobApplication: JobApplication | null = cachedApplication ?? null;
+  const notFound = !isValidId || isNotFoundError(loadError);
+  const error = actionError ||
+    (loadError !== undefined && !notFound ? getErrorMessage(loadError, 'Failed to load job application') : '');
+  const attention = jobApplication ? getAttentionItem(jobApplication, staleRules) : null;
+
+  // Leave edit mode when the route moves to another application
+  useEffect(() => {
+    setIsEditing(false);
+    setError('');
+  }, [applicationId]);
+
+  // Handle entering edit mode
+  const handleEdit = () => {
+    if (!jobApplication) return;
+    setFormData(toFormData(jobApplication));
+    setEditBase(jobApplication);
+    setConflict(undefined);
+    setStatusNote('');
+    setErrors({});
+    setIsEditing(true);
+  };
+
+  // Handle leaving edit mode without saving
+  const handleCancelEdit = () => {
+    setIsEditing(false);
+    setFormData(null);
+    setEditBase(null);
+    setConflict(undefined);
+    setErrors({});
+  };
+
+  // Handle input changes
+  const handleInputChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>
+  ) => {
+    const { name, value } = e.target;
+
+    setFormData(prev => prev && ({
+      ...prev,
+      [name]: parseFormFieldValue(name, value)
+    }));
+
+    if (errors[name as keyof FormErrors]) {
+      setErrors(prev => ({
+        ...prev,
+        [name]: undefined
+      }));
+    }
+  };
+
+  // Save an edit, or show the conflict if someone else saved the application first
+  const saveEdit = async (edit: JobApplicationEdit) => {
+    if (Object.keys(edit.changes).length === 0) {
+      handleCancelEdit();
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setErrors({});
+      try {
+        // The service puts the saved application in the cache, which re-renders this page and its timeline
+        await JobApplicationService.patch(edit.original.id, edit.changes, edit.options);
+      } catch (err) {
+        if (!isConflictError(err)) throw err;
+        setConflict({ edit, theirs: await JobApplicationService.getById(edit.original.id) });
+        return;
+      }
+      handleCancelEdit();
+    } catch (err) {
+      setErrors(toFormErrors<FormErrors>(
+        err,
+        JOB_APPLICATION_FORM_FIELDS,
+        'An error occurred while saving the application'
+      ));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Handle save - only the changed fields are sent, and only if nobody has changed them since
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editBase || !formData) return;
+
+    const validationErrors = validateJobApplication(formData);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+
+    saveEdit({
+      original: editBase,
+      changes: getChangedFields(editBase, fromFormData(formData)),
+      options: { previousStatus: editBase.status, statusNote, expectedUpdatedAt: editBase.updatedAt }
+    });
+  };
+
+  // Confirm delete - go back to the list, which deletes the application once its undo period is over
+  const confirmDelete = () => {
+    if (!jobApplication) return;
+
+    const state: DeleteHandoffState = { deleteApplication: jobApplication };
+    navigate('/', { replace: true, state });
+  };
+
+  if (loading) {
+    return (
+      <div className="d-flex justify-content-center align-items-center" style={{ minHeight: '200px' }}>
+        <Spinner animation="border" role="status">
+          <span className="visually-hidden">Loading job application...</span>
+        </Spinner>
+      </div>
+    );
+  }
+
+  if (notFound) {
+    return (
+      <Container className="py-5 text-center">
+        <h2>Application not found</h2>
+        <p className="text-muted">
+          The job application you are looking for doesn't exist or has been deleted.
+        </p>
+        <Link to="/" className="btn btn-primary">Back to applications</Link>
+      </Container>
+    );
+  }
+
+  return (
+    <Container className="py-4">
+      <div className="mb-3">
+        <Link to="/">&larr; Back to applications</Link>
+      </div>
+
+      {error && (
+        <Alert variant="danger" dismissible onClose={() => setError('')} className="mb-4">
+          {error}
+        </Alert>
+      )}
+
+      {jobApplication && (
+        <Card>
+          <Card.Header className="d-flex justify-content-between align-items-center">
+            <div>
+              <h3 className="mb-0">{jobApplication.company}</h3>
+              <div className="text-muted">{jobApplication.position}</div>
+            </div>
+            {!isEditing && (
+              <div>
+                <Button variant="primary" size="sm" className="me-2" onClick={handleEdit}>
+                  Edit
+                </Button>
+                <Button variant="danger" size="sm" onClick={() => setShowDeleteModal(true)}>
+                  Delete
+                </Button>
+              </div>
+            )}
+          </Card.Header>
+
+          <Card.Body>
+            {isEditing && formData && conflict ? (
+              <ConflictResolver
+                conflict={conflict}
+                onResolve={saveEdit}
+                onDiscard={handleCancelEdit}
+                isSaving={isSaving}
+                error={errors.general}
+              />
+            ) : isEditing && formData ? (
+              <Form onSubmit={handleSave}>
+                {errors.general && (
+                  <Alert variant="danger" className="mb-3">
+                    {errors.general}
+                  </Alert>
+                )}
+                <JobApplicationFormFields
+                  formData={formData}
+                  errors={errors}
+                  onChange={handleInputChange}
+                  onValuesChange={values => setFormData(prev => prev && ({ ...prev, ...values }))}
+                  savedStatus={editBase?.status}
+                  statusNote={statusNote}
+                  onStatusNoteChange={setStatusNote}
+                  disabled={isSaving}
+                />
+                <div className="d-flex justify-content-end gap-2">
+                  <Button variant="secondary" onClick={handleCancelEdit} disabled={isSaving}>
+                    Cancel
+                  </Button>
+                  <Button variant="primary" type="submit" disabled={isSaving}>
+                    {isSaving ? 'Saving...' : 'Save Changes'}
+                  </Button>
+                </div>
+              </Form>
+            ) : (
+              <Row as="dl" className="mb-0">
+                <Col as="dt" sm={3}>Status</Col>
+                <Col as="dd" sm={9}>
+                  <Badge bg={getStatusVariant(jobApplication.status)}>
+                    {getStatusLabel(jobApplication.status)}
+                  </Badge>
+                </Col>
+                <Col as="dt" sm={3}>Date Applied</Col>
+                <Col as="dd" sm={9}>{formatDate(jobApplication.dateApplied)}</Col>
+                <Col as="dt" sm={3}>Next Follow-up</Col>
+                <Col as="dd" sm={9}>
+                  {jobApplication.nextFollowUpDate ? formatDate(jobApplication.nextFollowUpDate) : <span className="text-muted">None</span>}
+                  {attention && (
+                    <Badge bg={getAttentionVariant(attention)} className="ms-2">
+                      {getAttentionLabel(attention)}
+                    </Badge>
+                  )}
+                </Col>
+                <Col as="dt" sm={3}>Job Posting</Col>
+                <Col as="dd" sm={9} className="text-break">
+                  {jobApplication.postingUrl ? (
+                    <a href={jobApplication.postingUrl} target="_blank" rel="noopener noreferrer">
+                      {jobApplication.postingUrl}
+                    </a>
+                  ) : (
+                    <span className="text-muted">Not specified</span>
+                  )}
+                </Col>
+                <Col as="dt" sm={3}>Location</Col>
+                <Col as="dd" sm={9}>
+                  {jobApplication.location || <span className="text-muted">Not specified</span>}
+                  {jobApplication.workMode && (
+                    <Badge bg="light" text="dark" className="ms-2">{getWorkModeLabel(jobApplication.workMode)}</Badge>
+                  )}
+                </Col>
+                <Col as="dt" sm={3}>Salary</Col>
+                <Col as="dd" sm={9}>
+                  {formatSalaryRange(jobApplication) || <span className="text-muted">Not specified</span>}
+                </Col>
+                <Col as="dt" sm={3}>Source</Col>
+                <Col as="dd" sm={9}>
+                  {jobApplication.source ? getSourceLabel(jobApplication.source) : <span className="text-muted">Not specified</span>}
+                </Col>
+                <Col as="dt" sm={3}>Contacts</Col>
+                <Col as="dd" sm={9}>
+                  <LinkedContacts contactIds={jobApplication.contactIds ?? []} />
+                </Col>
+                <Col as="dt" sm={3}>Created</Col>
+                <Col as="dd" sm={9}>{formatDateTime(jobApplication.createdAt)}</Col>
+                <Col as="dt" sm={3}>Last Updated</Col>
+                <Col as="dd" sm={9}>{formatDateTime(jobApplication.updatedAt)}</Col>
+                {jobApplication.description && (
+                  <>
+                    <Col as="dt" sm={3}>Description</Col>
+                    <Col as="dd" sm={9} style={{ whiteSpace: 'pre-wrap' }}>{jobApplication.description}</Col>
+                  </>
+                )}
+              </Row>
+            )}
+          </Card.Body>
+        </Card>
+      )}
+
+      {jobApplication && <InterviewList jobApplication={jobApplication} />}
+
+      {jobApplication && <NoteList jobApplication={jobApplication} />}
+
+      {jobApplication && (
+        <StatusTimeline jobApplicationId={jobApplication.id} />
+      )}
+
+      {/* Delete Confirmation Modal */}
+      <Modal show={showDeleteModal} onHide={() => setShowDeleteModal(false)} centered>
+        <Modal.Header closeButton>
+          <Modal.Title className="text-danger">Confirm Delete</Modal.Title>
+        </Modal.Header>
+        <Modal.Body>
+          Are you sure you want to delete the job application for{' '}
+          <strong>{jobApplication?.company}</strong> - {jobApplication?.position}?
+          <p className="text-muted mt-3 mb-0">
+            You'll be taken back to the list, where the delete can be undone for a few seconds.
+          </p>
+        </Modal.Body>
+        <Modal.Footer>
+          <Button variant="secondary" onClick={() => setShowDeleteModal(false)}>
+            Cancel
+          </Button>
+          <Button variant="danger" onClick={confirmDelete}>
+            Delete Application
+          </Button>
+        </Modal.Footer>
+      </Modal>
+    </Container>
+  );
+};
+
+export default JobApplicationDetail;
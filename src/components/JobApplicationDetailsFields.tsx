@@ -0,0 +1,163 @@
+import React from 'react';
+import {
+  JobApplicationFormData,
+  FormErrors,
+  CURRENCY_OPTIONS,
+  getWorkModeOptions,
+  getSourceOptions
+} from '../types/JobApplication';
+import { Form, Row, Col, InputGroup } from 'react-bootstrap';
+
+interface JobApplicationDetailsFieldsProps {
+  formData: JobApplicationFormData;
+  errors: FormErrors;
+  onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => void;
+  disabled?: boolean;
+}
+
+// Optional posting details (link, location, work mode, salary, source, description),
+// shown under the main fields in JobApplicationFormFields
+const JobApplicationDetailsFields: React.FC<JobApplicationDetailsFieldsProps> = ({
+  formData,
+  errors,
+  onChange,
+  disabled
+}) => (
+  <>
+    <Form.Group className="mb-3">
+      <Form.Label>Job Posting URL</Form.Label>
+      <Form.Control
+        type="url"
+        name="postingUrl"
+        value={formData.postingUrl}
+        onChange={onChange}
+        placeholder="https://..."
+        autoComplete="off"
+        maxLength={2000}
+        disabled={disabled}
+        isInvalid={!!errors.postingUrl}
+      />
+      <Form.Control.Feedback type="invalid">{errors.postingUrl}</Form.Control.Feedback>
+    </Form.Group>
+
+    <Row>
+      <Form.Group as={Col} md={6} className="mb-3">
+        <Form.Label>Location</Form.Label>
+        <Form.Control
+          type="text"
+          name="location"
+          value={formData.location}
+          onChange={onChange}
+          placeholder="e.g. Singapore, London"
+          maxLength={200}
+          disabled={disabled}
+          isInvalid={!!errors.location}
+        />
+        <Form.Control.Feedback type="invalid">{errors.location}</Form.Control.Feedback>
+      </Form.Group>
+      <Form.Group as={Col} md={3} className="mb-3">
+        <Form.Label>Work Mode</Form.Label>
+        <Form.Select
+          name="workMode"
+          value={formData.workMode}
+          onChange={onChange}
+          disabled={disabled}
+          isInvalid={!!errors.workMode}
+        >
+          <option value="">Not specified</option>
+          {getWorkModeOptions().map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </Form.Select>
+        <Form.Control.Feedback type="invalid">{errors.workMode}</Form.Control.Feedback>
+      </Form.Group>
+      <Form.Group as={Col} md={3} className="mb-3">
+        <Form.Label>Source</Form.Label>
+        <Form.Select
+          name="source"
+          value={formData.source}
+          onChange={onChange}
+          disabled={disabled}
+          isInvalid={!!errors.source}
+        >
+          <option value="">Not specified</option>
+          {getSourceOptions().map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </Form.Select>
+        <Form.Control.Feedback type="invalid">{errors.source}</Form.Control.Feedback>
+      </Form.Group>
+    </Row>
+
+    <Form.Group className="mb-3">
+      <Form.Label>Salary Range</Form.Label>
+      <InputGroup hasValidation>
+        <Form.Select
+          name="salaryCurrency"
+          value={formData.salaryCurrency}
+          onChange={onChange}
+          disabled={disabled}
+          isInvalid={!!errors.salaryCurrency}
+          style={{ maxWidth: '6rem' }}
+          aria-label="Currency"
+        >
+          {CURRENCY_OPTIONS.map(currency => (
+            <option key={currency} value={currency}>
+              {currency}
+            </option>
+          ))}
+        </Form.Select>
+        <Form.Control
+          type="number"
+          name="salaryMin"
+          value={formData.salaryMin}
+          onChange={onChange}
+          placeholder="Min"
+          min={0}
+          step="any"
+          disabled={disabled}
+          isInvalid={!!errors.salaryMin}
+          aria-label="Minimum salary"
+        />
+        <InputGroup.Text>to</InputGroup.Text>
+        <Form.Control
+          type="number"
+          name="salaryMax"
+          value={formData.salaryMax}
+          onChange={onChange}
+          placeholder="Max"
+          min={0}
+          step="any"
+          disabled={disabled}
+          isInvalid={!!errors.salaryMax}
+          aria-label="Maximum salary"
+        />
+        <Form.Control.Feedback type="invalid">
+          {errors.salaryCurrency || errors.salaryMin || errors.salaryMax}
+        </Form.Control.Feedback>
+      </InputGroup>
+    </Form.Group>
+
+    <Form.Group className="mb-3">
+      <Form.Label>Description</Form.Label>
+      <Form.Control
+        as="textarea"
+        rows={4}
+        name="description"
+        value={formData.description}
+        onChange={onChange}
+        placeholder="Paste the job description or your own summary"
+        maxLength={5000}
+        disabled={disabled}
+        isInvalid={!!errors.description}
+      />
+      <Form.Control.Feedback type="invalid">{errors.description}</Form.Control.Feedback>
+    </Form.Group>
+  </>
+);
+
+export default JobApplicationDetailsFields;
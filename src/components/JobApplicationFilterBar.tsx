@@ -0,0 +1,214 @@
+import React, { useState, useEffect } from 'react';
+import {
+  ApplicationStatus,
+  ApplicationSource,
+  WorkMode,
+  JobApplicationFilters,
+  getStatusOptions,
+  getWorkModeOptions,
+  getSourceOptions,
+  UPDATED_WITHIN_OPTIONS
+} from '../types/JobApplication';
+import { Row, Col, Form, Button, ToggleButton, ToggleButtonGroup, InputGroup } from 'react-bootstrap';
+
+interface JobApplicationFilterBarProps {
+  filters: JobApplicationFilters;
+  onChange: (filters: JobApplicationFilters) => void;
+  onClear: () => void;
+  isFiltered: boolean;
+}
+
+// Delay before a search keystroke is applied to the URL
+const SEARCH_DEBOUNCE_MS = 300;
+
+const JobApplicationFilterBar: React.FC<JobApplicationFilterBarProps> = ({
+  filters,
+  onChange,
+  onClear,
+  isFiltered
+}) => {
+  const [searchText, setSearchText] = useState<string>(filters.search || '');
+  const [locationText, setLocationText] = useState<string>(filters.location || '');
+
+  // Keep the text boxes in sync when the URL changes underneath us (back button, reset)
+  useEffect(() => {
+    const search = filters.search || '';
+    setSearchText(prev => prev.trim() === search ? prev : search);
+  }, [filters.search]);
+
+  useEffect(() => {
+    const location = filters.location || '';
+    setLocationText(prev => prev.trim() === location ? prev : location);
+  }, [filters.location]);
+
+  // Apply search and location text after the user stops typing
+  useEffect(() => {
+    if (searchText.trim() === (filters.search || '') && locationText.trim() === (filters.location || '')) return;
+
+    const timer = setTimeout(() => {
+      onChange({ ...filters, search: searchText, location: locationText });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchText, locationText, filters, onChange]);
+
+  // Handle status toggle buttons
+  const handleStatusesChange = (statuses: ApplicationStatus[]) => {
+    onChange({ ...filters, statuses });
+  };
+
+  // Handle work mode and source toggle buttons
+  const handleWorkModesChange = (workModes: WorkMode[]) => {
+    onChange({ ...filters, workModes });
+  };
+
+  const handleSourcesChange = (sources: ApplicationSource[]) => {
+    onChange({ ...filters, sources });
+  };
+
+  // Handle date range inputs
+  const handleDateChange = (key: 'dateAppliedFrom' | 'dateAppliedTo', value: string) => {
+    onChange({ ...filters, [key]: value || undefined });
+  };
+
+  // Handle "updated within" select
+  const handleUpdatedWithinChange = (value: string) => {
+    onChange({ ...filters, updatedWithinDays: value === '' ? undefined : parseInt(value) });
+  };
+
+  return (
+    <div className="bg-light border rounded p-3 mb-4">
+      <Row className="g-3 align-items-end">
+        <Col lg={4}>
+          <Form.Label htmlFor="filter-search" className="small text-muted mb-1">Search</Form.Label>
+          <Form.Control
+            id="filter-search"
+            type="search"
+            size="sm"
+            value={searchText}
+            onChange={(e) => setSearchText(e.target.value)}
+            placeholder="Company, position, location or notes"
+          />
+        </Col>
+        <Col lg={4}>
+          <Form.Label htmlFor="filter-date-from" className="small text-muted mb-1">Date Applied</Form.Label>
+          <InputGroup size="sm">
+            <Form.Control
+              id="filter-date-from"
+              type="date"
+              value={filters.dateAppliedFrom || ''}
+              max={filters.dateAppliedTo}
+              onChange={(e) => handleDateChange('dateAppliedFrom', e.target.value)}
+              aria-label="Applied from"
+            />
+            <InputGroup.Text>to</InputGroup.Text>
+            <Form.Control
+              type="date"
+              value={filters.dateAppliedTo || ''}
+              min={filters.dateAppliedFrom}
+              onChange={(e) => handleDateChange('dateAppliedTo', e.target.value)}
+              aria-label="Applied to"
+            />
+          </InputGroup>
+        </Col>
+        <Col lg={2}>
+          <Form.Label htmlFor="filter-updated-within" className="small text-muted mb-1">Updated Within</Form.Label>
+          <Form.Select
+            id="filter-updated-within"
+            size="sm"
+            value={filters.updatedWithinDays || ''}
+            onChange={(e) => handleUpdatedWithinChange(e.target.value)}
+          >
+            <option value="">Any time</option>
+            {UPDATED_WITHIN_OPTIONS.map(days => (
+              <option key={days} value={days}>
+                Last {days} days
+              </option>
+            ))}
+          </Form.Select>
+        </Col>
+        <Col lg={2} className="d-flex justify-content-lg-end">
+          <Button variant="outline-secondary" size="sm" onClick={onClear} disabled={!isFiltered}>
+            Clear Filters
+          </Button>
+        </Col>
+        <Col xs={12}>
+          <ToggleButtonGroup
+            type="checkbox"
+            size="sm"
+            value={filters.statuses || []}
+            onChange={handleStatusesChange}
+            className="flex-wrap"
+            aria-label="Filter by status"
+          >
+            {getStatusOptions().map(option => (
+              <ToggleButton
+                key={option.value}
+                id={`filter-status-${option.value}`}
+                value={option.value}
+                variant="outline-primary"
+              >
+                {option.label}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+        </Col>
+        <Col lg={4}>
+          <Form.Label htmlFor="filter-location" className="small text-muted mb-1">Location</Form.Label>
+          <Form.Control
+            id="filter-location"
+            type="search"
+            size="sm"
+            value={locationText}
+            onChange={(e) => setLocationText(e.target.value)}
+            placeholder="City, country or region"
+          />
+        </Col>
+        <Col lg="auto">
+          <div className="small text-muted mb-1">Work Mode</div>
+          <ToggleButtonGroup
+            type="checkbox"
+            size="sm"
+            value={filters.workModes || []}
+            onChange={handleWorkModesChange}
+            aria-label="Filter by work mode"
+          >
+            {getWorkModeOptions().map(option => (
+              <ToggleButton
+                key={option.value}
+                id={`filter-work-mode-${option.value}`}
+                value={option.value}
+                variant="outline-secondary"
+              >
+                {option.label}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+        </Col>
+        <Col lg="auto">
+          <div className="small text-muted mb-1">Source</div>
+          <ToggleButtonGroup
+            type="checkbox"
+            size="sm"
+            value={filters.sources || []}
+            onChange={handleSourcesChange}
+            className="flex-wrap"
+            aria-label="Filter by source"
+          >
+            {getSourceOptions().map(option => (
+              <ToggleButton
+                key={option.value}
+                id={`filter-source-${option.value}`}
+                value={option.value}
+                variant="outline-secondary"
+              >
+                {option.label}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+        </Col>
+      </Row>
+    </div>
+  );
+};
+
+export default JobApplicationFilterBar;
@@ -1,63 +1,67 @@
 import React, { useState, useEffect } from 'react';
 import {
   JobApplication,
-  CreateJobApplicationDto,
-  UpdateJobApplicationDto,
+  JobApplicationEdit,
+  JobApplicationConflict,
   JobApplicationFormData,
   FormErrors,
-  ApplicationStatus,
-  getStatusOptions,
-  formatDateForInput
+  getEmptyFormData,
+  toFormData,
+  fromFormData,
+  parseFormFieldValue,
+  getChangedFields,
+  JOB_APPLICATION_FORM_FIELDS
 } from '../types/JobApplication';
 import { JobApplicationService } from '../services/JobApplicationService';
+import { isConflictError, toFormErrors } from '../services/ApiError';
+import { validateJobApplication } from '../utils/validation';
+import JobApplicationFormFields from './JobApplicationFormFields';
+import ConflictResolver from './ConflictResolver';
 import { Modal, Form, Button, Alert, Spinner } from 'react-bootstrap';
 
 interface JobApplicationFormProps {
   jobApplication?: JobApplication; // If provided, form is in edit mode
   onSuccess: (jobApplication: JobApplication) => void;
+  onSaveEdit?: (edit: JobApplicationEdit) => void; // If provided, edits are handed off and saved by the caller
   onCancel: () => void;
   isVisible: boolean;
+  conflict?: JobApplicationConflict; // An edit the caller couldn't save because someone else changed the application
 }
 
 const JobApplicationForm: React.FC<JobApplicationFormProps> = ({
   jobApplication,
   onSuccess,
+  onSaveEdit,
   onCancel,
-  isVisible
+  isVisible,
+  conflict: conflictToResolve
 }) => {
-  const [formData, setFormData] = useState<JobApplicationFormData>({
-    company: '',
-    position: '',
-    status: ApplicationStatus.Applied,
-    dateApplied: new Date().toISOString().split('T')[0] // Today's date in YYYY-MM-DD format
-  });
+  const [formData, setFormData] = useState<JobApplicationFormData>(getEmptyFormData);
 
   const [errors, setErrors] = useState<FormErrors>({});
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
   const [isEdit, setIsEdit] = useState<boolean>(false);
+  const [statusNote, setStatusNote] = useState<string>('');
+  const [conflict, setConflict] = useState<JobApplicationConflict | undefined>(conflictToResolve);
 
   // Initialize form when jobApplication prop changes
   useEffect(() => {
     if (jobApplication) {
       setIsEdit(true);
-      setFormData({
-        company: jobApplication.company,
-        position: jobApplication.position,
-        status: jobApplication.status,
-        dateApplied: formatDateForInput(jobApplication.dateApplied)
-      });
+      setFormData(toFormData(jobApplication));
     } else {
       setIsEdit(false);
-      setFormData({
-        company: '',
-        position: '',
-        status: ApplicationStatus.Applied,
-        dateApplied: new Date().toISOString().split('T')[0]
-      });
+      setFormData(getEmptyFormData());
     }
+    setStatusNote('');
     setErrors({});
   }, [jobApplication]);
 
+  // Show a conflict handed in by the caller, or clear one left over from a previous edit
+  useEffect(() => {
+    setConflict(conflictToResolve);
+  }, [conflictToResolve]);
+
   // Reset form when visibility changes
   useEffect(() => {
     if (!isVisible) {
@@ -68,43 +72,7 @@ const JobApplicationForm: React.FC<JobApplicationFormProps> = ({
 
   // Form validation
   const validateForm = (): boolean => {
-    const newErrors: FormErrors = {};
-
-    // Company validation
-    if (!formData.company.trim()) {
-      newErrors.company = 'Company name is required';
-    } else if (formData.company.trim().length > 200) {
-      newErrors.company = 'Company name must be 200 characters or less';
-    }
-
-    // Position validation
-    if (!formData.position.trim()) {
-      newErrors.position = 'Position is required';
-    } else if (formData.position.trim().length > 200) {
-      newErrors.position = 'Position must be 200 characters or less';
-    }
-
-    // Status validation
-    if (!Object.values(ApplicationStatus).includes(formData.status)) {
-      newErrors.status = 'Please select a valid status';
-    }
-
-    // Date validation
-    if (!formData.dateApplied) {
-      newErrors.dateApplied = 'Date applied is required';
-    } else {
-      const selectedDate = new Date(formData.dateApplied);
-      const today = new Date();
-      const oneYearAgo = new Date();
-      oneYearAgo.setFullYear(today.getFullYear() - 1);
-
-      if (selectedDate > today) {
-        newErrors.dateApplied = 'Date applied cannot be in the future';
-      } else if (selectedDate < oneYearAgo) {
-        newErrors.dateApplied = 'Date applied cannot be more than one year ago';
-      }
-    }
-
+    const newErrors = validateJobApplication(formData);
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -117,7 +85,7 @@ const JobApplicationForm: React.FC<JobApplicationFormProps> = ({
     
     setFormData(prev => ({
       ...prev,
-      [name]: name === 'status' ? parseInt(value) as ApplicationStatus : value
+      [name]: parseFormFieldValue(name, value)
     }));
 
     // Clear specific field error when user starts typing
@@ -129,6 +97,44 @@ const JobApplicationForm: React.FC<JobApplicationFormProps> = ({
     }
   };
 
+  // Save an edit, or show the conflict if someone else saved the application first
+  const saveEdit = async (edit: JobApplicationEdit) => {
+    // Nothing left to save, e.g. every field was left as it is or taken from their version
+    if (Object.keys(edit.changes).length === 0) {
+      setConflict(undefined);
+      onSuccess(edit.original);
+      return;
+    }
+
+    // Let the caller show the change straight away and save it in the background
+    if (onSaveEdit) {
+      onSaveEdit(edit);
+      return;
+    }
+
+    try {
+      const updatedApp = await JobApplicationService.patch(edit.original.id, edit.changes, edit.options);
+      setConflict(undefined);
+      onSuccess(updatedApp);
+    } catch (error) {
+      if (!isConflictError(error)) throw error;
+      setConflict({ edit, theirs: await JobApplicationService.getById(edit.original.id) });
+    }
+  };
+
+  // Handle saving the merged changes from the conflict view
+  const handleResolve = async (edit: JobApplicationEdit) => {
+    setIsSubmitting(true);
+    setErrors({});
+    try {
+      await saveEdit(edit);
+    } catch (error) {
+      setErrors(toFormErrors<FormErrors>(error, [], 'An error occurred while saving the application'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   // Handle form submission
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -142,42 +148,34 @@ const JobApplicationForm: React.FC<JobApplicationFormProps> = ({
 
     try {
       if (isEdit && jobApplication) {
-        // Update existing application
-        const updateDto: UpdateJobApplicationDto = {
-          company: formData.company.trim(),
-          position: formData.position.trim(),
-          status: formData.status,
-          dateApplied: new Date(formData.dateApplied).toISOString()
-        };
-
-        const updatedApp = await JobApplicationService.update(jobApplication.id, updateDto);
-        onSuccess(updatedApp);
+        // Update existing application, sending only the fields that changed. The server refuses
+        // the save if the application has changed since it was loaded, rather than overwriting it.
+        await saveEdit({
+          original: jobApplication,
+          changes: getChangedFields(jobApplication, fromFormData(formData)),
+          options: {
+            previousStatus: jobApplication.status,
+            statusNote,
+            expectedUpdatedAt: jobApplication.updatedAt
+          }
+        });
       } else {
         // Create new application
-        const createDto: CreateJobApplicationDto = {
-          company: formData.company.trim(),
-          position: formData.position.trim(),
-          status: formData.status,
-          dateApplied: new Date(formData.dateApplied).toISOString()
-        };
-
-        const newApp = await JobApplicationService.create(createDto);
+        const newApp = await JobApplicationService.create(fromFormData(formData));
         
         // Reset form to default values after successful creation
-        setFormData({
-          company: '',
-          position: '',
-          status: ApplicationStatus.Applied,
-          dateApplied: new Date().toISOString().split('T')[0]
-        });
+        setFormData(getEmptyFormData());
         
         onSuccess(newApp);
       }
-    } catch (error: any) {
+    } catch (error) {
       console.error('Form submission error:', error);
-      setErrors({
-        general: error.message || 'An error occurred while saving the application'
-      });
+      // Server validation errors are shown under the fields they belong to
+      setErrors(toFormErrors<FormErrors>(
+        error,
+        JOB_APPLICATION_FORM_FIELDS,
+        'An error occurred while saving the application'
+      ));
     } finally {
       setIsSubmitting(false);
     }
@@ -185,13 +183,9 @@ const JobApplicationForm: React.FC<JobApplicationFormProps> = ({
 
   // Handle cancel
   const handleCancel = () => {
-    setFormData({
-      company: '',
-      position: '',
-      status: ApplicationStatus.Applied,
-      dateApplied: new Date().toISOString().split('T')[0]
-    });
+    setFormData(getEmptyFormData());
     setErrors({});
+    setConflict(undefined);
     onCancel();
   };
 
@@ -208,117 +202,68 @@ const JobApplicationForm: React.FC<JobApplicationFormProps> = ({
       </Modal.Header>
       
       <Modal.Body>
-        {errors.general && (
+        {errors.general && !conflict && (
           <Alert variant="danger" className="mb-3">
             {errors.general}
           </Alert>
         )}
 
-        <Form onSubmit={handleSubmit}>
-          <Form.Group className="mb-3">
-            <Form.Label>Company Name *</Form.Label>
-            <Form.Control
-              type="text"
-              name="company"
-              value={formData.company}
-              onChange={handleInputChange}
-              placeholder="Enter company name"
-              autoComplete="off"
-              maxLength={200}
-              disabled={isSubmitting}
-              isInvalid={!!errors.company}
-            />
-            <Form.Control.Feedback type="invalid">
-              {errors.company}
-            </Form.Control.Feedback>
-          </Form.Group>
-
-          <Form.Group className="mb-3">
-            <Form.Label>Position *</Form.Label>
-            <Form.Control
-              type="text"
-              name="position"
-              value={formData.position}
-              onChange={handleInputChange}
-              placeholder="Enter position title"
-              autoComplete="off"
-              maxLength={200}
-              disabled={isSubmitting}
-              isInvalid={!!errors.position}
-            />
-            <Form.Control.Feedback type="invalid">
-              {errors.position}
-            </Form.Control.Feedback>
-          </Form.Group>
-
-          <Form.Group className="mb-3">
-            <Form.Label>Status *</Form.Label>
-            <Form.Select
-              name="status"
-              value={formData.status}
-              onChange={handleInputChange}
-              disabled={isSubmitting}
-              isInvalid={!!errors.status}
-            >
-              {getStatusOptions().map(option => (
-                <option key={option.value} value={option.value}>
-                  {option.label}
-                </option>
-              ))}
-            </Form.Select>
-            <Form.Control.Feedback type="invalid">
-              {errors.status}
-            </Form.Control.Feedback>
-          </Form.Group>
+        {conflict && (
+          <ConflictResolver
+            conflict={conflict}
+            onResolve={handleResolve}
+            onDiscard={handleCancel}
+            isSaving={isSubmitting}
+            error={errors.general}
+          />
+        )}
 
-          <Form.Group className="mb-4">
-            <Form.Label>Date Applied *</Form.Label>
-            <Form.Control
-              type="date"
-              name="dateApplied"
-              value={formData.dateApplied}
-              onChange={handleInputChange}
-              disabled={isSubmitting}
-              max={new Date().toISOString().split('T')[0]}
-              isInvalid={!!errors.dateApplied}
-            />
-            <Form.Control.Feedback type="invalid">
-              {errors.dateApplied}
-            </Form.Control.Feedback>
-          </Form.Group>
+        <Form onSubmit={handleSubmit} hidden={!!conflict}>
+          <JobApplicationFormFields
+            formData={formData}
+            errors={errors}
+            onChange={handleInputChange}
+            onValuesChange={values => setFormData(prev => ({ ...prev, ...values }))}
+            savedStatus={isEdit ? jobApplication?.status : undefined}
+            statusNote={statusNote}
+            onStatusNoteChange={setStatusNote}
+            disabled={isSubmitting}
+          />
         </Form>
       </Modal.Body>
       
-      <Modal.Footer>
-        <Button 
-          variant="secondary" 
-          onClick={handleCancel}
-          disabled={isSubmitting}
-        >
-          Cancel
-        </Button>
-        <Button 
-          variant="primary" 
-          onClick={handleSubmit}
-          disabled={isSubmitting}
-        >
-          {isSubmitting ? (
-            <>
-              <Spinner
-                as="span"
-                animation="border"
-                size="sm"
-                role="status"
-                aria-hidden="true"
-                className="me-2"
-              />
-              {isEdit ? 'Updating...' : 'Adding...'}
-            </>
-          ) : (
-            isEdit ? 'Update Application' : 'Add Application'
-          )}
-        </Button>
-      </Modal.Footer>
+      {!conflict && (
+        <Modal.Footer>
+          <Button 
+            variant="secondary" 
+            onClick={handleCancel}
+            disabled={isSubmitting}
+          >
+            Cancel
+          </Button>
+          <Button 
+            variant="primary" 
+            onClick={handleSubmit}
+            disabled={isSubmitting}
+          >
+            {isSubmitting ? (
+              <>
+                <Spinner
+                  as="span"
+                  animation="border"
+                  size="sm"
+                  role="status"
+                  aria-hidden="true"
+                  className="me-2"
+                />
+                {isEdit ? 'Updating...' : 'Adding...'}
+              </>
+            ) : (
+              isEdit ? 'Update Application' : 'Add Application'
+            )}
+          </Button>
+        </Modal.Footer>
+      )}
     </Modal>
   );
 };
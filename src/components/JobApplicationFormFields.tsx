@@ -0,0 +1,182 @@
+import React from 'react';
+import {
+  ApplicationStatus,
+  JobApplicationFormData,
+  FormErrors,
+  getStatusOptions
+} from '../types/JobApplication';
+import { normalizeCompanyName } from '../utils/companies';
+import { useCompanySuggestions } from '../hooks/useCompanySuggestions';
+import JobApplicationDetailsFields from './JobApplicationDetailsFields';
+import ContactPicker from './ContactPicker';
+import { Form, Row, Col, Button } from 'react-bootstrap';
+
+interface JobApplicationFormFieldsProps {
+  formData: JobApplicationFormData;
+  errors: FormErrors;
+  onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => void;
+  onValuesChange: (values: Partial<JobApplicationFormData>) => void; // For fields that aren't plain inputs
+  savedStatus?: ApplicationStatus; // When editing, the status before this edit; changing it asks for a note
+  statusNote: string;
+  onStatusNoteChange: (note: string) => void;
+  disabled?: boolean;
+}
+
+// Every editable field of an application, shared by the add/edit modal and the inline editor
+// on the detail page so both stay in step as fields are added
+const JobApplicationFormFields: React.FC<JobApplicationFormFieldsProps> = ({
+  formData,
+  errors,
+  onChange,
+  onValuesChange,
+  savedStatus,
+  statusNote,
+  onStatusNoteChange,
+  disabled
+}) => {
+  const companySuggestions = useCompanySuggestions(true);
+
+  // An existing employer spelled differently, so the user can pick the usual spelling
+  const companyKey = normalizeCompanyName(formData.company);
+  const matchingCompany = companyKey
+    ? companySuggestions.find(name => normalizeCompanyName(name) === companyKey && name !== formData.company.trim())
+    : undefined;
+
+  return (
+    <>
+      <Row>
+        <Form.Group as={Col} md={6} className="mb-3">
+          <Form.Label>Company Name *</Form.Label>
+          <Form.Control
+            type="text"
+            name="company"
+            value={formData.company}
+            onChange={onChange}
+            placeholder="Enter company name"
+            autoComplete="off"
+            list="company-suggestions"
+            maxLength={200}
+            disabled={disabled}
+            isInvalid={!!errors.company}
+          />
+          <datalist id="company-suggestions">
+            {companySuggestions.map(name => (
+              <option key={name} value={name} />
+            ))}
+          </datalist>
+          {matchingCompany && (
+            <Form.Text className="text-muted">
+              Same company as{' '}
+              <Button
+                variant="link"
+                size="sm"
+                className="p-0 align-baseline"
+                onClick={() => onValuesChange({ company: matchingCompany })}
+                disabled={disabled}
+              >
+                {matchingCompany}
+              </Button>
+              ? Use that spelling to keep them together.
+            </Form.Text>
+          )}
+          <Form.Control.Feedback type="invalid">{errors.company}</Form.Control.Feedback>
+        </Form.Group>
+
+        <Form.Group as={Col} md={6} className="mb-3">
+          <Form.Label>Position *</Form.Label>
+          <Form.Control
+            type="text"
+            name="position"
+            value={formData.position}
+            onChange={onChange}
+            placeholder="Enter position title"
+            autoComplete="off"
+            maxLength={200}
+            disabled={disabled}
+            isInvalid={!!errors.position}
+          />
+          <Form.Control.Feedback type="invalid">{errors.position}</Form.Control.Feedback>
+        </Form.Group>
+
+        <Form.Group as={Col} md={6} className="mb-3">
+          <Form.Label>Status *</Form.Label>
+          <Form.Select
+            name="status"
+            value={formData.status}
+            onChange={onChange}
+            disabled={disabled}
+            isInvalid={!!errors.status}
+          >
+            {getStatusOptions().map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </Form.Select>
+          <Form.Control.Feedback type="invalid">{errors.status}</Form.Control.Feedback>
+        </Form.Group>
+
+        <Form.Group as={Col} md={6} className="mb-3">
+          <Form.Label>Date Applied *</Form.Label>
+          <Form.Control
+            type="date"
+            name="dateApplied"
+            value={formData.dateApplied}
+            onChange={onChange}
+            max={new Date().toISOString().split('T')[0]}
+            disabled={disabled}
+            isInvalid={!!errors.dateApplied}
+          />
+          <Form.Control.Feedback type="invalid">{errors.dateApplied}</Form.Control.Feedback>
+        </Form.Group>
+
+        {savedStatus !== undefined && formData.status !== savedStatus && (
+          <Form.Group as={Col} xs={12} className="mb-3">
+            <Form.Label>Status Change Note</Form.Label>
+            <Form.Control
+              as="textarea"
+              rows={2}
+              value={statusNote}
+              onChange={(e) => onStatusNoteChange(e.target.value)}
+              placeholder="Optional note, e.g. who you spoke to or why it changed"
+              maxLength={500}
+              disabled={disabled}
+            />
+          </Form.Group>
+        )}
+
+        <Form.Group as={Col} md={6} className="mb-3">
+          <Form.Label>Next Follow-up</Form.Label>
+          <Form.Control
+            type="date"
+            name="nextFollowUpDate"
+            value={formData.nextFollowUpDate}
+            onChange={onChange}
+            disabled={disabled}
+            isInvalid={!!errors.nextFollowUpDate}
+          />
+          <Form.Text className="text-muted">
+            Optional. You'll be reminded on this date.
+          </Form.Text>
+          <Form.Control.Feedback type="invalid">{errors.nextFollowUpDate}</Form.Control.Feedback>
+        </Form.Group>
+      </Row>
+
+      <JobApplicationDetailsFields
+        formData={formData}
+        errors={errors}
+        onChange={onChange}
+        disabled={disabled}
+      />
+
+      <ContactPicker
+        selectedIds={formData.contactIds}
+        onChange={(contactIds) => onValuesChange({ contactIds })}
+        defaultCompany={formData.company}
+        disabled={disabled}
+      />
+    </>
+  );
+};
+
+export default JobApplicationFormFields;
@@ -1,156 +1,569 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import {
   JobApplication,
+  JobApplicationEdit,
+  JobApplicationConflict,
+  getChangedFields,
   ApplicationStatus,
-  getStatusLabel,
   formatDate,
-  getStatusOptions
+  getStatusOptions,
+  getStatusLabel,
+  getStatusVariant,
+  SortDescriptor,
+  JobApplicationSortField,
+  PAGE_SIZE_OPTIONS,
+  sortJobApplications,
+  toUpdateDto,
+  getWorkModeLabel,
+  getSourceLabel,
+  formatSalaryRange
 } from '../types/JobApplication';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
+import { Note, getNotePreview } from '../types/Note';
 import { JobApplicationService } from '../services/JobApplicationService';
-import { Container, Row, Col, Table, Button, Form, Alert, Pagination, Spinner, Modal } from 'react-bootstrap';
+import { getErrorMessage, isConflictError } from '../services/ApiError';
+import { setCachedApplication, invalidateJobApplications } from '../services/jobApplicationCache';
+import { useJobApplicationPage, useLatestNotes } from '../hooks/queries';
+import { useJobApplicationQuery, hasActiveFilters, DEFAULT_SORT } from '../hooks/useJobApplicationQuery';
+import { useUndoStack } from '../hooks/useUndoStack';
+import { useStaleRules } from '../hooks/useStaleRules';
+import { getAttentionItem, getAttentionLabel, getAttentionVariant } from '../utils/reminders';
+import { exportJobApplications, ExportFormat } from '../utils/export';
+import { runWithConcurrency } from '../utils/concurrency';
+import JobApplicationFilterBar from './JobApplicationFilterBar';
+import JobApplicationForm from './JobApplicationForm';
+import UndoToastStack from './UndoToastStack';
+import BulkActionBar, { BulkProgress, BulkFailure } from './BulkActionBar';
+import {
+  Container,
+  Row,
+  Col,
+  Table,
+  Button,
+  Form,
+  Alert,
+  Pagination,
+  Spinner,
+  Dropdown,
+  Badge,
+  OverlayTrigger,
+  Tooltip
+} from 'react-bootstrap';
+
+// Maximum number of requests a bulk action runs at once
+const BULK_CONCURRENCY = 4;
+
+// Shown until the latest notes for the page have loaded
+const NO_NOTES = new Map<number, Note>();
+
+// Navigation state for handing a delete over to the table, which can still undo it
+export interface DeleteHandoffState {
+  deleteApplication: JobApplication;
+}
+
+// Columns the user can show or hide; the rest are always visible
+type OptionalColumn = 'location' | 'workMode' | 'salary' | 'source';
+
+const OPTIONAL_COLUMNS: { key: OptionalColumn; label: string }[] = [
+  { key: 'location', label: 'Location' },
+  { key: 'workMode', label: 'Work Mode' },
+  { key: 'salary', label: 'Salary' },
+  { key: 'source', label: 'Source' }
+];
+
+// localStorage key for the chosen optional columns
+const VISIBLE_COLUMNS_KEY = 'jobApplicationTableColumns';
+
+// Read the saved column choice, ignoring anything malformed
+const loadVisibleColumns = (): OptionalColumn[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(VISIBLE_COLUMNS_KEY) || '[]');
+    return Array.isArray(stored)
+      ? OPTIONAL_COLUMNS.map(column => column.key).filter(key => stored.includes(key))
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+// Build the list of page numbers to render, collapsing long ranges into ellipses
+const getPageItems = (currentPage: number, totalPages: number): (number | 'ellipsis')[] => {
+  const siblingCount = 1;
+  const items: (number | 'ellipsis')[] = [];
+  for (let page = 1; page <= totalPages; page++) {
+    if (page === 1 || page === totalPages || Math.abs(page - currentPage) <= siblingCount) {
+      items.push(page);
+    } else if (items[items.length - 1] !== 'ellipsis') {
+      items.push('ellipsis');
+    }
+  }
+  return items;
+};
+
+// Compute the next sort when a column header is clicked.
+// Plain click sorts by that column alone (asc -> desc -> default); shift-click adds
+// it as a secondary key or cycles it (asc -> desc -> removed).
+const getNextSort = (
+  sort: SortDescriptor[],
+  field: JobApplicationSortField,
+  multi: boolean
+): SortDescriptor[] => {
+  const existing = sort.find(s => s.field === field);
+
+  if (multi) {
+    if (!existing) {
+      return [...sort, { field, direction: 'asc' }];
+    }
+    if (existing.direction === 'asc') {
+      return sort.map(s => s.field === field ? { field, direction: 'desc' } : s);
+    }
+    return sort.filter(s => s.field !== field);
+  }
+
+  if (sort.length === 1 && existing) {
+    return existing.direction === 'asc' ? [{ field, direction: 'desc' }] : [];
+  }
+  return [{ field, direction: 'asc' }];
+};
 
-interface JobApplicationTableProps {
-  onEdit: (jobApplication: JobApplication) => void;
-  resetFilter?: boolean; // Used to reset filter to "All Statuses"
-  newApplication?: JobApplication; // New application to add to the list
-  updatedApplication?: JobApplication; // Updated application to modify in the list
+interface SortableHeaderProps {
+  field: JobApplicationSortField;
+  label: string;
+  sort: SortDescriptor[];
+  onSort: (field: JobApplicationSortField, multi: boolean) => void;
 }
 
-const JobApplicationTable: React.FC<JobApplicationTableProps> = ({
-  onEdit,
-  resetFilter,
-  newApplication,
-  updatedApplication
-}) => {
-  const [jobApplications, setJobApplications] = useState<JobApplication[]>([]);
-  const [loading, setLoading] = useState<boolean>(true);
-  const [error, setError] = useState<string>('');
-  const [currentPage, setCurrentPage] = useState<number>(1);
-  const [pageSize] = useState<number>(5);
-  const [statusFilter, setStatusFilter] = useState<ApplicationStatus | ''>('');
-  const [showDeleteModal, setShowDeleteModal] = useState<boolean>(false);
-  const [applicationToDelete, setApplicationToDelete] = useState<JobApplication | null>(null);
-  const [isDeleting, setIsDeleting] = useState<boolean>(false);
-
-  // Pagination calculations
-  const filteredApplications = jobApplications.filter(app => 
-    statusFilter === '' || app.status === statusFilter
+// Clickable column header showing the sort direction and, for multi-column sorts, its priority
+const SortableHeader: React.FC<SortableHeaderProps> = ({ field, label, sort, onSort }) => {
+  const index = sort.findIndex(s => s.field === field);
+  const descriptor = index === -1 ? undefined : sort[index];
+  const ariaSort = descriptor ? (descriptor.direction === 'asc' ? 'ascending' : 'descending') : 'none';
+
+  return (
+    <th aria-sort={ariaSort} className="text-nowrap">
+      <button
+        type="button"
+        className="btn btn-link p-0 text-reset text-decoration-none fw-bold"
+        onClick={(e) => onSort(field, e.shiftKey)}
+        title="Click to sort, Shift+click to add a secondary sort"
+      >
+        {label}
+        {descriptor && (
+          <span className="ms-1 small">
+            {descriptor.direction === 'asc' ? '▲' : '▼'}
+            {sort.length > 1 && <sup>{index + 1}</sup>}
+          </span>
+        )}
+      </button>
+    </th>
   );
-  const totalPages = Math.ceil(filteredApplications.length / pageSize);
+};
+
+const JobApplicationTable: React.FC = () => {
+  const [actionError, setError] = useState<string>('');
+  const [editingApplication, setEditingApplication] = useState<JobApplication | undefined>(undefined);
+  const [conflict, setConflict] = useState<JobApplicationConflict | undefined>(undefined);
+  const [pendingDeleteIds, setPendingDeleteIds] = useState<Set<number>>(new Set());
+  const [selected, setSelected] = useState<Map<number, JobApplication>>(new Map());
+  const [allMatchingSelected, setAllMatchingSelected] = useState<boolean>(false);
+  const [bulkProgress, setBulkProgress] = useState<BulkProgress | null>(null);
+  const [bulkFailures, setBulkFailures] = useState<BulkFailure[]>([]);
+  const [savingIds, setSavingIds] = useState<Set<number>>(new Set());
+  const [rowErrors, setRowErrors] = useState<Record<number, string>>({});
+  const [visibleColumns, setVisibleColumns] = useState<OptionalColumn[]>(loadVisibleColumns);
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const {
+    filters,
+    sort,
+    page: currentPage,
+    pageSize,
+    setFilters,
+    clearFilters,
+    setSort,
+    setPage: setCurrentPage,
+    setPageSize
+  } = useJobApplicationQuery();
+  const [staleRules] = useStaleRules();
+  const { entries: undoEntries, push: pushUndo, undo, dismiss: dismissUndo } = useUndoStack();
+  const isFiltered = hasActiveFilters(filters);
+
+  const {
+    data: pageData,
+    isLoading,
+    isFetching: loading,
+    error: loadError
+  } = useJobApplicationPage({ page: currentPage, pageSize, sort, ...filters });
+  const pageIds = useMemo(() => (pageData ? pageData.data.map(app => app.id) : []), [pageData]);
+  const { data: latestNotes = NO_NOTES } = useLatestNotes(pageIds);
+  const error = actionError ||
+    (loadError !== undefined ? getErrorMessage(loadError, 'Failed to load job applications') : '');
+
+  // The server orders the page; re-applying the same stable sort keeps rows in place after local edits
+  // Rows deleted within the undo grace period are hidden until the delete is committed
+  const visibleApplications = pageData ? pageData.data.filter(app => !pendingDeleteIds.has(app.id)) : [];
+  const jobApplications = sortJobApplications(visibleApplications, sort);
+  const totalCount = pageData ? pageData.totalCount - (pageData.data.length - visibleApplications.length) : 0;
+  const totalPages = pageData ? pageData.totalPages : 0;
   const startIndex = (currentPage - 1) * pageSize;
-  const endIndex = startIndex + pageSize;
-  const currentApplications = filteredApplications.slice(startIndex, endIndex);
+  const allOnPageSelected = jobApplications.length > 0 &&
+    (allMatchingSelected || jobApplications.every(app => selected.has(app.id)));
+  const selectedCount = allMatchingSelected ? totalCount : selected.size;
+  const filterKey = JSON.stringify(filters);
+
+  // The requested page can fall off the end after deletes or filter changes
+  useEffect(() => {
+    if (pageData && pageData.totalPages > 0 && currentPage > pageData.totalPages) {
+      setCurrentPage(pageData.totalPages);
+    }
+  }, [pageData, currentPage, setCurrentPage]);
+
+  // Set or clear the error shown on a single row
+  const setRowError = useCallback((id: number, message?: string) => {
+    setRowErrors(prev => {
+      const { [id]: _removed, ...rest } = prev;
+      return message ? { ...rest, [id]: message } : rest;
+    });
+  }, []);
+
+  // Mark a row as saving; its controls are disabled so changes to it can't overlap
+  const setRowSaving = useCallback((id: number, saving: boolean) => {
+    setSavingIds(prev => {
+      const next = new Set(prev);
+      if (saving) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  }, []);
+
+  // Show a change to a row immediately, then save it. If saving fails the row is put back
+  // exactly as it was and the error is shown on that row. Resolves to the saved row on success.
+  const saveOptimistically = useCallback(async (
+    original: JobApplication,
+    optimistic: JobApplication,
+    save: () => Promise<JobApplication>,
+    failureMessage: string
+  ): Promise<JobApplication | undefined> => {
+    setRowError(original.id);
+    setRowSaving(original.id, true);
+    setCachedApplication(optimistic);
 
-  // Load job applications
-  const loadJobApplications = async () => {
     try {
-      setLoading(true);
-      setError('');
-      const applications = await JobApplicationService.getAll();
-      setJobApplications(applications);
+      // Saving refetches the page, so the server decides whether the row still belongs on it
+      return await save();
     } catch (err: any) {
-      setError(err.message || 'Failed to load job applications');
-      console.error('Error loading job applications:', err);
+      setCachedApplication(original);
+      setRowError(original.id, `${failureMessage}: ${err.message}`);
+      // Someone else saved it first, so load their version before the change is tried again
+      if (isConflictError(err)) invalidateJobApplications();
+      return undefined;
     } finally {
-      setLoading(false);
+      setRowSaving(original.id, false);
+    }
+  }, [setRowError, setRowSaving]);
+
+  // Put a row's editable fields back to an earlier version, recording the status change if there is one.
+  // Refused if someone else has changed the application since, so undo never overwrites their edit.
+  const revertChange = (current: JobApplication, previous: JobApplication) => {
+    const changes = getChangedFields(current, toUpdateDto(previous));
+    saveOptimistically(
+      current,
+      { ...current, ...changes, updatedAt: new Date().toISOString() },
+      () => JobApplicationService.patch(current.id, changes, {
+        previousStatus: current.status,
+        expectedUpdatedAt: current.updatedAt
+      }),
+      'Failed to undo change'
+    );
+  };
+
+  // Handle status change
+  const handleStatusChange = async (app: JobApplication, newStatus: ApplicationStatus) => {
+    const saved = await saveOptimistically(
+      app,
+      { ...app, status: newStatus, updatedAt: new Date().toISOString() },
+      () => JobApplicationService.updateStatus(app.id, newStatus, { expectedUpdatedAt: app.updatedAt }),
+      'Failed to update status'
+    );
+    if (saved) {
+      pushUndo({
+        message: `${app.company} moved to ${getStatusLabel(newStatus)}`,
+        undo: () => revertChange(saved, app)
+      });
     }
   };
 
-  // Load data on component mount
+  // Stop hiding a row that was pending deletion
+  const unhideRow = (id: number) => {
+    setPendingDeleteIds(prev => {
+      const next = new Set(prev);
+      next.delete(id);
+      return next;
+    });
+  };
+
+  // Handle delete - hide the row now and only delete it once the undo grace period is over
+  const handleDelete = (app: JobApplication) => {
+    setRowError(app.id);
+    setPendingDeleteIds(prev => new Set(prev).add(app.id));
+
+    pushUndo({
+      message: `Deleted ${app.company} - ${app.position}`,
+      undo: () => unhideRow(app.id),
+      commit: async () => {
+        try {
+          // Deleting refetches the page, pulling in the next row
+          await JobApplicationService.delete(app.id);
+        } catch (err: any) {
+          setRowError(app.id, `Failed to delete application: ${err.message}`);
+        } finally {
+          unhideRow(app.id);
+        }
+      }
+    });
+  };
+
+  // An application deleted from its detail page is handed over in the navigation state,
+  // so it gets the same undo grace period as one deleted from the table
+  const location = useLocation();
+  const navigate = useNavigate();
+  const handledDeleteKey = useRef<string | null>(null);
+  // Always the latest handleDelete, so the deferred call below never uses a stale one
+  const handleDeleteRef = useRef(handleDelete);
+  handleDeleteRef.current = handleDelete;
+  const deletedElsewhere = (location.state as DeleteHandoffState | null)?.deleteApplication;
+  const { key: locationKey, pathname, search } = location;
   useEffect(() => {
-    loadJobApplications();
-  }, []); // Only run once on mount
+    if (!deletedElsewhere || handledDeleteKey.current === locationKey) return;
 
-  // Handle status change
-  const handleStatusChange = async (id: number, newStatus: ApplicationStatus) => {
+    // Deferred past mounting, since unmounting the undo stack commits whatever it holds
+    const timer = setTimeout(() => {
+      handledDeleteKey.current = locationKey;
+      // Drop the state so going back or reloading doesn't delete it again
+      navigate({ pathname, search }, { replace: true, state: null });
+      handleDeleteRef.current(deletedElsewhere);
+    }, 0);
+    return () => clearTimeout(timer);
+  }, [deletedElsewhere, locationKey, pathname, search, navigate]);
+
+  // Selection carries across pages, but not across filter changes
+  useEffect(() => {
+    setSelected(new Map());
+    setAllMatchingSelected(false);
+  }, [filterKey]);
+
+  // Clear the selection, including "all matching"
+  const clearSelection = () => {
+    setSelected(new Map());
+    setAllMatchingSelected(false);
+  };
+
+  // Handle toggling a single row's checkbox
+  const handleToggleRow = (app: JobApplication) => {
+    // Unticking one row drops "all matching" back to an explicit selection of this page
+    const next = allMatchingSelected
+      ? new Map(jobApplications.map(item => [item.id, item]))
+      : new Map(selected);
+    if (next.has(app.id)) {
+      next.delete(app.id);
+    } else {
+      next.set(app.id, app);
+    }
+    setAllMatchingSelected(false);
+    setSelected(next);
+  };
+
+  // Handle the header checkbox - select or deselect every row on this page
+  const handleTogglePage = () => {
+    const next = allMatchingSelected ? new Map<number, JobApplication>() : new Map(selected);
+    jobApplications.forEach(app => {
+      if (allOnPageSelected) {
+        next.delete(app.id);
+      } else {
+        next.set(app.id, app);
+      }
+    });
+    setAllMatchingSelected(false);
+    setSelected(next);
+  };
+
+  // The applications a bulk action applies to, fetching every match when "all matching" is selected
+  const resolveBulkTargets = async (): Promise<JobApplication[]> => {
+    if (!allMatchingSelected) {
+      return Array.from(selected.values());
+    }
+    const matching = await JobApplicationService.getAllMatching({ ...filters, sort });
+    return matching.filter(app => !pendingDeleteIds.has(app.id));
+  };
+
+  // Run a task for each target with bounded concurrency, reporting failures per row.
+  // Resolves to the targets that failed.
+  const runBulk = async (
+    label: string,
+    targets: JobApplication[],
+    task: (app: JobApplication) => Promise<unknown>
+  ): Promise<JobApplication[]> => {
+    setBulkFailures([]);
+    setBulkProgress({ label, completed: 0, total: targets.length });
+
+    const results = await runWithConcurrency(targets, BULK_CONCURRENCY, task, (completed, total) =>
+      setBulkProgress({ label, completed, total })
+    );
+    setBulkProgress(null);
+
+    const failed: JobApplication[] = [];
+    const failures: BulkFailure[] = [];
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        const app = targets[index];
+        const message = result.reason?.message || 'Unknown error';
+        failed.push(app);
+        failures.push({ id: app.id, label: `${app.company} - ${app.position}`, message });
+        setRowError(app.id, `${label} failed: ${message}`);
+      }
+    });
+    setBulkFailures(failures);
+    return failed;
+  };
+
+  // Handle bulk status change; rows that fail stay selected so they can be retried
+  const handleBulkSetStatus = async (status: ApplicationStatus) => {
     try {
-      await JobApplicationService.updateStatus(id, newStatus);
-      
-      setJobApplications(prev => 
-        prev.map(app => app.id === id ? { ...app, status: newStatus } : app)
+      const targets = (await resolveBulkTargets()).filter(app => app.status !== status);
+      const failed = await runBulk('Updating', targets, app =>
+        JobApplicationService.updateStatus(app.id, status, { expectedUpdatedAt: app.updatedAt })
       );
+      setAllMatchingSelected(false);
+      setSelected(new Map(failed.map(app => [app.id, app])));
     } catch (err: any) {
-      setError(`Failed to update status: ${err.message}`);
+      setBulkProgress(null);
+      setError(`Failed to update selected applications: ${err.message}`);
     }
   };
 
-  // Handle delete - show confirmation modal
-  const handleDelete = (app: JobApplication) => {
-    setApplicationToDelete(app);
-    setShowDeleteModal(true);
+  // Handle bulk delete - hidden straight away, deleted once the undo grace period is over
+  const handleBulkDelete = async () => {
+    let targets: JobApplication[];
+    try {
+      targets = await resolveBulkTargets();
+    } catch (err: any) {
+      setError(`Failed to delete selected applications: ${err.message}`);
+      return;
+    }
+    if (targets.length === 0) return;
+
+    const ids = targets.map(app => app.id);
+    const unhideTargets = () => setPendingDeleteIds(prev => {
+      const next = new Set(prev);
+      ids.forEach(id => next.delete(id));
+      return next;
+    });
+
+    clearSelection();
+    setPendingDeleteIds(prev => new Set([...Array.from(prev), ...ids]));
+
+    pushUndo({
+      message: `Deleted ${targets.length} application${targets.length === 1 ? '' : 's'}`,
+      undo: unhideTargets,
+      commit: async () => {
+        await runBulk('Deleting', targets, app => JobApplicationService.delete(app.id));
+        unhideTargets();
+      }
+    });
   };
 
-  // Confirm delete - actually perform the deletion
-  const confirmDelete = async () => {
-    if (!applicationToDelete) return;
+  // Handle exporting the selected applications, in the current sort order
+  const handleBulkExport = async (format: ExportFormat) => {
+    try {
+      exportJobApplications(sortJobApplications(await resolveBulkTargets(), sort), format);
+    } catch (err: any) {
+      setError(`Failed to export selected applications: ${err.message}`);
+    }
+  };
 
+  // Handle page change
+  const handlePageChange = (page: number) => {
+    setCurrentPage(page);
+  };
+
+  // Export every application matching the current filters, in the current sort order
+  const handleExport = async (format: ExportFormat) => {
     try {
-      setIsDeleting(true);
-      await JobApplicationService.delete(applicationToDelete.id);
-     
-      setJobApplications(prev => prev.filter(app => app.id !== applicationToDelete.id));
-      setShowDeleteModal(false);
-      setApplicationToDelete(null);
+      setIsExporting(true);
+      const applications = await JobApplicationService.getAllMatching({ ...filters, sort });
+      exportJobApplications(sortJobApplications(applications, sort), format);
     } catch (err: any) {
-      setError(`Failed to delete application: ${err.message}`);
+      setError(`Failed to export applications: ${err.message}`);
     } finally {
-      setIsDeleting(false);
+      setIsExporting(false);
     }
   };
 
-  // Cancel delete
-  const cancelDelete = () => {
-    setShowDeleteModal(false);
-    setApplicationToDelete(null);
+  // Handle column header click
+  const handleSort = (field: JobApplicationSortField, multi: boolean) => {
+    const next = getNextSort(sort, field, multi);
+    setSort(next.length > 0 ? next : DEFAULT_SORT);
   };
 
-  // Handle page change
-  const handlePageChange = (page: number) => {
-    setCurrentPage(page);
+  // Handle closing the edit form
+  const handleCloseForm = () => {
+    setEditingApplication(undefined);
+    setConflict(undefined);
   };
 
-  // Reset to first page when filter changes
-  useEffect(() => {
-    setCurrentPage(1);
-  }, [statusFilter]);
+  // Handle edit submission - the row shows the change immediately and saves it in the background
+  const handleSaveEdit = async (edit: JobApplicationEdit) => {
+    const { original, changes, options } = edit;
+    setEditingApplication(undefined);
+    setConflict(undefined);
 
-  // Reset filter when resetFilter prop changes
-  useEffect(() => {
-    setStatusFilter('');
-  }, [resetFilter]);
+    let theirs: JobApplication | undefined;
+    const saved = await saveOptimistically(
+      original,
+      { ...original, ...changes, updatedAt: new Date().toISOString() },
+      async () => {
+        try {
+          return await JobApplicationService.patch(original.id, changes, options);
+        } catch (err) {
+          if (isConflictError(err)) {
+            theirs = await JobApplicationService.getById(original.id);
+          }
+          throw err;
+        }
+      },
+      'Failed to save changes'
+    );
 
-  // Add new application to the list when newApplication prop changes
-  useEffect(() => {
-    if (newApplication) {
-      setJobApplications(prev => [newApplication, ...prev]); // Add to beginning of list
-      // Note: Parent should reset newApplication to undefined after this
+    if (saved) {
+      pushUndo({ message: `Saved changes to ${saved.company}`, undo: () => revertChange(saved, original) });
+    } else if (theirs) {
+      // Someone else saved first: show their version and reopen the form to merge the two
+      setRowError(original.id);
+      setCachedApplication(theirs);
+      setConflict({ edit, theirs });
+      setEditingApplication(theirs);
     }
-  }, [newApplication]);
+  };
 
-  // Update existing application when updatedApplication prop changes
-  useEffect(() => {
-    if (updatedApplication) {
-      setJobApplications(prev => 
-        prev.map(app => app.id === updatedApplication.id ? updatedApplication : app)
-      );
-      
-    }
-  }, [updatedApplication]);
+  // Handle showing or hiding an optional column
+  const handleToggleColumn = (key: OptionalColumn) => {
+    setVisibleColumns(prev => {
+      const next = OPTIONAL_COLUMNS
+        .map(column => column.key)
+        .filter(column => (column === key ? !prev.includes(key) : prev.includes(column)));
+      localStorage.setItem(VISIBLE_COLUMNS_KEY, JSON.stringify(next));
+      return next;
+    });
+  };
+
+  const isColumnVisible = (key: OptionalColumn) => visibleColumns.includes(key);
 
   // Helper function to get status-specific Bootstrap classes
-  const getStatusBadgeClass = (status: ApplicationStatus): string => {
-    switch (status) {
-      case 1: return 'text-primary'; // Applied
-      case 2: return 'text-warning'; // Under Review
-      case 3: return 'text-info'; // Interview
-      case 4: return 'text-success'; // Offer
-      case 5: return 'text-danger'; // Rejected
-      case 6: return 'text-secondary'; // Withdrawn
-      default: return '';
-    }
-  };
+  const getStatusBadgeClass = (status: ApplicationStatus): string => `text-${getStatusVariant(status)}`;
 
-  if (loading) {
+  if (isLoading) {
     return (
       <div className="d-flex justify-content-center align-items-center" style={{ minHeight: '200px' }}>
         <Spinner animation="border" role="status">
@@ -163,101 +576,234 @@ const JobApplicationTable: React.FC<JobApplicationTableProps> = ({
   return (
     <Container fluid className="p-4">
       <Row className="mb-4">
-        <Col md={6}>
+        <Col>
           <h2 className="mb-0">Job Applications</h2>
         </Col>
-        <Col md={6} className="d-flex justify-content-end align-items-center gap-3">
-          <Form.Group className="d-flex align-items-center gap-2 mb-0">
-            <Form.Label htmlFor="status-filter" className="mb-0 text-nowrap">Filter by Status:</Form.Label>
-            <Form.Select
-              id="status-filter"
-              value={statusFilter}
-              onChange={(e) => setStatusFilter(e.target.value === '' ? '' : parseInt(e.target.value) as ApplicationStatus)}
-              size="sm"
-              style={{ minWidth: '150px' }}
-            >
-              <option value="">All Statuses</option>
-              {getStatusOptions().map(option => (
-                <option key={option.value} value={option.value}>
-                  {option.label}
-                </option>
+        <Col xs="auto" className="d-flex gap-2">
+          <Dropdown autoClose="outside">
+            <Dropdown.Toggle variant="outline-secondary" size="sm">
+              Columns
+            </Dropdown.Toggle>
+            <Dropdown.Menu align="end" className="px-3">
+              {OPTIONAL_COLUMNS.map(column => (
+                <Form.Check
+                  key={column.key}
+                  type="checkbox"
+                  id={`column-${column.key}`}
+                  label={column.label}
+                  checked={isColumnVisible(column.key)}
+                  onChange={() => handleToggleColumn(column.key)}
+                />
               ))}
-            </Form.Select>
-          </Form.Group>
+            </Dropdown.Menu>
+          </Dropdown>
+          <Dropdown>
+            <Dropdown.Toggle variant="outline-secondary" size="sm" disabled={isExporting || totalCount === 0}>
+              {isExporting ? 'Exporting...' : 'Export'}
+            </Dropdown.Toggle>
+            <Dropdown.Menu align="end">
+              <Dropdown.Item onClick={() => handleExport('csv')}>CSV (.csv)</Dropdown.Item>
+              <Dropdown.Item onClick={() => handleExport('excel')}>Excel (.xls)</Dropdown.Item>
+              <Dropdown.Item onClick={() => handleExport('json')}>JSON (.json)</Dropdown.Item>
+            </Dropdown.Menu>
+          </Dropdown>
         </Col>
       </Row>
 
+      <JobApplicationFilterBar
+        filters={filters}
+        onChange={setFilters}
+        onClear={clearFilters}
+        isFiltered={isFiltered}
+      />
+
       {error && (
         <Alert variant="danger" dismissible onClose={() => setError('')} className="mb-4">
           {error}
         </Alert>
       )}
 
-      <div className="mb-3 text-muted">
-        Showing {currentApplications.length} of {filteredApplications.length} applications
-        {statusFilter && ` (filtered by ${getStatusLabel(statusFilter)})`}
+      <div className="mb-3 d-flex justify-content-between align-items-center">
+        <div className="text-muted">
+          {totalCount === 0
+            ? 'Showing 0 applications'
+            : `Showing ${startIndex + 1}-${startIndex + jobApplications.length} of ${totalCount} applications`}
+          {isFiltered && ' (filtered)'}
+          {loading && <Spinner animation="border" size="sm" className="ms-2" role="status" />}
+        </div>
+        <Form.Group className="d-flex align-items-center gap-2 mb-0">
+          <Form.Label htmlFor="page-size" className="mb-0 text-nowrap">Rows per page:</Form.Label>
+          <Form.Select
+            id="page-size"
+            value={pageSize}
+            onChange={(e) => setPageSize(parseInt(e.target.value))}
+            size="sm"
+            style={{ width: 'auto' }}
+          >
+            {PAGE_SIZE_OPTIONS.map(size => (
+              <option key={size} value={size}>
+                {size}
+              </option>
+            ))}
+          </Form.Select>
+        </Form.Group>
       </div>
 
+      <BulkActionBar
+        selectedCount={selectedCount}
+        matchingCount={totalCount}
+        allMatchingSelected={allMatchingSelected}
+        canSelectAllMatching={allOnPageSelected && totalCount > jobApplications.length}
+        progress={bulkProgress}
+        failures={bulkFailures}
+        onSelectAllMatching={() => setAllMatchingSelected(true)}
+        onClearSelection={clearSelection}
+        onSetStatus={handleBulkSetStatus}
+        onDelete={handleBulkDelete}
+        onExport={handleBulkExport}
+        onDismissFailures={() => setBulkFailures([])}
+      />
+
       <div className="table-responsive">
         <Table striped bordered hover>
           <thead className="table-light">
             <tr>
-              <th>Company Name</th>
-              <th>Position</th>
-              <th>Status</th>
-              <th>Date Applied</th>
+              <th style={{ width: '2.5rem' }}>
+                <Form.Check
+                  type="checkbox"
+                  checked={allOnPageSelected}
+                  onChange={handleTogglePage}
+                  disabled={jobApplications.length === 0}
+                  aria-label="Select all applications on this page"
+                />
+              </th>
+              <SortableHeader field="company" label="Company Name" sort={sort} onSort={handleSort} />
+              <SortableHeader field="position" label="Position" sort={sort} onSort={handleSort} />
+              <SortableHeader field="status" label="Status" sort={sort} onSort={handleSort} />
+              <SortableHeader field="dateApplied" label="Date Applied" sort={sort} onSort={handleSort} />
+              <SortableHeader field="updatedAt" label="Last Updated" sort={sort} onSort={handleSort} />
+              {OPTIONAL_COLUMNS.filter(column => isColumnVisible(column.key)).map(column => (
+                <th key={column.key} className="text-nowrap">{column.label}</th>
+              ))}
               <th>Actions</th>
             </tr>
           </thead>
           <tbody>
-            {currentApplications.length === 0 ? (
+            {jobApplications.length === 0 ? (
               <tr>
-                <td colSpan={5} className="text-center text-muted py-4 fst-italic">
-                  {statusFilter ? `No applications found with status "${getStatusLabel(statusFilter)}"` : 'No job applications found'}
+                <td colSpan={7 + visibleColumns.length} className="text-center text-muted py-4 fst-italic">
+                  {isFiltered ? 'No applications match the current filters' : 'No job applications found'}
                 </td>
               </tr>
             ) : (
-              currentApplications.map((app) => (
-                <tr key={app.id}>
-                  <td className="fw-medium">{app.company}</td>
-                  <td>{app.position}</td>
-                  <td>
-                    <Form.Select
-                      value={app.status}
-                      onChange={(e) => handleStatusChange(app.id, parseInt(e.target.value) as ApplicationStatus)}
-                      size="sm"
-                      className={getStatusBadgeClass(app.status)}
-                      style={{ maxWidth: '150px' }}
-                    >
-                      {getStatusOptions().map(option => (
-                        <option key={option.value} value={option.value}>
-                          {option.label}
-                        </option>
-                      ))}
-                    </Form.Select>
-                  </td>
-                  <td className="text-muted">{formatDate(app.dateApplied)}</td>
-                  <td>
-                    <Button
-                      variant="primary"
-                      size="sm"
-                      className="me-2"
-                      onClick={() => onEdit(app)}
-                      title="Edit Application"
-                    >
-                      Edit
-                    </Button>
-                    <Button
-                      variant="danger"
-                      size="sm"
-                      onClick={() => handleDelete(app)}
-                      title="Delete Application"
-                    >
-                      Delete
-                    </Button>
-                  </td>
-                </tr>
-              ))
+              jobApplications.map((app) => {
+                const isSaving = savingIds.has(app.id);
+                const rowError = rowErrors[app.id];
+                const attention = getAttentionItem(app, staleRules);
+                const latestNote = latestNotes.get(app.id);
+                return (
+                  <tr key={app.id} className={rowError ? 'table-danger' : undefined}>
+                    <td>
+                      <Form.Check
+                        type="checkbox"
+                        checked={allMatchingSelected || selected.has(app.id)}
+                        onChange={() => handleToggleRow(app)}
+                        aria-label={`Select ${app.company} - ${app.position}`}
+                      />
+                    </td>
+                    <td className="fw-medium">
+                      <Link to={`/applications/${app.id}`}>{app.company}</Link>
+                      {attention && (
+                        <Badge bg={getAttentionVariant(attention)} className="ms-2 fw-normal">
+                          {getAttentionLabel(attention)}
+                        </Badge>
+                      )}
+                    </td>
+                    <td>
+                      {app.position}
+                      {latestNote && (
+                        <OverlayTrigger
+                          placement="bottom-start"
+                          overlay={
+                            <Tooltip id={`latest-note-${app.id}`}>
+                              <div className="small text-start">
+                                <div className="fw-bold">{formatDate(latestNote.createdAt)}</div>
+                                {getNotePreview(latestNote.body, 300)}
+                              </div>
+                            </Tooltip>
+                          }
+                        >
+                          <div className="small text-muted text-truncate" style={{ maxWidth: '16rem' }}>
+                            {getNotePreview(latestNote.body, 80)}
+                          </div>
+                        </OverlayTrigger>
+                      )}
+                    </td>
+                    <td>
+                      <div className="d-flex align-items-center gap-2">
+                        <Form.Select
+                          value={app.status}
+                          onChange={(e) => handleStatusChange(app, parseInt(e.target.value) as ApplicationStatus)}
+                          size="sm"
+                          className={getStatusBadgeClass(app.status)}
+                          style={{ maxWidth: '150px' }}
+                          disabled={isSaving}
+                        >
+                          {getStatusOptions().map(option => (
+                            <option key={option.value} value={option.value}>
+                              {option.label}
+                            </option>
+                          ))}
+                        </Form.Select>
+                        {isSaving && (
+                          <Spinner animation="border" size="sm" role="status">
+                            <span className="visually-hidden">Saving...</span>
+                          </Spinner>
+                        )}
+                      </div>
+                    </td>
+                    <td className="text-muted">{formatDate(app.dateApplied)}</td>
+                    <td className="text-muted">{formatDate(app.updatedAt)}</td>
+                    {isColumnVisible('location') && <td>{app.location}</td>}
+                    {isColumnVisible('workMode') && <td>{app.workMode ? getWorkModeLabel(app.workMode) : ''}</td>}
+                    {isColumnVisible('salary') && <td className="text-nowrap">{formatSalaryRange(app)}</td>}
+                    {isColumnVisible('source') && <td>{app.source ? getSourceLabel(app.source) : ''}</td>}
+                    <td>
+                      <Button
+                        variant="primary"
+                        size="sm"
+                        className="me-2"
+                        onClick={() => setEditingApplication(app)}
+                        title="Edit Application"
+                        disabled={isSaving}
+                      >
+                        Edit
+                      </Button>
+                      <Button
+                        variant="danger"
+                        size="sm"
+                        onClick={() => handleDelete(app)}
+                        title="Delete Application"
+                        disabled={isSaving}
+                      >
+                        Delete
+                      </Button>
+                      {rowError && (
+                        <div className="small text-danger mt-1 d-flex align-items-start gap-2" role="alert">
+                          <span>{rowError}</span>
+                          <button
+                            type="button"
+                            className="btn-close ms-auto"
+                            style={{ fontSize: '0.6rem' }}
+                            aria-label="Dismiss error"
+                            onClick={() => setRowError(app.id)}
+                          />
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                  );
+              })
             )}
           </tbody>
         </Table>
@@ -270,14 +816,18 @@ const JobApplicationTable: React.FC<JobApplicationTableProps> = ({
               onClick={() => handlePageChange(currentPage - 1)}
               disabled={currentPage === 1}
             />
-            {Array.from({ length: totalPages }, (_, i) => i + 1).map(page => (
-              <Pagination.Item
-                key={page}
-                active={page === currentPage}
-                onClick={() => handlePageChange(page)}
-              >
-                {page}
-              </Pagination.Item>
+            {getPageItems(currentPage, totalPages).map((item, index) => (
+              item === 'ellipsis' ? (
+                <Pagination.Ellipsis key={`ellipsis-${index}`} disabled />
+              ) : (
+                <Pagination.Item
+                  key={item}
+                  active={item === currentPage}
+                  onClick={() => handlePageChange(item)}
+                >
+                  {item}
+                </Pagination.Item>
+              )
             ))}
             <Pagination.Next
               onClick={() => handlePageChange(currentPage + 1)}
@@ -287,56 +837,16 @@ const JobApplicationTable: React.FC<JobApplicationTableProps> = ({
         </div>
       )}
 
-      {/* Delete Confirmation Modal */}
-      <Modal show={showDeleteModal} onHide={cancelDelete} centered>
-        <Modal.Header closeButton>
-          <Modal.Title className="text-danger">
-            <i className="bi bi-exclamation-triangle-fill me-2"></i>
-            Confirm Delete
-          </Modal.Title>
-        </Modal.Header>
-        <Modal.Body>
-          {applicationToDelete && (
-            <div>
-              <p className="mb-3">
-                Are you sure you want to delete the job application for:
-              </p>
-              <div className="bg-light p-3 rounded mb-3">
-                <strong>{applicationToDelete.company}</strong> - {applicationToDelete.position}
-                <br />
-                <small className="text-muted">
-                  Applied on: {formatDate(applicationToDelete.dateApplied)}
-                </small>
-              </div>
-              <p className="text-danger mb-0">
-                <strong>This action cannot be undone.</strong>
-              </p>
-            </div>
-          )}
-        </Modal.Body>
-        <Modal.Footer>
-          <Button variant="secondary" onClick={cancelDelete} disabled={isDeleting}>
-            Cancel
-          </Button>
-          <Button variant="danger" onClick={confirmDelete} disabled={isDeleting}>
-            {isDeleting ? (
-              <>
-                <Spinner
-                  as="span"
-                  animation="border"
-                  size="sm"
-                  role="status"
-                  aria-hidden="true"
-                  className="me-2"
-                />
-                Deleting...
-              </>
-            ) : (
-              'Delete Application'
-            )}
-          </Button>
-        </Modal.Footer>
-      </Modal>
+      <JobApplicationForm
+        jobApplication={editingApplication}
+        onSuccess={handleCloseForm}
+        onSaveEdit={handleSaveEdit}
+        onCancel={handleCloseForm}
+        isVisible={editingApplication !== undefined}
+        conflict={conflict}
+      />
+
+      <UndoToastStack entries={undoEntries} onUndo={undo} onDismiss={dismissUndo} />
     </Container>
   );
 };
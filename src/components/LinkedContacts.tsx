@@ -0,0 +1,44 @@
+import React, { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { useContacts } from '../hooks/queries';
+import { Spinner } from 'react-bootstrap';
+
+interface LinkedContactsProps {
+  contactIds: number[];
+}
+
+// Read-only list of the contacts linked to an application
+const LinkedContacts: React.FC<LinkedContactsProps> = ({ contactIds }) => {
+  const hasLinks = contactIds.length > 0;
+  const { data: allContacts, isLoading: loading } = useContacts({ enabled: hasLinks });
+  const contacts = useMemo(
+    () => (allContacts ?? []).filter(contact => contactIds.includes(contact.id)),
+    [allContacts, contactIds]
+  );
+
+
+  if (loading) {
+    return <Spinner animation="border" size="sm" role="status"><span className="visually-hidden">Loading contacts...</span></Spinner>;
+  }
+
+  if (contacts.length === 0) {
+    return <span className="text-muted">None linked</span>;
+  }
+
+  return (
+    <ul className="list-unstyled mb-0">
+      {contacts.map(contact => (
+        <li key={contact.id}>
+          <Link to={`/contacts/${contact.id}`}>{contact.name}</Link>
+          {(contact.role || contact.email) && (
+            <span className="text-muted small ms-2">
+              {[contact.role, contact.email].filter(Boolean).join(' · ')}
+            </span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default LinkedContacts;
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { Navigate, useLocation, useNavigate, Location } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { Container, Card, Form, Button, Alert, Spinner } from 'react-bootstrap';
+
+interface LoginErrors {
+  email?: string;
+  password?: string;
+  general?: string;
+}
+
+const LoginPage: React.FC = () => {
+  const { isAuthenticated, sessionEndReason, login } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const from = (location.state as { from?: Location } | null)?.from;
+  const redirectTo = from ? `${from.pathname}${from.search}${from.hash}` : '/';
+
+  const [email, setEmail] = useState<string>('');
+  const [password, setPassword] = useState<string>('');
+  const [errors, setErrors] = useState<LoginErrors>({});
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+
+  // Handle form submission
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const newErrors: LoginErrors = {};
+    if (!email.trim()) {
+      newErrors.email = 'Email is required';
+    }
+    if (!password) {
+      newErrors.password = 'Password is required';
+    }
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+
+    try {
+      setIsSubmitting(true);
+      await login({ email: email.trim(), password });
+      navigate(redirectTo, { replace: true });
+    } catch (err: any) {
+      setErrors({ general: err.message || 'Sign in failed' });
+      setIsSubmitting(false);
+    }
+  };
+
+  // Already signed in (or sign-in isn't needed) - go straight on
+  if (isAuthenticated && !isSubmitting) {
+    return <Navigate to={redirectTo} replace />;
+  }
+
+  return (
+    <Container className="py-5" style={{ maxWidth: '28rem' }}>
+      <Card>
+        <Card.Body className="p-4">
+          <h2 className="h4 mb-4">Sign in</h2>
+
+          {sessionEndReason === 'expired' && !errors.general && (
+            <Alert variant="warning">Your session has expired. Please sign in again.</Alert>
+          )}
+          {errors.general && <Alert variant="danger">{errors.general}</Alert>}
+
+          <Form onSubmit={handleSubmit} noValidate>
+            <Form.Group className="mb-3" controlId="login-email">
+              <Form.Label>Email</Form.Label>
+              <Form.Control
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                autoComplete="username"
+                autoFocus
+                disabled={isSubmitting}
+                isInvalid={!!errors.email}
+              />
+              <Form.Control.Feedback type="invalid">{errors.email}</Form.Control.Feedback>
+            </Form.Group>
+
+            <Form.Group className="mb-4" controlId="login-password">
+              <Form.Label>Password</Form.Label>
+              <Form.Control
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="current-password"
+                disabled={isSubmitting}
+                isInvalid={!!errors.password}
+              />
+              <Form.Control.Feedback type="invalid">{errors.password}</Form.Control.Feedback>
+            </Form.Group>
+
+            <Button type="submit" variant="primary" className="w-100" disabled={isSubmitting}>
+              {isSubmitting ? (
+                <>
+                  <Spinner as="span" animation="border" size="sm" role="status" aria-hidden="true" className="me-2" />
+                  Signing in...
+                </>
+              ) : (
+                'Sign in'
+              )}
+            </Button>
+          </Form>
+        </Card.Body>
+      </Card>
+    </Container>
+  );
+};
+
+export default LoginPage;
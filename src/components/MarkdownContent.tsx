@@ -0,0 +1,74 @@
+import React from 'react';
+import { MarkdownBlock, MarkdownInline, parseMarkdown } from '../utils/markdown';
+
+interface MarkdownContentProps {
+  source: string;
+  className?: string;
+}
+
+const renderInline = (nodes: MarkdownInline[]): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={index}>{node.text}</React.Fragment>;
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'code':
+        return <code key={index}>{node.text}</code>;
+      case 'link':
+        return (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer">
+            {renderInline(node.children)}
+          </a>
+        );
+      case 'break':
+        return <br key={index} />;
+      default:
+        return null;
+    }
+  });
+
+const renderBlock = (block: MarkdownBlock, index: number): React.ReactNode => {
+  switch (block.type) {
+    case 'heading': {
+      // Notes sit inside cards, so even top-level headings stay small
+      const Heading = `h${Math.min(block.level + 3, 6)}` as 'h4' | 'h5' | 'h6';
+      return <Heading key={index} className="mt-2">{renderInline(block.children)}</Heading>;
+    }
+    case 'paragraph':
+      return <p key={index} className="mb-2">{renderInline(block.children)}</p>;
+    case 'list': {
+      const List = block.ordered ? 'ol' : 'ul';
+      return (
+        <List key={index} className="mb-2">
+          {block.items.map((item, itemIndex) => (
+            <li key={itemIndex}>{renderInline(item)}</li>
+          ))}
+        </List>
+      );
+    }
+    case 'quote':
+      return (
+        <blockquote key={index} className="border-start border-3 ps-3 text-muted mb-2">
+          {renderInline(block.children)}
+        </blockquote>
+      );
+    case 'code':
+      return (
+        <pre key={index} className="bg-light border rounded p-2 mb-2 small">
+          <code>{block.text}</code>
+        </pre>
+      );
+    default:
+      return null;
+  }
+};
+
+// Render a markdown note as React elements (never as raw HTML)
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ source, className }) => (
+  <div className={className}>{parseMarkdown(source).map(renderBlock)}</div>
+);
+
+export default MarkdownContent;
@@ -0,0 +1,174 @@
+import React, { useState, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { STATUS_PIPELINE_ORDER, getStatusLabel } from '../types/JobApplication';
+import { JobApplicationService } from '../services/JobApplicationService';
+import { getErrorMessage, isConflictError } from '../services/ApiError';
+import { invalidateJobApplications } from '../services/jobApplicationCache';
+import { useJobApplications } from '../hooks/queries';
+import { getAttentionItems, getAttentionLabel, getAttentionVariant, AttentionItem } from '../utils/reminders';
+import { useStaleRules } from '../hooks/useStaleRules';
+import { enableFollowUpNotifications, notificationsSupported } from '../hooks/useFollowUpNotifications';
+import { Card, Alert, Spinner, Badge, Button, ListGroup, Form, Row, Col, Collapse } from 'react-bootstrap';
+
+// Dashboard panel listing applications with a due follow-up or no recent activity
+const NeedsAttentionPanel: React.FC = () => {
+  const { data: applications, isLoading: loading, error: loadError } = useJobApplications();
+  const [actionError, setError] = useState<string>('');
+  const [completingId, setCompletingId] = useState<number | null>(null);
+  const [showSettings, setShowSettings] = useState<boolean>(false);
+  const [draftRules, setDraftRules] = useState<Record<number, string>>({});
+  const [permission, setPermission] = useState<NotificationPermission | null>(
+    notificationsSupported() ? Notification.permission : null
+  );
+  const [rules, setRules] = useStaleRules();
+
+  const items = useMemo(() => getAttentionItems(applications ?? [], rules), [applications, rules]);
+
+  const error = actionError || (loadError !== undefined ? getErrorMessage(loadError, 'Failed to load applications') : '');
+
+  // Handle marking an item as followed up - clears the follow-up date and counts as activity.
+  // Refused if the application was changed since it was listed, e.g. its follow-up moved.
+  const handleDone = async (item: AttentionItem) => {
+    try {
+      setCompletingId(item.application.id);
+      await JobApplicationService.patch(
+        item.application.id,
+        { nextFollowUpDate: null },
+        { expectedUpdatedAt: item.application.updatedAt }
+      );
+    } catch (err: any) {
+      setError(`Failed to update ${item.application.company}: ${err.message}`);
+      if (isConflictError(err)) invalidateJobApplications();
+    } finally {
+      setCompletingId(null);
+    }
+  };
+
+  // Handle opening the rule settings with the current values
+  const handleToggleSettings = () => {
+    setDraftRules(Object.fromEntries(
+      STATUS_PIPELINE_ORDER.map(status => [status, rules[status] === null ? '' : String(rules[status])])
+    ));
+    setShowSettings(prev => !prev);
+  };
+
+  // Handle saving the rules; blank means the status never goes stale
+  const handleSaveRules = (e: React.FormEvent) => {
+    e.preventDefault();
+    const next = { ...rules };
+    STATUS_PIPELINE_ORDER.forEach(status => {
+      const days = parseInt(draftRules[status]);
+      next[status] = Number.isInteger(days) && days > 0 ? days : null;
+    });
+    setRules(next);
+    setShowSettings(false);
+  };
+
+  // Handle enabling browser notifications
+  const handleEnableNotifications = async () => {
+    setPermission(await enableFollowUpNotifications());
+  };
+
+  return (
+    <Card className="mb-4">
+      <Card.Header className="d-flex justify-content-between align-items-center">
+        <h5 className="mb-0">
+          Needs Attention
+          {items.length > 0 && <Badge bg="danger" className="ms-2">{items.length}</Badge>}
+        </h5>
+        <div className="d-flex gap-2">
+          {permission === 'default' && (
+            <Button variant="outline-secondary" size="sm" onClick={handleEnableNotifications}>
+              Enable notifications
+            </Button>
+          )}
+          <Button
+            variant="outline-secondary"
+            size="sm"
+            onClick={handleToggleSettings}
+            aria-expanded={showSettings}
+            aria-controls="stale-rules-settings"
+          >
+            Rules
+          </Button>
+        </div>
+      </Card.Header>
+      <Card.Body>
+        <Collapse in={showSettings}>
+          <div id="stale-rules-settings">
+            <Form onSubmit={handleSaveRules} className="mb-3 p-3 bg-light rounded">
+              <p className="small text-muted mb-2">
+                Flag an application when it has had no activity for this many days. Leave blank to never flag.
+              </p>
+              <Row className="g-2">
+                {STATUS_PIPELINE_ORDER.map(status => (
+                  <Form.Group as={Col} xs={6} md={4} key={status}>
+                    <Form.Label className="small mb-1" htmlFor={`stale-rule-${status}`}>
+                      {getStatusLabel(status)}
+                    </Form.Label>
+                    <Form.Control
+                      id={`stale-rule-${status}`}
+                      type="number"
+                      size="sm"
+                      min={1}
+                      placeholder="Never"
+                      value={draftRules[status] ?? ''}
+                      onChange={(e) => setDraftRules(prev => ({ ...prev, [status]: e.target.value }))}
+                    />
+                  </Form.Group>
+                ))}
+              </Row>
+              <div className="d-flex justify-content-end mt-2">
+                <Button type="submit" size="sm">Save rules</Button>
+              </div>
+            </Form>
+          </div>
+        </Collapse>
+
+        {error && (
+          <Alert variant="danger" dismissible onClose={() => setError('')}>
+            {error}
+          </Alert>
+        )}
+        {loading ? (
+          <div className="text-center">
+            <Spinner animation="border" size="sm" role="status">
+              <span className="visually-hidden">Loading reminders...</span>
+            </Spinner>
+          </div>
+        ) : items.length === 0 ? (
+          <div className="text-muted fst-italic">Nothing needs following up</div>
+        ) : (
+          <ListGroup variant="flush" style={{ maxHeight: '20rem', overflowY: 'auto' }}>
+            {items.map(item => (
+              <ListGroup.Item
+                key={item.application.id}
+                className="px-0 d-flex justify-content-between align-items-center gap-2"
+              >
+                <div>
+                  <Link to={`/applications/${item.application.id}`}>{item.application.company}</Link>
+                  <span className="text-muted"> - {item.application.position}</span>
+                  <div className="small">
+                    <Badge bg={getAttentionVariant(item)}>{getAttentionLabel(item)}</Badge>
+                    <span className="text-muted ms-2">{getStatusLabel(item.application.status)}</span>
+                  </div>
+                </div>
+                <Button
+                  variant="outline-success"
+                  size="sm"
+                  onClick={() => handleDone(item)}
+                  disabled={completingId === item.application.id}
+                  title="Mark as followed up"
+                >
+                  {completingId === item.application.id ? 'Saving...' : 'Done'}
+                </Button>
+              </ListGroup.Item>
+            ))}
+          </ListGroup>
+        )}
+      </Card.Body>
+    </Card>
+  );
+};
+
+export default NeedsAttentionPanel;
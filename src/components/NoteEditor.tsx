@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { NOTE_MAX_LENGTH } from '../types/Note';
+import MarkdownContent from './MarkdownContent';
+import { Form, Nav, Button, Spinner } from 'react-bootstrap';
+
+interface NoteEditorProps {
+  initialBody?: string;
+  submitLabel: string;
+  onSubmit: (body: string) => Promise<void>;
+  onCancel?: () => void;
+}
+
+// Markdown textarea with a preview tab, used for both new and edited notes
+const NoteEditor: React.FC<NoteEditorProps> = ({ initialBody = '', submitLabel, onSubmit, onCancel }) => {
+  const [body, setBody] = useState<string>(initialBody);
+  const [mode, setMode] = useState<'write' | 'preview'>('write');
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  const isEmpty = !body.trim();
+
+  // Handle saving; the text is only cleared once the save succeeds
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isEmpty) return;
+
+    try {
+      setIsSaving(true);
+      await onSubmit(body.trim());
+      setBody('');
+      setMode('write');
+    } catch {
+      // The caller reports the error; keep the text so nothing is lost
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Handle Ctrl/Cmd+Enter as a shortcut for saving
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      handleSubmit(e);
+    }
+  };
+
+  return (
+    <Form onSubmit={handleSubmit}>
+      <Nav variant="tabs" activeKey={mode} onSelect={(key) => setMode(key === 'preview' ? 'preview' : 'write')} className="small">
+        <Nav.Item>
+          <Nav.Link eventKey="write">Write</Nav.Link>
+        </Nav.Item>
+        <Nav.Item>
+          <Nav.Link eventKey="preview" disabled={isEmpty}>Preview</Nav.Link>
+        </Nav.Item>
+      </Nav>
+      {mode === 'write' ? (
+        <Form.Control
+          as="textarea"
+          rows={4}
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="What did they say? What to prepare next? Markdown is supported."
+          maxLength={NOTE_MAX_LENGTH}
+          disabled={isSaving}
+          className="border-top-0 rounded-0 rounded-bottom"
+          aria-label="Note"
+        />
+      ) : (
+        <div className="border border-top-0 rounded-bottom p-2" style={{ minHeight: '6rem' }}>
+          <MarkdownContent source={body} />
+        </div>
+      )}
+      <div className="d-flex justify-content-between align-items-center mt-2">
+        <Form.Text className="text-muted">
+          **bold**, *italic*, `code`, [link](https://...), - lists, # headings
+        </Form.Text>
+        <div className="d-flex gap-2">
+          {onCancel && (
+            <Button variant="secondary" size="sm" onClick={onCancel} disabled={isSaving}>
+              Cancel
+            </Button>
+          )}
+          <Button type="submit" variant="primary" size="sm" disabled={isSaving || isEmpty}>
+            {isSaving && <Spinner as="span" animation="border" size="sm" className="me-2" aria-hidden="true" />}
+            {submitLabel}
+          </Button>
+        </div>
+      </div>
+    </Form>
+  );
+};
+
+export default NoteEditor;
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { JobApplication, formatDateTime } from '../types/JobApplication';
+import { Note, getNotePreview } from '../types/Note';
+import { NoteService } from '../services/NoteService';
+import { getErrorMessage } from '../services/ApiError';
+import { useApplicationNotes } from '../hooks/queries';
+import MarkdownContent from './MarkdownContent';
+import NoteEditor from './NoteEditor';
+import { Card, Alert, Spinner, Button, ListGroup, Modal } from 'react-bootstrap';
+
+interface NoteListProps {
+  jobApplication: JobApplication;
+}
+
+// Timestamped notes journal for one application, newest first
+const NoteList: React.FC<NoteListProps> = ({ jobApplication }) => {
+  const { data: notes = [], isLoading: loading, error: loadError } = useApplicationNotes(jobApplication.id);
+  const [actionError, setError] = useState<string>('');
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [noteToDelete, setNoteToDelete] = useState<Note | null>(null);
+  const [isDeleting, setIsDeleting] = useState<boolean>(false);
+
+  const error = actionError || (loadError !== undefined ? getErrorMessage(loadError, 'Failed to load notes') : '');
+
+  // Handle adding a note; rethrows so the editor keeps the text on failure
+  const handleCreate = async (body: string) => {
+    try {
+      setError('');
+      await NoteService.create(jobApplication.id, { body });
+    } catch (err: any) {
+      setError(`Failed to add note: ${err.message}`);
+      throw err;
+    }
+  };
+
+  // Handle saving an edited note
+  const handleUpdate = async (id: number, body: string) => {
+    try {
+      setError('');
+      await NoteService.update(id, { body });
+      setEditingId(null);
+    } catch (err: any) {
+      setError(`Failed to update note: ${err.message}`);
+      throw err;
+    }
+  };
+
+  // Confirm delete - actually perform the deletion
+  const confirmDelete = async () => {
+    if (!noteToDelete) return;
+
+    try {
+      setIsDeleting(true);
+      await NoteService.delete(noteToDelete.id);
+      setNoteToDelete(null);
+    } catch (err: any) {
+      setError(`Failed to delete note: ${err.message}`);
+      setNoteToDelete(null);
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <Card className="mt-4">
+      <Card.Header>
+        <h5 className="mb-0">Notes</h5>
+      </Card.Header>
+      <Card.Body>
+        {error && (
+          <Alert variant="danger" dismissible onClose={() => setError('')}>
+            {error}
+          </Alert>
+        )}
+
+        <NoteEditor submitLabel="Add Note" onSubmit={handleCreate} />
+
+        {loading ? (
+          <div className="text-center mt-3">
+            <Spinner animation="border" size="sm" role="status">
+              <span className="visually-hidden">Loading notes...</span>
+            </Spinner>
+          </div>
+        ) : notes.length === 0 ? (
+          <div className="text-muted fst-italic mt-3">No notes yet</div>
+        ) : (
+          <ListGroup variant="flush" className="mt-3">
+            {notes.map(note => (
+              <ListGroup.Item key={note.id} className="px-0">
+                <div className="d-flex justify-content-between align-items-center gap-2 mb-1">
+                  <small className="text-muted">
+                    {formatDateTime(note.createdAt)}
+                    {note.updatedAt !== note.createdAt && (
+                      <span title={`Edited ${formatDateTime(note.updatedAt)}`}> (edited)</span>
+                    )}
+                  </small>
+                  {editingId !== note.id && (
+                    <div className="d-flex gap-2">
+                      <Button variant="outline-primary" size="sm" onClick={() => setEditingId(note.id)}>
+                        Edit
+                      </Button>
+                      <Button variant="outline-danger" size="sm" onClick={() => setNoteToDelete(note)}>
+                        Delete
+                      </Button>
+                    </div>
+                  )}
+                </div>
+                {editingId === note.id ? (
+                  <NoteEditor
+                    initialBody={note.body}
+                    submitLabel="Save Note"
+                    onSubmit={(body) => handleUpdate(note.id, body)}
+                    onCancel={() => setEditingId(null)}
+                  />
+                ) : (
+                  <MarkdownContent source={note.body} className="text-break" />
+                )}
+              </ListGroup.Item>
+            ))}
+          </ListGroup>
+        )}
+      </Card.Body>
+
+      {/* Delete Confirmation Modal */}
+      <Modal show={noteToDelete !== null} onHide={() => setNoteToDelete(null)} centered>
+        <Modal.Header closeButton>
+          <Modal.Title className="text-danger">Delete Note</Modal.Title>
+        </Modal.Header>
+        <Modal.Body>
+          Delete this note?
+          {noteToDelete && (
+            <div className="text-muted small mt-2">{getNotePreview(noteToDelete.body)}</div>
+          )}
+        </Modal.Body>
+        <Modal.Footer>
+          <Button variant="secondary" onClick={() => setNoteToDelete(null)} disabled={isDeleting}>
+            Cancel
+          </Button>
+          <Button variant="danger" onClick={confirmDelete} disabled={isDeleting}>
+            {isDeleting ? 'Deleting...' : 'Delete Note'}
+          </Button>
+        </Modal.Footer>
+      </Modal>
+    </Card>
+  );
+};
+
+export default NoteList;
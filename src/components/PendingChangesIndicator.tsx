@@ -0,0 +1,73 @@
+import React from 'react';
+import { Badge, Button, OverlayTrigger, Popover, Spinner } from 'react-bootstrap';
+import { offlineSync } from '../repositories';
+import { useOfflineStatus } from '../hooks/useOfflineStatus';
+
+// Navbar indicator for offline mode, queued changes waiting to sync and changes the server rejected
+const PendingChangesIndicator: React.FC = () => {
+  const { isOnline, isSyncing, pendingCount, failures } = useOfflineStatus();
+
+  if (!offlineSync || (isOnline && pendingCount === 0 && failures.length === 0)) {
+    return null;
+  }
+
+  // Handle manual retry of the queued changes
+  const handleSyncNow = () => {
+    offlineSync?.flush();
+  };
+
+  const popover = (
+    <Popover id="pending-changes-popover">
+      <Popover.Header as="h3">{isOnline ? 'Sync status' : 'You are offline'}</Popover.Header>
+      <Popover.Body>
+        {pendingCount > 0 ? (
+          <p className="mb-2">
+            {pendingCount} change{pendingCount === 1 ? '' : 's'} saved on this device
+            {isOnline ? ' and waiting to sync.' : ' will sync when you reconnect.'}
+          </p>
+        ) : (
+          <p className="mb-2">All changes are synced.</p>
+        )}
+        {failures.length > 0 && (
+          <>
+            <p className="mb-1 text-danger">
+              {failures.length} change{failures.length === 1 ? ' was' : 's were'} rejected by the server:
+            </p>
+            <ul className="small mb-2 ps-3">
+              {failures.map(failure => (
+                <li key={failure.mutation.seq}>{failure.message}</li>
+              ))}
+            </ul>
+            <Button variant="outline-secondary" size="sm" className="me-2" onClick={() => offlineSync?.dismissFailures()}>
+              Dismiss
+            </Button>
+          </>
+        )}
+        {isOnline && pendingCount > 0 && (
+          <Button variant="primary" size="sm" onClick={handleSyncNow} disabled={isSyncing}>
+            Sync now
+          </Button>
+        )}
+      </Popover.Body>
+    </Popover>
+  );
+
+  return (
+    <OverlayTrigger trigger="click" placement="bottom" overlay={popover} rootClose>
+      <Button variant="outline-light" size="sm" className="me-3" aria-live="polite">
+        {isSyncing ? (
+          <>
+            <Spinner as="span" animation="border" size="sm" className="me-1" />
+            Syncing…
+          </>
+        ) : (
+          <>{isOnline ? 'Pending changes' : 'Offline'}</>
+        )}
+        {pendingCount > 0 && <Badge bg="warning" text="dark" className="ms-2">{pendingCount}</Badge>}
+        {failures.length > 0 && <Badge bg="danger" className="ms-1">!</Badge>}
+      </Button>
+    </OverlayTrigger>
+  );
+};
+
+export default PendingChangesIndicator;
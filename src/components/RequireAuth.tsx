@@ -0,0 +1,17 @@
+import React from 'react';
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+
+// Route guard: renders the nested routes when signed in, otherwise sends the user to /login
+// and remembers where they were going
+const RequireAuth: React.FC = () => {
+  const { isAuthenticated } = useAuth();
+  const location = useLocation();
+
+  if (!isAuthenticated) {
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+  return <Outlet />;
+};
+
+export default RequireAuth;
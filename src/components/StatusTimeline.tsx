@@ -0,0 +1,63 @@
+import React, { useMemo } from 'react';
+import { getStatusLabel, getStatusVariant, formatDateTime } from '../types/JobApplication';
+import { getErrorMessage } from '../services/ApiError';
+import { useApplicationStatusHistory } from '../hooks/queries';
+import { Card, Alert, Spinner, Badge } from 'react-bootstrap';
+
+interface StatusTimelineProps {
+  jobApplicationId: number;
+}
+
+// Refetched automatically whenever the application's status changes
+const StatusTimeline: React.FC<StatusTimelineProps> = ({ jobApplicationId }) => {
+  const { data: entries, isLoading: loading, error } = useApplicationStatusHistory(jobApplicationId);
+
+  // Newest first reads more naturally in a timeline
+  const history = useMemo(() => [...(entries ?? [])].sort(
+    (a, b) => new Date(b.changedAt).getTime() - new Date(a.changedAt).getTime()
+  ), [entries]);
+
+  return (
+    <Card className="mt-4">
+      <Card.Header>
+        <h5 className="mb-0">Status History</h5>
+      </Card.Header>
+      <Card.Body>
+        {loading ? (
+          <div className="text-center">
+            <Spinner animation="border" size="sm" role="status">
+              <span className="visually-hidden">Loading status history...</span>
+            </Spinner>
+          </div>
+        ) : error !== undefined ? (
+          <Alert variant="danger" className="mb-0">{getErrorMessage(error, 'Failed to load status history')}</Alert>
+        ) : history.length === 0 ? (
+          <div className="text-muted fst-italic">No status changes recorded yet</div>
+        ) : (
+          <ol className="status-timeline list-unstyled mb-0">
+            {history.map(entry => (
+              <li key={entry.id} className="status-timeline-item">
+                <span className={`status-timeline-dot bg-${getStatusVariant(entry.toStatus)}`} />
+                <div className="d-flex flex-wrap align-items-center gap-2">
+                  {entry.fromStatus === null ? (
+                    <span>Created as</span>
+                  ) : (
+                    <>
+                      <Badge bg={getStatusVariant(entry.fromStatus)}>{getStatusLabel(entry.fromStatus)}</Badge>
+                      <span aria-label="changed to">&rarr;</span>
+                    </>
+                  )}
+                  <Badge bg={getStatusVariant(entry.toStatus)}>{getStatusLabel(entry.toStatus)}</Badge>
+                  <small className="text-muted">{formatDateTime(entry.changedAt)}</small>
+                </div>
+                {entry.note && <div className="mt-1 small">{entry.note}</div>}
+              </li>
+            ))}
+          </ol>
+        )}
+      </Card.Body>
+    </Card>
+  );
+};
+
+export default StatusTimeline;
@@ -0,0 +1,33 @@
+import React from 'react';
+import { Toast, ToastContainer, Button } from 'react-bootstrap';
+import { UndoEntry } from '../hooks/useUndoStack';
+
+interface UndoToastStackProps {
+  entries: UndoEntry[];
+  onUndo: (id: number) => void;
+  onDismiss: (id: number) => void;
+}
+
+// Toasts for recent actions that can still be undone, newest at the bottom
+const UndoToastStack: React.FC<UndoToastStackProps> = ({ entries, onUndo, onDismiss }) => (
+  <ToastContainer position="bottom-end" className="p-3 position-fixed" style={{ zIndex: 1080 }}>
+    {entries.map(entry => (
+      <Toast key={entry.id} onClose={() => onDismiss(entry.id)} bg="dark">
+        <Toast.Body className="d-flex align-items-center gap-3 text-white">
+          <span className="me-auto">{entry.message}</span>
+          <Button variant="outline-light" size="sm" onClick={() => onUndo(entry.id)} title="Undo (Ctrl+Z)">
+            Undo
+          </Button>
+          <button
+            type="button"
+            className="btn-close btn-close-white"
+            aria-label="Dismiss"
+            onClick={() => onDismiss(entry.id)}
+          />
+        </Toast.Body>
+      </Toast>
+    ))}
+  </ToastContainer>
+);
+
+export default UndoToastStack;
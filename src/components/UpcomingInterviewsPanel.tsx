@@ -0,0 +1,93 @@
+import React, { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { getInterviewFormatLabel } from '../types/Interview';
+import { getErrorMessage } from '../services/ApiError';
+import { useJobApplications, useUpcomingInterviews } from '../hooks/queries';
+import { exportInterviewsToIcs } from '../utils/ics';
+import { formatInZone, getLocalTimeZone } from '../utils/timeZone';
+import { Card, Alert, Spinner, Badge, Button, ListGroup } from 'react-bootstrap';
+
+// Number of upcoming interviews listed before "and N more"
+const MAX_LISTED = 5;
+
+// Dashboard panel listing the next scheduled interviews across all applications
+const UpcomingInterviewsPanel: React.FC = () => {
+  const upcomingQuery = useUpcomingInterviews();
+  const applicationsQuery = useJobApplications();
+  const interviews = upcomingQuery.data ?? [];
+  const loading = upcomingQuery.isLoading || applicationsQuery.isLoading;
+  const loadError = upcomingQuery.error ?? applicationsQuery.error;
+  const error = loadError !== undefined ? getErrorMessage(loadError, 'Failed to load upcoming interviews') : '';
+  const localTimeZone = getLocalTimeZone();
+
+  // Look up the application each interview belongs to
+  const applications = useMemo(
+    () => new Map((applicationsQuery.data ?? []).map(app => [app.id, app])),
+    [applicationsQuery.data]
+  );
+
+  // Handle downloading every upcoming interview as an .ics file
+  const handleExportAll = () => {
+    exportInterviewsToIcs(
+      interviews.map(interview => ({ interview, application: applications.get(interview.jobApplicationId) })),
+      'upcoming-interviews'
+    );
+  };
+
+  return (
+    <Card className="mb-4">
+      <Card.Header className="d-flex justify-content-between align-items-center">
+        <h5 className="mb-0">Upcoming Interviews</h5>
+        {interviews.length > 0 && (
+          <Button variant="outline-secondary" size="sm" onClick={handleExportAll}>
+            Export all (.ics)
+          </Button>
+        )}
+      </Card.Header>
+      <Card.Body>
+        {loading ? (
+          <div className="text-center">
+            <Spinner animation="border" size="sm" role="status">
+              <span className="visually-hidden">Loading upcoming interviews...</span>
+            </Spinner>
+          </div>
+        ) : error ? (
+          <Alert variant="danger" className="mb-0">{error}</Alert>
+        ) : interviews.length === 0 ? (
+          <div className="text-muted fst-italic">No upcoming interviews</div>
+        ) : (
+          <>
+            <ListGroup variant="flush">
+              {interviews.slice(0, MAX_LISTED).map(interview => {
+                const application = applications.get(interview.jobApplicationId);
+                return (
+                  <ListGroup.Item key={interview.id} className="px-0 d-flex justify-content-between align-items-start gap-2">
+                    <div>
+                      <div>
+                        <strong>{interview.roundName}</strong>
+                        {application && (
+                          <>
+                            {' '}&middot;{' '}
+                            <Link to={`/applications/${application.id}`}>{application.company}</Link>
+                            <span className="text-muted"> - {application.position}</span>
+                          </>
+                        )}
+                      </div>
+                      <div className="small text-muted">{formatInZone(interview.scheduledAt, localTimeZone)}</div>
+                    </div>
+                    <Badge bg="light" text="dark">{getInterviewFormatLabel(interview.format)}</Badge>
+                  </ListGroup.Item>
+                );
+              })}
+            </ListGroup>
+            {interviews.length > MAX_LISTED && (
+              <div className="small text-muted mt-2">and {interviews.length - MAX_LISTED} more</div>
+            )}
+          </>
+        )}
+      </Card.Body>
+    </Card>
+  );
+};
+
+export default UpcomingInterviewsPanel;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { useOfflineStatus } from '../hooks/useOfflineStatus';
+import { NavDropdown } from 'react-bootstrap';
+
+// Navbar menu showing who is signed in, with sign out
+const UserMenu: React.FC = () => {
+  const { user, isAuthRequired, logout } = useAuth();
+  const { pendingCount } = useOfflineStatus();
+  const navigate = useNavigate();
+
+  if (!isAuthRequired || !user) {
+    return null;
+  }
+
+  // Handle sign out, warning first if changes made offline haven't synced yet
+  const handleLogout = async () => {
+    if (
+      pendingCount > 0 &&
+      !window.confirm(
+        `${pendingCount} change${pendingCount === 1 ? ' has' : 's have'} not synced yet. ` +
+        'They will be sent when you sign back in on this device. Sign out anyway?'
+      )
+    ) {
+      return;
+    }
+    await logout();
+    navigate('/login', { replace: true });
+  };
+
+  return (
+    <NavDropdown title={user.name || user.email || 'Account'} id="user-menu" align="end" className="me-3">
+      {user.name && user.email && <NavDropdown.ItemText className="small text-muted">{user.email}</NavDropdown.ItemText>}
+      <NavDropdown.Item onClick={handleLogout}>Sign out</NavDropdown.Item>
+    </NavDropdown>
+  );
+};
+
+export default UserMenu;
@@ -0,0 +1,75 @@
+import React from 'react';
+
+export interface BarChartDatum {
+  label: string;
+  value: number;
+}
+
+interface BarChartProps {
+  data: BarChartDatum[];
+  ariaLabel: string;
+  height?: number;
+}
+
+const CHART_WIDTH = 600;
+const AXIS_HEIGHT = 20;
+const MAX_AXIS_LABELS = 8;
+
+// Simple vertical bar chart with evenly thinned x-axis labels
+const BarChart: React.FC<BarChartProps> = ({ data, ariaLabel, height = 180 }) => {
+  if (data.length === 0) {
+    return <div className="text-muted fst-italic">No data for this range</div>;
+  }
+
+  const maxValue = Math.max(1, ...data.map(datum => datum.value));
+  const plotHeight = height - AXIS_HEIGHT;
+  const slotWidth = CHART_WIDTH / data.length;
+  const barWidth = Math.max(1, slotWidth * 0.7);
+  const labelEvery = Math.ceil(data.length / MAX_AXIS_LABELS);
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${height}`} width="100%" role="img" aria-label={ariaLabel}>
+      <line x1={0} y1={plotHeight} x2={CHART_WIDTH} y2={plotHeight} stroke="var(--bs-border-color)" />
+      {data.map((datum, index) => {
+        const barHeight = (datum.value / maxValue) * (plotHeight - 12);
+        const x = index * slotWidth + (slotWidth - barWidth) / 2;
+
+        return (
+          <g key={datum.label}>
+            <title>{`${datum.label}: ${datum.value}`}</title>
+            <rect
+              x={x}
+              y={plotHeight - barHeight}
+              width={barWidth}
+              height={barHeight}
+              fill="var(--bs-info)"
+            />
+            {datum.value > 0 && data.length <= 26 && (
+              <text
+                x={x + barWidth / 2}
+                y={plotHeight - barHeight - 2}
+                textAnchor="middle"
+                fontSize={10}
+              >
+                {datum.value}
+              </text>
+            )}
+            {index % labelEvery === 0 && (
+              <text
+                x={x + barWidth / 2}
+                y={height - 4}
+                textAnchor="middle"
+                fontSize={10}
+                fill="var(--bs-secondary-color)"
+              >
+                {datum.label}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default BarChart;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { getStatusLabel } from '../../types/JobApplication';
+import { FunnelStage, formatPercent } from '../../utils/analytics';
+
+interface FunnelChartProps {
+  stages: FunnelStage[];
+}
+
+const BAR_HEIGHT = 32;
+const BAR_GAP = 10;
+const LABEL_WIDTH = 110;
+const CHART_WIDTH = 480;
+
+// Horizontal funnel: one centred bar per stage, width proportional to the count
+const FunnelChart: React.FC<FunnelChartProps> = ({ stages }) => {
+  const maxCount = Math.max(1, ...stages.map(stage => stage.count));
+  const barAreaWidth = CHART_WIDTH - LABEL_WIDTH;
+  const height = stages.length * (BAR_HEIGHT + BAR_GAP);
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${height}`}
+      width="100%"
+      role="img"
+      aria-label="Application funnel"
+    >
+      {stages.map((stage, index) => {
+        const width = Math.max(2, (stage.count / maxCount) * barAreaWidth);
+        const x = LABEL_WIDTH + (barAreaWidth - width) / 2;
+        const y = index * (BAR_HEIGHT + BAR_GAP);
+
+        return (
+          <g key={stage.status}>
+            <title>
+              {`${getStatusLabel(stage.status)}: ${stage.count} (${formatPercent(stage.conversionFromPrevious)} of previous stage)`}
+            </title>
+            <text x={0} y={y + BAR_HEIGHT / 2} dominantBaseline="middle" fontSize={13}>
+              {getStatusLabel(stage.status)}
+            </text>
+            <rect
+              x={x}
+              y={y}
+              width={width}
+              height={BAR_HEIGHT}
+              rx={4}
+              fill="var(--bs-primary)"
+              opacity={1 - index * 0.15}
+            />
+            <text
+              x={LABEL_WIDTH + barAreaWidth / 2}
+              y={y + BAR_HEIGHT / 2}
+              dominantBaseline="middle"
+              textAnchor="middle"
+              fontSize={12}
+              fill={width > 90 ? '#fff' : 'currentColor'}
+            >
+              {index === 0 ? stage.count : `${stage.count} · ${formatPercent(stage.conversionFromPrevious)}`}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default FunnelChart;
@@ -0,0 +1,81 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { AuthUser, LoginCredentials, getUserFromToken } from '../types/Auth';
+import { AuthService } from '../services/AuthService';
+import { getTokens, subscribeToSession, SessionEndReason } from '../services/authSession';
+import { clearQueryCache } from '../services/queryCache';
+import { DATA_SOURCE, offlineSync } from '../repositories';
+
+// The user whose data is in the offline cache, so it can be dropped when someone else signs in
+const CACHE_OWNER_KEY = 'authCacheOwner';
+
+interface AuthContextValue {
+  user: AuthUser | null;
+  isAuthenticated: boolean;
+  isAuthRequired: boolean; // False in local mode, where data never leaves the browser
+  sessionEndReason: SessionEndReason | null;
+  login: (credentials: LoginCredentials) => Promise<void>;
+  logout: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+const readUser = (): AuthUser | null => {
+  const tokens = getTokens();
+  return tokens ? getUserFromToken(tokens.accessToken) : null;
+};
+
+/**
+ * Session state for the app. Tokens live in authSession so the API client can attach and
+ * refresh them; this provider follows that store and re-renders when the session changes,
+ * including when a refresh fails and the session expires.
+ */
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [user, setUser] = useState<AuthUser | null>(readUser);
+  const [sessionEndReason, setSessionEndReason] = useState<SessionEndReason | null>(null);
+  const isAuthRequired = DATA_SOURCE === 'api';
+
+  useEffect(() => subscribeToSession((tokens, reason) => {
+    setUser(tokens ? getUserFromToken(tokens.accessToken) : null);
+    setSessionEndReason(tokens ? null : reason ?? null);
+    // Data loaded for this session mustn't outlive it in memory
+    if (!tokens) clearQueryCache();
+  }), []);
+
+  const login = useCallback(async (credentials: LoginCredentials) => {
+    const tokens = await AuthService.login(credentials);
+
+    // Don't show one user's cached applications to another
+    const signedIn = getUserFromToken(tokens.accessToken);
+    const owner = signedIn?.id || signedIn?.email || '';
+    if (localStorage.getItem(CACHE_OWNER_KEY) !== owner) {
+      offlineSync?.clear();
+      localStorage.setItem(CACHE_OWNER_KEY, owner);
+    } else {
+      // Same user back after the session expired - send anything queued in the meantime
+      offlineSync?.flush();
+    }
+  }, []);
+
+  const logout = useCallback(() => AuthService.logout(), []);
+
+  const value = useMemo<AuthContextValue>(() => ({
+    user,
+    isAuthenticated: !isAuthRequired || user !== null,
+    isAuthRequired,
+    sessionEndReason,
+    login,
+    logout
+  }), [user, isAuthRequired, sessionEndReason, login, logout]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export const useAuth = (): AuthContextValue => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
+
+export default AuthContext;
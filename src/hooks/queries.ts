@@ -0,0 +1,68 @@
+import { useQuery, UseQueryOptions } from './useQuery';
+import { queryKeys } from '../services/queryKeys';
+import { JobApplicationService } from '../services/JobApplicationService';
+import { StatusHistoryService } from '../services/StatusHistoryService';
+import { InterviewService } from '../services/InterviewService';
+import { NoteService } from '../services/NoteService';
+import { ContactService } from '../services/ContactService';
+import { JobApplicationQueryParams } from '../types/JobApplication';
+
+// Cached reads used by the views. Each pairs a query key with the service call that loads it,
+// so every view asking for the same data shares one request and one copy of the result.
+
+export const useJobApplications = (options?: UseQueryOptions) =>
+  useQuery(queryKeys.jobApplications.list(), signal => JobApplicationService.getAll(signal), options);
+
+export const useJobApplicationPage = (params: JobApplicationQueryParams, options?: UseQueryOptions) =>
+  useQuery(
+    queryKeys.jobApplications.paged(params),
+    signal => JobApplicationService.getPaged(params, signal),
+    { keepPreviousData: true, ...options }
+  );
+
+export const useJobApplication = (id: number, options?: UseQueryOptions) =>
+  useQuery(queryKeys.jobApplications.detail(id), signal => JobApplicationService.getById(id, signal), options);
+
+export const useStatusHistory = (options?: UseQueryOptions) =>
+  useQuery(queryKeys.statusHistory.list(), signal => StatusHistoryService.getAll(signal), options);
+
+export const useApplicationStatusHistory = (jobApplicationId: number) =>
+  useQuery(
+    queryKeys.statusHistory.byApplication(jobApplicationId),
+    signal => StatusHistoryService.getByApplicationId(jobApplicationId, signal)
+  );
+
+export const useUpcomingInterviews = () =>
+  useQuery(queryKeys.interviews.upcoming(), signal => InterviewService.getUpcoming(signal));
+
+export const useApplicationInterviews = (jobApplicationId: number) =>
+  useQuery(
+    queryKeys.interviews.byApplication(jobApplicationId),
+    signal => InterviewService.getByApplicationId(jobApplicationId, signal)
+  );
+
+export const useApplicationNotes = (jobApplicationId: number) =>
+  useQuery(
+    queryKeys.notes.byApplication(jobApplicationId),
+    signal => NoteService.getByApplicationId(jobApplicationId, signal)
+  );
+
+export const useLatestNotes = (jobApplicationIds: number[]) =>
+  useQuery(
+    queryKeys.notes.latest(jobApplicationIds),
+    signal => NoteService.getLatestByApplicationIds(jobApplicationIds, signal),
+    { keepPreviousData: true }
+  );
+
+export const useContacts = (options?: UseQueryOptions) =>
+  useQuery(queryKeys.contacts.list(), signal => ContactService.getAll(signal), options);
+
+export const useContact = (id: number, options?: UseQueryOptions) =>
+  useQuery(queryKeys.contacts.detail(id), signal => ContactService.getById(id, signal), options);
+
+export const useContactApplications = (contactId: number, options?: UseQueryOptions) =>
+  useQuery(
+    queryKeys.contacts.linkedApplications(contactId),
+    signal => ContactService.getLinkedApplications(contactId, signal),
+    options
+  );
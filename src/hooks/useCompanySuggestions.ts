@@ -0,0 +1,16 @@
+import { useMemo } from 'react';
+import { getCompanyNameSuggestions } from '../utils/companies';
+import { useJobApplications } from './queries';
+
+/**
+ * Company names already used on existing applications, one spelling per employer,
+ * for autocomplete. Loaded when enabled, e.g. when a form opens.
+ */
+export const useCompanySuggestions = (enabled: boolean): string[] => {
+  // Autocomplete is optional; typing a name still works if the applications fail to load
+  const { data: applications } = useJobApplications({ enabled });
+
+  return useMemo(() => (applications ? getCompanyNameSuggestions(applications) : []), [applications]);
+};
+
+export default useCompanySuggestions;
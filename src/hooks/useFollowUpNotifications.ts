@@ -0,0 +1,91 @@
+import { useEffect } from 'react';
+import { JobApplicationService } from '../services/JobApplicationService';
+import { fetchQuery } from '../services/queryCache';
+import { queryKeys } from '../services/queryKeys';
+import { AttentionItem, getAttentionItems, getAttentionLabel } from '../utils/reminders';
+import { useStaleRules } from './useStaleRules';
+
+// How often to look for newly due reminders while the tab is open
+const CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+// Reminders already notified, so each one only pops up once
+const NOTIFIED_KEY = 'jobApplicationNotifiedReminders';
+
+// Fired to re-check straight away, e.g. right after notifications are enabled
+const CHECK_NOW_EVENT = 'jobApplicationCheckReminders';
+
+const reminderKey = (item: AttentionItem): string =>
+  `${item.application.id}:${item.reason}:${item.dueDate}`;
+
+const readNotified = (): Set<string> => {
+  try {
+    return new Set(JSON.parse(localStorage.getItem(NOTIFIED_KEY) || '[]'));
+  } catch {
+    return new Set();
+  }
+};
+
+export const notificationsSupported = (): boolean => typeof window !== 'undefined' && 'Notification' in window;
+
+// Ask for notification permission (must be called from a user action)
+export const enableFollowUpNotifications = async (): Promise<NotificationPermission> => {
+  if (!notificationsSupported()) return 'denied';
+  const permission = await Notification.requestPermission();
+  window.dispatchEvent(new Event(CHECK_NOW_EVENT));
+  return permission;
+};
+
+/**
+ * While the app is open, raise a browser notification for each follow-up or stale
+ * application as it comes due. Does nothing unless notifications have been allowed.
+ */
+export const useFollowUpNotifications = (onOpen: (applicationId: number) => void) => {
+  const [rules] = useStaleRules();
+
+  useEffect(() => {
+    if (!notificationsSupported()) return;
+    const controller = new AbortController();
+
+    const check = async () => {
+      if (Notification.permission !== 'granted') return;
+      try {
+        // Goes through the shared cache so it reuses whatever the open views have already loaded
+        const applications = await fetchQuery(
+          queryKeys.jobApplications.list(),
+          signal => JobApplicationService.getAll(signal)
+        );
+        if (controller.signal.aborted) return;
+        const items = getAttentionItems(applications, rules);
+
+        const notified = readNotified();
+        items.filter(item => !notified.has(reminderKey(item))).forEach(item => {
+          const notification = new Notification(
+            `${item.application.company} - ${item.application.position}`,
+            { body: getAttentionLabel(item), tag: reminderKey(item) }
+          );
+          notification.onclick = () => {
+            window.focus();
+            onOpen(item.application.id);
+            notification.close();
+          };
+        });
+
+        // Only remember reminders that are still due so the list doesn't grow forever
+        localStorage.setItem(NOTIFIED_KEY, JSON.stringify(items.map(reminderKey)));
+      } catch (err) {
+        if (!controller.signal.aborted) console.error('Error checking follow-up reminders:', err);
+      }
+    };
+
+    check();
+    const timer = setInterval(check, CHECK_INTERVAL_MS);
+    window.addEventListener(CHECK_NOW_EVENT, check);
+    return () => {
+      controller.abort();
+      clearInterval(timer);
+      window.removeEventListener(CHECK_NOW_EVENT, check);
+    };
+  }, [rules, onOpen]);
+};
+
+export default useFollowUpNotifications;
@@ -0,0 +1,227 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import {
+  ApplicationStatus,
+  ApplicationSource,
+  WorkMode,
+  JobApplicationFilters,
+  SortDescriptor,
+  PAGE_SIZE_OPTIONS,
+  parseSort,
+  serializeSort
+} from '../types/JobApplication';
+
+// Default ordering when the URL does not specify one: most recently applied first
+export const DEFAULT_SORT: SortDescriptor[] = [{ field: 'dateApplied', direction: 'desc' }];
+
+// Query string keys used for sorting and pagination
+const SORT_KEY = 'sort';
+const PAGE_KEY = 'page';
+const PAGE_SIZE_KEY = 'pageSize';
+
+// Query string keys used for each filter
+const SEARCH_KEY = 'q';
+const STATUS_KEY = 'status';
+const DATE_FROM_KEY = 'from';
+const DATE_TO_KEY = 'to';
+const UPDATED_WITHIN_KEY = 'updatedWithin';
+const WORK_MODE_KEY = 'workMode';
+const SOURCE_KEY = 'source';
+const LOCATION_KEY = 'location';
+
+const FILTER_KEYS = [
+  SEARCH_KEY,
+  STATUS_KEY,
+  DATE_FROM_KEY,
+  DATE_TO_KEY,
+  UPDATED_WITHIN_KEY,
+  WORK_MODE_KEY,
+  SOURCE_KEY,
+  LOCATION_KEY
+];
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Read filters from the query string, ignoring anything malformed
+export const parseFilters = (searchParams: URLSearchParams): JobApplicationFilters => {
+  const filters: JobApplicationFilters = {};
+
+  const search = searchParams.get(SEARCH_KEY);
+  if (search && search.trim()) {
+    filters.search = search.trim();
+  }
+
+  const statuses = searchParams
+    .getAll(STATUS_KEY)
+    .map(value => parseInt(value))
+    .filter(value => Object.values(ApplicationStatus).includes(value)) as ApplicationStatus[];
+  if (statuses.length > 0) {
+    filters.statuses = Array.from(new Set(statuses));
+  }
+
+  const workModes = searchParams
+    .getAll(WORK_MODE_KEY)
+    .map(value => parseInt(value))
+    .filter(value => Object.values(WorkMode).includes(value)) as WorkMode[];
+  if (workModes.length > 0) {
+    filters.workModes = Array.from(new Set(workModes));
+  }
+
+  const sources = searchParams
+    .getAll(SOURCE_KEY)
+    .map(value => parseInt(value))
+    .filter(value => Object.values(ApplicationSource).includes(value)) as ApplicationSource[];
+  if (sources.length > 0) {
+    filters.sources = Array.from(new Set(sources));
+  }
+
+  const location = searchParams.get(LOCATION_KEY);
+  if (location && location.trim()) {
+    filters.location = location.trim();
+  }
+
+  const dateFrom = searchParams.get(DATE_FROM_KEY);
+  if (dateFrom && ISO_DATE_PATTERN.test(dateFrom)) {
+    filters.dateAppliedFrom = dateFrom;
+  }
+
+  const dateTo = searchParams.get(DATE_TO_KEY);
+  if (dateTo && ISO_DATE_PATTERN.test(dateTo)) {
+    filters.dateAppliedTo = dateTo;
+  }
+
+  const updatedWithin = parseInt(searchParams.get(UPDATED_WITHIN_KEY) || '');
+  if (updatedWithin > 0) {
+    filters.updatedWithinDays = updatedWithin;
+  }
+
+  return filters;
+};
+
+// Write filters into a copy of the query string, leaving unrelated parameters untouched
+export const applyFilters = (
+  searchParams: URLSearchParams,
+  filters: JobApplicationFilters
+): URLSearchParams => {
+  const next = new URLSearchParams(searchParams);
+  FILTER_KEYS.forEach(key => next.delete(key));
+
+  if (filters.search && filters.search.trim()) {
+    next.set(SEARCH_KEY, filters.search.trim());
+  }
+  (filters.statuses || []).forEach(status => next.append(STATUS_KEY, status.toString()));
+  (filters.workModes || []).forEach(workMode => next.append(WORK_MODE_KEY, workMode.toString()));
+  (filters.sources || []).forEach(source => next.append(SOURCE_KEY, source.toString()));
+  if (filters.location && filters.location.trim()) {
+    next.set(LOCATION_KEY, filters.location.trim());
+  }
+  if (filters.dateAppliedFrom) {
+    next.set(DATE_FROM_KEY, filters.dateAppliedFrom);
+  }
+  if (filters.dateAppliedTo) {
+    next.set(DATE_TO_KEY, filters.dateAppliedTo);
+  }
+  if (filters.updatedWithinDays) {
+    next.set(UPDATED_WITHIN_KEY, filters.updatedWithinDays.toString());
+  }
+
+  return next;
+};
+
+// Whether any filter criteria are set
+export const hasActiveFilters = (filters: JobApplicationFilters): boolean =>
+  !!filters.search ||
+  (filters.statuses?.length ?? 0) > 0 ||
+  (filters.workModes?.length ?? 0) > 0 ||
+  (filters.sources?.length ?? 0) > 0 ||
+  !!filters.location ||
+  !!filters.dateAppliedFrom ||
+  !!filters.dateAppliedTo ||
+  !!filters.updatedWithinDays;
+
+// Parse the page number, falling back to the first page
+const parsePage = (searchParams: URLSearchParams): number => {
+  const page = parseInt(searchParams.get(PAGE_KEY) || '');
+  return page > 0 ? page : 1;
+};
+
+// Parse the page size, only accepting the sizes offered in the selector
+const parsePageSize = (searchParams: URLSearchParams): number => {
+  const pageSize = parseInt(searchParams.get(PAGE_SIZE_KEY) || '');
+  return PAGE_SIZE_OPTIONS.includes(pageSize) ? pageSize : PAGE_SIZE_OPTIONS[0];
+};
+
+/**
+ * Table query state (filters, sort and pagination) backed by the URL query string,
+ * so views survive reloads and can be bookmarked or shared
+ */
+export const useJobApplicationQuery = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const filters = useMemo(() => parseFilters(searchParams), [searchParams]);
+  const sortParam = searchParams.get(SORT_KEY);
+  const sort = useMemo(() => {
+    const parsed = parseSort(sortParam);
+    return parsed.length > 0 ? parsed : DEFAULT_SORT;
+  }, [sortParam]);
+  const page = parsePage(searchParams);
+  const pageSize = parsePageSize(searchParams);
+
+  // Apply an update to the query string, optionally dropping back to the first page
+  const update = useCallback((
+    apply: (params: URLSearchParams) => URLSearchParams,
+    resetPage: boolean
+  ) => {
+    setSearchParams(prev => {
+      const next = apply(prev);
+      if (resetPage) {
+        next.delete(PAGE_KEY);
+      }
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  const setFilters = useCallback((next: JobApplicationFilters) => {
+    update(params => applyFilters(params, next), true);
+  }, [update]);
+
+  const clearFilters = useCallback(() => {
+    update(params => applyFilters(params, {}), true);
+  }, [update]);
+
+  const setSort = useCallback((next: SortDescriptor[]) => {
+    update(params => {
+      const copy = new URLSearchParams(params);
+      if (next.length === 0) {
+        copy.delete(SORT_KEY);
+      } else {
+        copy.set(SORT_KEY, serializeSort(next));
+      }
+      return copy;
+    }, true);
+  }, [update]);
+
+  const setPage = useCallback((next: number) => {
+    update(params => {
+      const copy = new URLSearchParams(params);
+      if (next > 1) {
+        copy.set(PAGE_KEY, next.toString());
+      } else {
+        copy.delete(PAGE_KEY);
+      }
+      return copy;
+    }, false);
+  }, [update]);
+
+  const setPageSize = useCallback((next: number) => {
+    update(params => {
+      const copy = new URLSearchParams(params);
+      copy.set(PAGE_SIZE_KEY, next.toString());
+      return copy;
+    }, true);
+  }, [update]);
+
+  return { filters, sort, page, pageSize, setFilters, clearFilters, setSort, setPage, setPageSize };
+};
+
+export default useJobApplicationQuery;
@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+import { offlineSync, OfflineSyncState } from '../repositories';
+
+const LOCAL_STATE: OfflineSyncState = { isOnline: true, isSyncing: false, pendingCount: 0, failures: [] };
+
+/**
+ * Current connectivity and offline queue state. In local data mode nothing is ever
+ * queued, so this always reports online with no pending changes.
+ */
+export const useOfflineStatus = (): OfflineSyncState => {
+  const [state, setState] = useState<OfflineSyncState>(() => offlineSync?.getSyncState() ?? LOCAL_STATE);
+
+  useEffect(() => {
+    if (!offlineSync) return;
+    setState(offlineSync.getSyncState());
+    return offlineSync.subscribe(setState);
+  }, []);
+
+  return state;
+};
+
+export default useOfflineStatus;
@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import {
+  QueryKey,
+  QueryFetcher,
+  DEFAULT_STALE_TIME,
+  fetchQuery,
+  getQueryState,
+  hashQueryKey,
+  invalidateQueries,
+  subscribeToQuery
+} from '../services/queryCache';
+
+export interface UseQueryOptions {
+  enabled?: boolean; // When false nothing is fetched, e.g. until an id is known
+  staleTime?: number; // How long cached data is served before it is revalidated
+  keepPreviousData?: boolean; // Keep showing the last key's data while a new key loads
+}
+
+export interface QueryResult<T> {
+  data: T | undefined;
+  error: unknown;
+  isLoading: boolean; // Fetching with nothing to show yet
+  isFetching: boolean; // Fetching in the background, possibly with cached data on screen
+  refetch: () => void;
+}
+
+/**
+ * Read a query from the shared cache. Cached data is returned straight away and revalidated
+ * in the background once stale; requests for the same key are shared between components,
+ * and the view re-renders whenever any of them, or a mutation, updates the cache.
+ */
+export const useQuery = <T>(
+  key: QueryKey,
+  fetcher: QueryFetcher<T>,
+  { enabled = true, staleTime = DEFAULT_STALE_TIME, keepPreviousData = false }: UseQueryOptions = {}
+): QueryResult<T> => {
+  // Keep one key object per hash; callers pass a new array every render, which would
+  // otherwise resubscribe every render
+  const hash = hashQueryKey(key);
+  const keyRef = useRef({ hash, key });
+  if (keyRef.current.hash !== hash) {
+    keyRef.current = { hash, key };
+  }
+  const stableKey = keyRef.current.key;
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  const subscribe = useCallback(
+    (listener: () => void) => subscribeToQuery(stableKey, listener),
+    [stableKey]
+  );
+  const getSnapshot = useCallback(() => getQueryState<T>(stableKey), [stableKey]);
+  const state = useSyncExternalStore(subscribe, getSnapshot);
+
+  // Load (or revalidate) whenever the key changes or the cache marks it out of date.
+  // Requests already in flight are shared, so this never doubles up with another view.
+  useEffect(() => {
+    if (!enabled) return;
+    fetchQuery(stableKey, signal => fetcherRef.current(signal), { staleTime }).catch(() => undefined);
+  }, [enabled, staleTime, stableKey, state.isInvalidated]);
+
+  const previousData = useRef<T | undefined>(undefined);
+  if (state.data !== undefined) {
+    previousData.current = state.data;
+  }
+  const data = state.data !== undefined || !keepPreviousData ? state.data : previousData.current;
+
+  const refetch = useCallback(() => invalidateQueries(stableKey), [stableKey]);
+
+  return {
+    data: enabled ? data : undefined,
+    error: enabled ? state.error : undefined,
+    isLoading: enabled && data === undefined && state.error === undefined,
+    isFetching: enabled && state.isFetching,
+    refetch
+  };
+};
+
+export default useQuery;
@@ -0,0 +1,25 @@
+import { useCallback, useEffect, useState } from 'react';
+import { StaleRules, loadStaleRules, saveStaleRules, STALE_RULES_CHANGED_EVENT } from '../utils/reminders';
+
+/**
+ * The user's stale-after rules, kept in sync across components and browser tabs.
+ */
+export const useStaleRules = (): [StaleRules, (rules: StaleRules) => void] => {
+  const [rules, setRules] = useState<StaleRules>(loadStaleRules);
+
+  useEffect(() => {
+    const handleChange = () => setRules(loadStaleRules());
+    window.addEventListener(STALE_RULES_CHANGED_EVENT, handleChange);
+    window.addEventListener('storage', handleChange);
+    return () => {
+      window.removeEventListener(STALE_RULES_CHANGED_EVENT, handleChange);
+      window.removeEventListener('storage', handleChange);
+    };
+  }, []);
+
+  const updateRules = useCallback((next: StaleRules) => saveStaleRules(next), []);
+
+  return [rules, updateRules];
+};
+
+export default useStaleRules;
@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// How long an action can be undone before it is committed
+export const UNDO_GRACE_PERIOD_MS = 6000;
+
+export interface UndoEntry {
+  id: number;
+  message: string;
+  undo: () => void | Promise<void>; // Reverse the action
+  commit?: () => void | Promise<void>; // Finalise the action once it can no longer be undone
+}
+
+// Keyboard shortcuts inside text fields belong to the field itself
+const isEditableTarget = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * Stack of recent actions that can be undone for a short grace period, newest last.
+ * Ctrl+Z (Cmd+Z on macOS) undoes the most recent one. When an entry expires, or the
+ * component using the stack unmounts, its commit callback runs.
+ */
+export const useUndoStack = () => {
+  const [entries, setEntries] = useState<UndoEntry[]>([]);
+  const entriesRef = useRef<UndoEntry[]>([]);
+  const timers = useRef(new Map<number, ReturnType<typeof setTimeout>>());
+  const nextId = useRef(1);
+
+  const update = useCallback((next: UndoEntry[]) => {
+    entriesRef.current = next;
+    setEntries(next);
+  }, []);
+
+  // Take an entry off the stack, returning it if it was still there
+  const remove = useCallback((id: number): UndoEntry | undefined => {
+    const entry = entriesRef.current.find(item => item.id === id);
+    if (!entry) return undefined;
+
+    clearTimeout(timers.current.get(id));
+    timers.current.delete(id);
+    update(entriesRef.current.filter(item => item.id !== id));
+    return entry;
+  }, [update]);
+
+  // Commit an entry now instead of waiting for it to expire
+  const dismiss = useCallback((id: number) => {
+    remove(id)?.commit?.();
+  }, [remove]);
+
+  const push = useCallback((entry: Omit<UndoEntry, 'id'>) => {
+    const id = nextId.current++;
+    update([...entriesRef.current, { ...entry, id }]);
+    timers.current.set(id, setTimeout(() => dismiss(id), UNDO_GRACE_PERIOD_MS));
+  }, [dismiss, update]);
+
+  // Undo the given entry, or the most recent one
+  const undo = useCallback((id?: number) => {
+    const target = id ?? entriesRef.current[entriesRef.current.length - 1]?.id;
+    if (target === undefined) return;
+    remove(target)?.undo();
+  }, [remove]);
+
+  // Handle Ctrl+Z / Cmd+Z
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() !== 'z' || !(e.ctrlKey || e.metaKey) || e.shiftKey || e.altKey) return;
+      if (isEditableTarget(e.target) || entriesRef.current.length === 0) return;
+      e.preventDefault();
+      undo();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo]);
+
+  // Anything still pending when the page goes away is committed rather than lost
+  useEffect(() => {
+    const pendingTimers = timers.current;
+    const commitAll = () => {
+      entriesRef.current.forEach(entry => entry.commit?.());
+      entriesRef.current = [];
+      pendingTimers.forEach(timer => clearTimeout(timer));
+      pendingTimers.clear();
+    };
+    window.addEventListener('pagehide', commitAll);
+    return () => {
+      window.removeEventListener('pagehide', commitAll);
+      commitAll();
+    };
+  }, []);
+
+  return { entries, push, undo, dismiss };
+};
+
+export default useUndoStack;
@@ -0,0 +1,12 @@
+import { Contact, CreateContactDto, UpdateContactDto } from '../types/Contact';
+import { JobApplication } from '../types/JobApplication';
+
+// Storage backend for contacts and the applications they're linked to
+export interface ContactRepository {
+  getAll(signal?: AbortSignal): Promise<Contact[]>;
+  getById(id: number, signal?: AbortSignal): Promise<Contact>;
+  getLinkedApplications(contactId: number, signal?: AbortSignal): Promise<JobApplication[]>;
+  create(contact: CreateContactDto, signal?: AbortSignal): Promise<Contact>;
+  update(id: number, contact: UpdateContactDto, signal?: AbortSignal): Promise<Contact>;
+  delete(id: number, signal?: AbortSignal): Promise<void>;
+}
@@ -0,0 +1,96 @@
+import { AxiosResponse } from 'axios';
+import apiClient from '../services/apiClient';
+import { Contact, CreateContactDto, UpdateContactDto } from '../types/Contact';
+import { JobApplication } from '../types/JobApplication';
+import { ContactRepository } from './ContactRepository';
+
+// Contact repository backed by the REST API at REACT_APP_API_BASE_URL
+export class HttpContactRepository implements ContactRepository {
+  private readonly ENDPOINT = '/contacts';
+
+  /**
+   * Get all contacts
+   */
+  async getAll(signal?: AbortSignal): Promise<Contact[]> {
+    try {
+      const response: AxiosResponse<Contact[]> = await apiClient.get(this.ENDPOINT, { signal });
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching contacts:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a contact by ID
+   */
+  async getById(id: number, signal?: AbortSignal): Promise<Contact> {
+    try {
+      const response: AxiosResponse<Contact> = await apiClient.get(`${this.ENDPOINT}/${id}`, { signal });
+      return response.data;
+    } catch (error) {
+      console.error(`Error fetching contact ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the job applications a contact is linked to
+   */
+  async getLinkedApplications(contactId: number, signal?: AbortSignal): Promise<JobApplication[]> {
+    try {
+      const response: AxiosResponse<JobApplication[]> = await apiClient.get(
+        `${this.ENDPOINT}/${contactId}/jobapplications`,
+        { signal }
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Error fetching job applications for contact ${contactId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a new contact
+   */
+  async create(contact: CreateContactDto, signal?: AbortSignal): Promise<Contact> {
+    try {
+      const response: AxiosResponse<Contact> = await apiClient.post(this.ENDPOINT, contact, { signal });
+      return response.data;
+    } catch (error) {
+      console.error('Error creating contact:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update an existing contact
+   */
+  async update(id: number, contact: UpdateContactDto, signal?: AbortSignal): Promise<Contact> {
+    try {
+      const response: AxiosResponse<Contact> = await apiClient.put(
+        `${this.ENDPOINT}/${id}`,
+        contact,
+        { signal }
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Error updating contact ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a contact; the API unlinks it from its applications
+   */
+  async delete(id: number, signal?: AbortSignal): Promise<void> {
+    try {
+      await apiClient.delete(`${this.ENDPOINT}/${id}`, { signal });
+    } catch (error) {
+      console.error(`Error deleting contact ${id}:`, error);
+      throw error;
+    }
+  }
+}
+
+export default HttpContactRepository;
@@ -0,0 +1,90 @@
+import { AxiosResponse } from 'axios';
+import apiClient from '../services/apiClient';
+import { Interview, CreateInterviewDto, UpdateInterviewDto } from '../types/Interview';
+import { InterviewRepository } from './InterviewRepository';
+
+// Interview repository backed by the REST API at REACT_APP_API_BASE_URL
+export class HttpInterviewRepository implements InterviewRepository {
+  private readonly ENDPOINT = '/interviews';
+
+  /**
+   * Get interviews across all job applications
+   */
+  async getAll(signal?: AbortSignal): Promise<Interview[]> {
+    try {
+      const response: AxiosResponse<Interview[]> = await apiClient.get(this.ENDPOINT, { signal });
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching interviews:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the interviews for a job application
+   */
+  async getByApplicationId(jobApplicationId: number, signal?: AbortSignal): Promise<Interview[]> {
+    try {
+      const response: AxiosResponse<Interview[]> = await apiClient.get(
+        `/jobapplications/${jobApplicationId}/interviews`,
+        { signal }
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Error fetching interviews for job application ${jobApplicationId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Schedule an interview for a job application
+   */
+  async create(
+    jobApplicationId: number,
+    interview: CreateInterviewDto,
+    signal?: AbortSignal
+  ): Promise<Interview> {
+    try {
+      const response: AxiosResponse<Interview> = await apiClient.post(
+        `/jobapplications/${jobApplicationId}/interviews`,
+        interview,
+        { signal }
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Error creating interview for job application ${jobApplicationId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update an existing interview
+   */
+  async update(id: number, interview: UpdateInterviewDto, signal?: AbortSignal): Promise<Interview> {
+    try {
+      const response: AxiosResponse<Interview> = await apiClient.put(
+        `${this.ENDPOINT}/${id}`,
+        interview,
+        { signal }
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Error updating interview ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete an interview
+   */
+  async delete(id: number, signal?: AbortSignal): Promise<void> {
+    try {
+      await apiClient.delete(`${this.ENDPOINT}/${id}`, { signal });
+    } catch (error) {
+      console.error(`Error deleting interview ${id}:`, error);
+      throw error;
+    }
+  }
+}
+
+export default HttpInterviewRepository;
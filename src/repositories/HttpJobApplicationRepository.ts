@@ -0,0 +1,286 @@
+import { AxiosResponse } from 'axios';
+import apiClient from '../services/apiClient';
+import { ApiError } from '../services/ApiError';
+import {
+  JobApplication,
+  ApplicationStatus,
+  CreateJobApplicationDto,
+  UpdateJobApplicationDto,
+  JobApplicationQueryParams,
+  PaginatedResponse,
+  JobApplicationPatch,
+  UpdateOptions,
+  StatusUpdateOptions,
+  serializeSort
+} from '../types/JobApplication';
+import { StatusChange, CreateStatusChangeDto } from '../types/StatusChange';
+import { JobApplicationRepository } from './JobApplicationRepository';
+
+// An ETag the server sent for an application, and the updatedAt of the version it identifies
+interface KnownVersion {
+  etag: string;
+  updatedAt: string;
+}
+
+// Job application repository backed by the REST API at REACT_APP_API_BASE_URL
+export class HttpJobApplicationRepository implements JobApplicationRepository {
+  private readonly ENDPOINT = '/jobapplications';
+  private readonly versions = new Map<number, KnownVersion>();
+
+  /**
+   * Get all job applications
+   */
+  async getAll(signal?: AbortSignal): Promise<JobApplication[]> {
+    try {
+      const response: AxiosResponse<JobApplication[]> = await apiClient.get(
+        this.ENDPOINT,
+        { signal }
+      );
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching job applications:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a single page of job applications, filtered and sorted on the server
+   */
+  async getPaged(
+    params: JobApplicationQueryParams,
+    signal?: AbortSignal
+  ): Promise<PaginatedResponse<JobApplication>> {
+    try {
+      const response: AxiosResponse<PaginatedResponse<JobApplication>> = await apiClient.get(
+        `${this.ENDPOINT}/paged`,
+        {
+          params: {
+            page: params.page,
+            pageSize: params.pageSize,
+            sort: params.sort && params.sort.length > 0 ? serializeSort(params.sort) : undefined,
+            search: params.search || undefined,
+            statuses: params.statuses && params.statuses.length > 0 ? params.statuses : undefined,
+            workModes: params.workModes && params.workModes.length > 0 ? params.workModes : undefined,
+            sources: params.sources && params.sources.length > 0 ? params.sources : undefined,
+            location: params.location || undefined,
+            dateAppliedFrom: params.dateAppliedFrom || undefined,
+            dateAppliedTo: params.dateAppliedTo || undefined,
+            updatedWithinDays: params.updatedWithinDays
+          },
+          // Repeat array keys as statuses=1&statuses=2 rather than statuses[]=1
+          paramsSerializer: { indexes: null },
+          signal
+        }
+      );
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching paged job applications:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a specific job application by ID
+   */
+  async getById(id: number, signal?: AbortSignal): Promise<JobApplication> {
+    try {
+      const response: AxiosResponse<JobApplication> = await apiClient.get(
+        `${this.ENDPOINT}/${id}`,
+        { signal }
+      );
+      this.rememberVersion(response);
+      return response.data;
+    } catch (error) {
+      console.error(`Error fetching job application ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a new job application
+   */
+  async create(jobApplication: CreateJobApplicationDto, signal?: AbortSignal): Promise<JobApplication> {
+    try {
+      const response: AxiosResponse<JobApplication> = await apiClient.post(
+        this.ENDPOINT,
+        jobApplication,
+        { signal }
+      );
+      await this.recordStatusChange(response.data.id, { fromStatus: null, toStatus: response.data.status });
+      return response.data;
+    } catch (error) {
+      console.error('Error creating job application:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update an existing job application
+   */
+  async update(
+    id: number,
+    jobApplication: UpdateJobApplicationDto,
+    options: UpdateOptions = {},
+    signal?: AbortSignal
+  ): Promise<JobApplication> {
+    try {
+      const response: AxiosResponse<JobApplication> = await apiClient.put(
+        `${this.ENDPOINT}/${id}`,
+        jobApplication,
+        { headers: this.preconditionHeaders(id, options), signal }
+      );
+      await this.afterUpdate(id, response, options);
+      return response.data;
+    } catch (error) {
+      console.error(`Error updating job application ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update only the given fields of a job application
+   */
+  async patch(
+    id: number,
+    changes: JobApplicationPatch,
+    options: UpdateOptions = {},
+    signal?: AbortSignal
+  ): Promise<JobApplication> {
+    try {
+      const response: AxiosResponse<JobApplication> = await apiClient.patch(
+        `${this.ENDPOINT}/${id}`,
+        changes,
+        { headers: this.preconditionHeaders(id, options), signal }
+      );
+      await this.afterUpdate(id, response, options);
+      return response.data;
+    } catch (error) {
+      console.error(`Error patching job application ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a job application
+   */
+  async delete(id: number, signal?: AbortSignal): Promise<void> {
+    try {
+      await apiClient.delete(`${this.ENDPOINT}/${id}`, { signal });
+    } catch (error) {
+      console.error(`Error deleting job application ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update only the status of a job application
+   */
+  async updateStatus(
+    id: number,
+    status: ApplicationStatus,
+    { statusNote, expectedUpdatedAt }: StatusUpdateOptions = {},
+    signal?: AbortSignal
+  ): Promise<JobApplication> {
+    try {
+      // Get the current status for the history entry. If it has moved on from the version the
+      // caller saw, someone else changed it and the caller's view is stale.
+      const currentApp = await this.getById(id, signal);
+      if (expectedUpdatedAt !== undefined && expectedUpdatedAt !== currentApp.updatedAt) {
+        throw new ApiError(`Job application ${id} was changed since it was loaded`, {
+          status: 412,
+          kind: 'conflict'
+        });
+      }
+
+      // Change only the status, failing rather than overwriting if someone else changes it in between
+      return await this.patch(id, { status }, {
+        previousStatus: currentApp.status,
+        statusNote,
+        expectedUpdatedAt: currentApp.updatedAt
+      }, signal);
+    } catch (error) {
+      console.error(`Error updating status for job application ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the status history of a job application, oldest first
+   */
+  async getStatusHistory(jobApplicationId: number, signal?: AbortSignal): Promise<StatusChange[]> {
+    try {
+      const response: AxiosResponse<StatusChange[]> = await apiClient.get(
+        `${this.ENDPOINT}/${jobApplicationId}/status-history`,
+        { signal }
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Error fetching status history for job application ${jobApplicationId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get status history across all job applications
+   */
+  async getAllStatusHistory(signal?: AbortSignal): Promise<StatusChange[]> {
+    try {
+      const response: AxiosResponse<StatusChange[]> = await apiClient.get('/status-history', { signal });
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching status history:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * If-Match header for an update based on a known version. Uses the server's ETag for that
+   * version when we have it, otherwise its updatedAt as an opaque version tag.
+   */
+  private preconditionHeaders(id: number, { expectedUpdatedAt }: UpdateOptions): Record<string, string> {
+    if (expectedUpdatedAt === undefined) return {};
+    const known = this.versions.get(id);
+    const etag = known && known.updatedAt === expectedUpdatedAt ? known.etag : `"${expectedUpdatedAt}"`;
+    return { 'If-Match': etag };
+  }
+
+  private rememberVersion(response: AxiosResponse<JobApplication>): void {
+    const etag = response.headers?.etag;
+    if (typeof etag === 'string' && etag) {
+      this.versions.set(response.data.id, { etag, updatedAt: response.data.updatedAt });
+    }
+  }
+
+  // Shared by PUT and PATCH: note the new version and record the status change, if any
+  private async afterUpdate(
+    id: number,
+    response: AxiosResponse<JobApplication>,
+    options: UpdateOptions
+  ): Promise<void> {
+    this.rememberVersion(response);
+    if (options.previousStatus !== undefined && options.previousStatus !== response.data.status) {
+      await this.recordStatusChange(id, {
+        fromStatus: options.previousStatus,
+        toStatus: response.data.status,
+        note: options.statusNote
+      });
+    }
+  }
+
+  /**
+   * Record a status history entry. The application change has already been saved,
+   * so a failure here is logged rather than failing the whole operation.
+   */
+  private async recordStatusChange(id: number, statusChange: CreateStatusChangeDto): Promise<void> {
+    try {
+      await apiClient.post(`${this.ENDPOINT}/${id}/status-history`, {
+        ...statusChange,
+        note: statusChange.note && statusChange.note.trim() ? statusChange.note.trim() : undefined
+      });
+    } catch (error) {
+      console.error(`Error recording status history for job application ${id}:`, error);
+    }
+  }
+}
+
+export default HttpJobApplicationRepository;
@@ -0,0 +1,91 @@
+import { AxiosResponse } from 'axios';
+import apiClient from '../services/apiClient';
+import { Note, CreateNoteDto, UpdateNoteDto } from '../types/Note';
+import { NoteRepository } from './NoteRepository';
+
+// Note repository backed by the REST API at REACT_APP_API_BASE_URL
+export class HttpNoteRepository implements NoteRepository {
+  private readonly ENDPOINT = '/notes';
+
+  /**
+   * Get the notes for a job application
+   */
+  async getByApplicationId(jobApplicationId: number, signal?: AbortSignal): Promise<Note[]> {
+    try {
+      const response: AxiosResponse<Note[]> = await apiClient.get(
+        `/jobapplications/${jobApplicationId}/notes`,
+        { signal }
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Error fetching notes for job application ${jobApplicationId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the most recent note for each of the given job applications
+   */
+  async getLatestByApplicationIds(jobApplicationIds: number[], signal?: AbortSignal): Promise<Note[]> {
+    try {
+      const response: AxiosResponse<Note[]> = await apiClient.get(`${this.ENDPOINT}/latest`, {
+        params: { jobApplicationIds },
+        // Repeat array keys as jobApplicationIds=1&jobApplicationIds=2 rather than jobApplicationIds[]=1
+        paramsSerializer: { indexes: null },
+        signal
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching latest notes:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add a note to a job application
+   */
+  async create(jobApplicationId: number, note: CreateNoteDto, signal?: AbortSignal): Promise<Note> {
+    try {
+      const response: AxiosResponse<Note> = await apiClient.post(
+        `/jobapplications/${jobApplicationId}/notes`,
+        note,
+        { signal }
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Error creating note for job application ${jobApplicationId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update an existing note
+   */
+  async update(id: number, note: UpdateNoteDto, signal?: AbortSignal): Promise<Note> {
+    try {
+      const response: AxiosResponse<Note> = await apiClient.put(
+        `${this.ENDPOINT}/${id}`,
+        note,
+        { signal }
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Error updating note ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a note
+   */
+  async delete(id: number, signal?: AbortSignal): Promise<void> {
+    try {
+      await apiClient.delete(`${this.ENDPOINT}/${id}`, { signal });
+    } catch (error) {
+      console.error(`Error deleting note ${id}:`, error);
+      throw error;
+    }
+  }
+}
+
+export default HttpNoteRepository;
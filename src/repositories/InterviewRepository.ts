@@ -0,0 +1,10 @@
+import { Interview, CreateInterviewDto, UpdateInterviewDto } from '../types/Interview';
+
+// Storage backend for interviews scheduled against job applications
+export interface InterviewRepository {
+  getAll(signal?: AbortSignal): Promise<Interview[]>;
+  getByApplicationId(jobApplicationId: number, signal?: AbortSignal): Promise<Interview[]>;
+  create(jobApplicationId: number, interview: CreateInterviewDto, signal?: AbortSignal): Promise<Interview>;
+  update(id: number, interview: UpdateInterviewDto, signal?: AbortSignal): Promise<Interview>;
+  delete(id: number, signal?: AbortSignal): Promise<void>;
+}
@@ -0,0 +1,51 @@
+import {
+  JobApplication,
+  ApplicationStatus,
+  CreateJobApplicationDto,
+  UpdateJobApplicationDto,
+  JobApplicationQueryParams,
+  PaginatedResponse,
+  JobApplicationPatch,
+  UpdateOptions,
+  StatusUpdateOptions
+} from '../types/JobApplication';
+import { StatusChange } from '../types/StatusChange';
+
+/**
+ * Storage backend for job applications and their status history.
+ * Implementations record a status history entry whenever an application is
+ * created or its status changes, so callers never write history directly.
+ *
+ * Updates given `expectedUpdatedAt` are rejected with a conflict error if the application
+ * has been changed since that version, so concurrent edits are never silently overwritten.
+ *
+ * Every method takes an optional AbortSignal for cancelling the underlying request.
+ * The local implementation answers synchronously, so it has nothing to cancel.
+ */
+export interface JobApplicationRepository {
+  getAll(signal?: AbortSignal): Promise<JobApplication[]>;
+  getPaged(params: JobApplicationQueryParams, signal?: AbortSignal): Promise<PaginatedResponse<JobApplication>>;
+  getById(id: number, signal?: AbortSignal): Promise<JobApplication>;
+  create(jobApplication: CreateJobApplicationDto, signal?: AbortSignal): Promise<JobApplication>;
+  update(
+    id: number,
+    jobApplication: UpdateJobApplicationDto,
+    options?: UpdateOptions,
+    signal?: AbortSignal
+  ): Promise<JobApplication>;
+  patch(
+    id: number,
+    changes: JobApplicationPatch,
+    options?: UpdateOptions,
+    signal?: AbortSignal
+  ): Promise<JobApplication>;
+  delete(id: number, signal?: AbortSignal): Promise<void>;
+  updateStatus(
+    id: number,
+    status: ApplicationStatus,
+    options?: StatusUpdateOptions,
+    signal?: AbortSignal
+  ): Promise<JobApplication>;
+  getStatusHistory(jobApplicationId: number, signal?: AbortSignal): Promise<StatusChange[]>;
+  getAllStatusHistory(signal?: AbortSignal): Promise<StatusChange[]>;
+}
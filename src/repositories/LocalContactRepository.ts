@@ -0,0 +1,69 @@
+import { Contact, CreateContactDto, UpdateContactDto } from '../types/Contact';
+import { JobApplication } from '../types/JobApplication';
+import { ContactRepository } from './ContactRepository';
+import { readCollection, writeCollection, nextId, notFoundError } from './localStore';
+
+export const CONTACTS = 'contacts';
+
+// Shares the applications collection with LocalJobApplicationRepository, where links are stored
+const APPLICATIONS = 'applications';
+
+// Contact repository stored in localStorage alongside LocalJobApplicationRepository
+export class LocalContactRepository implements ContactRepository {
+  async getAll(): Promise<Contact[]> {
+    return readCollection<Contact>(CONTACTS);
+  }
+
+  async getById(id: number): Promise<Contact> {
+    const contact = readCollection<Contact>(CONTACTS).find(item => item.id === id);
+    if (!contact) {
+      throw notFoundError(`Contact ${id} not found`);
+    }
+    return contact;
+  }
+
+  async getLinkedApplications(contactId: number): Promise<JobApplication[]> {
+    return readCollection<JobApplication>(APPLICATIONS).filter(
+      app => app.contactIds?.includes(contactId)
+    );
+  }
+
+  async create(contact: CreateContactDto): Promise<Contact> {
+    const now = new Date().toISOString();
+    const created: Contact = { ...contact, id: nextId(CONTACTS), createdAt: now, updatedAt: now };
+    writeCollection(CONTACTS, [...readCollection<Contact>(CONTACTS), created]);
+    return created;
+  }
+
+  async update(id: number, contact: UpdateContactDto): Promise<Contact> {
+    const contacts = readCollection<Contact>(CONTACTS);
+    const existing = contacts.find(item => item.id === id);
+    if (!existing) {
+      throw notFoundError(`Contact ${id} not found`);
+    }
+
+    const updated: Contact = { ...existing, ...contact, updatedAt: new Date().toISOString() };
+    writeCollection(CONTACTS, contacts.map(item => (item.id === id ? updated : item)));
+    return updated;
+  }
+
+  async delete(id: number): Promise<void> {
+    const contacts = readCollection<Contact>(CONTACTS);
+    if (!contacts.some(item => item.id === id)) {
+      throw notFoundError(`Contact ${id} not found`);
+    }
+    writeCollection(CONTACTS, contacts.filter(item => item.id !== id));
+
+    // Unlink the contact from its applications without touching their updatedAt
+    writeCollection(
+      APPLICATIONS,
+      readCollection<JobApplication>(APPLICATIONS).map(app =>
+        app.contactIds?.includes(id)
+          ? { ...app, contactIds: app.contactIds.filter(contactId => contactId !== id) }
+          : app
+      )
+    );
+  }
+}
+
+export default LocalContactRepository;
@@ -0,0 +1,53 @@
+import { Interview, CreateInterviewDto, UpdateInterviewDto } from '../types/Interview';
+import { InterviewRepository } from './InterviewRepository';
+import { readCollection, writeCollection, nextId, notFoundError } from './localStore';
+
+export const INTERVIEWS = 'interviews';
+
+// Interview repository stored in localStorage alongside LocalJobApplicationRepository
+export class LocalInterviewRepository implements InterviewRepository {
+  async getAll(): Promise<Interview[]> {
+    return readCollection<Interview>(INTERVIEWS);
+  }
+
+  async getByApplicationId(jobApplicationId: number): Promise<Interview[]> {
+    return readCollection<Interview>(INTERVIEWS).filter(
+      interview => interview.jobApplicationId === jobApplicationId
+    );
+  }
+
+  async create(jobApplicationId: number, interview: CreateInterviewDto): Promise<Interview> {
+    const now = new Date().toISOString();
+    const created: Interview = {
+      ...interview,
+      id: nextId(INTERVIEWS),
+      jobApplicationId,
+      createdAt: now,
+      updatedAt: now
+    };
+    writeCollection(INTERVIEWS, [...readCollection<Interview>(INTERVIEWS), created]);
+    return created;
+  }
+
+  async update(id: number, interview: UpdateInterviewDto): Promise<Interview> {
+    const interviews = readCollection<Interview>(INTERVIEWS);
+    const existing = interviews.find(item => item.id === id);
+    if (!existing) {
+      throw notFoundError(`Interview ${id} not found`);
+    }
+
+    const updated: Interview = { ...existing, ...interview, updatedAt: new Date().toISOString() };
+    writeCollection(INTERVIEWS, interviews.map(item => (item.id === id ? updated : item)));
+    return updated;
+  }
+
+  async delete(id: number): Promise<void> {
+    const interviews = readCollection<Interview>(INTERVIEWS);
+    if (!interviews.some(item => item.id === id)) {
+      throw notFoundError(`Interview ${id} not found`);
+    }
+    writeCollection(INTERVIEWS, interviews.filter(item => item.id !== id));
+  }
+}
+
+export default LocalInterviewRepository;
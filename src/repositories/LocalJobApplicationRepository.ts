@@ -0,0 +1,155 @@
+import {
+  JobApplication,
+  ApplicationStatus,
+  CreateJobApplicationDto,
+  UpdateJobApplicationDto,
+  JobApplicationQueryParams,
+  PaginatedResponse,
+  JobApplicationPatch,
+  UpdateOptions,
+  StatusUpdateOptions
+} from '../types/JobApplication';
+import { StatusChange } from '../types/StatusChange';
+import { Interview } from '../types/Interview';
+import { Note } from '../types/Note';
+import { JobApplicationRepository } from './JobApplicationRepository';
+import { readCollection, writeCollection, nextId, notFoundError, conflictError } from './localStore';
+import { queryJobApplications } from './localQuery';
+import { INTERVIEWS } from './LocalInterviewRepository';
+import { NOTES } from './LocalNoteRepository';
+
+const APPLICATIONS = 'applications';
+const STATUS_HISTORY = 'statusHistory';
+
+/**
+ * Job application repository stored in the browser's localStorage, for demos,
+ * offline development and testing without the backend. Ids are sequential and
+ * createdAt/updatedAt are server-style ISO timestamps, matching the API.
+ */
+export class LocalJobApplicationRepository implements JobApplicationRepository {
+  async getAll(): Promise<JobApplication[]> {
+    return readCollection<JobApplication>(APPLICATIONS);
+  }
+
+  async getPaged(params: JobApplicationQueryParams): Promise<PaginatedResponse<JobApplication>> {
+    // Search also matches note text, as the API does
+    const noteText = new Map<number, string>();
+    readCollection<Note>(NOTES).forEach(note => {
+      noteText.set(note.jobApplicationId, `${noteText.get(note.jobApplicationId) || ''}\n${note.body}`);
+    });
+    return queryJobApplications(
+      readCollection<JobApplication>(APPLICATIONS),
+      params,
+      app => noteText.get(app.id) || ''
+    );
+  }
+
+  async getById(id: number): Promise<JobApplication> {
+    const app = readCollection<JobApplication>(APPLICATIONS).find(item => item.id === id);
+    if (!app) {
+      throw notFoundError(`Job application ${id} not found`);
+    }
+    return app;
+  }
+
+  async create(jobApplication: CreateJobApplicationDto): Promise<JobApplication> {
+    const now = new Date().toISOString();
+    const app: JobApplication = {
+      ...jobApplication,
+      id: nextId(APPLICATIONS),
+      createdAt: now,
+      updatedAt: now
+    };
+    writeCollection(APPLICATIONS, [...readCollection<JobApplication>(APPLICATIONS), app]);
+    this.recordStatusChange(app.id, null, app.status);
+    return app;
+  }
+
+  async update(
+    id: number,
+    jobApplication: UpdateJobApplicationDto,
+    options: UpdateOptions = {}
+  ): Promise<JobApplication> {
+    return this.patch(id, jobApplication, options);
+  }
+
+  async patch(id: number, changes: JobApplicationPatch, options: UpdateOptions = {}): Promise<JobApplication> {
+    const applications = readCollection<JobApplication>(APPLICATIONS);
+    const existing = applications.find(item => item.id === id);
+    if (!existing) {
+      throw notFoundError(`Job application ${id} not found`);
+    }
+    // Another tab shares this storage and may have saved the application since it was loaded
+    if (options.expectedUpdatedAt !== undefined && options.expectedUpdatedAt !== existing.updatedAt) {
+      throw conflictError(`Job application ${id} was changed since it was loaded`);
+    }
+
+    const updated: JobApplication = {
+      ...existing,
+      ...changes,
+      updatedAt: new Date().toISOString()
+    };
+    writeCollection(APPLICATIONS, applications.map(item => (item.id === id ? updated : item)));
+
+    const previousStatus = options.previousStatus ?? existing.status;
+    if (previousStatus !== updated.status) {
+      this.recordStatusChange(id, previousStatus, updated.status, options.statusNote);
+    }
+    return updated;
+  }
+
+  async delete(id: number): Promise<void> {
+    const applications = readCollection<JobApplication>(APPLICATIONS);
+    if (!applications.some(item => item.id === id)) {
+      throw notFoundError(`Job application ${id} not found`);
+    }
+    writeCollection(APPLICATIONS, applications.filter(item => item.id !== id));
+    writeCollection(
+      STATUS_HISTORY,
+      readCollection<StatusChange>(STATUS_HISTORY).filter(entry => entry.jobApplicationId !== id)
+    );
+    writeCollection(
+      INTERVIEWS,
+      readCollection<Interview>(INTERVIEWS).filter(interview => interview.jobApplicationId !== id)
+    );
+    writeCollection(NOTES, readCollection<Note>(NOTES).filter(note => note.jobApplicationId !== id));
+  }
+
+  async updateStatus(
+    id: number,
+    status: ApplicationStatus,
+    options: StatusUpdateOptions = {}
+  ): Promise<JobApplication> {
+    const current = await this.getById(id);
+    return this.patch(id, { status }, { ...options, previousStatus: current.status });
+  }
+
+  async getStatusHistory(jobApplicationId: number): Promise<StatusChange[]> {
+    return readCollection<StatusChange>(STATUS_HISTORY).filter(
+      entry => entry.jobApplicationId === jobApplicationId
+    );
+  }
+
+  async getAllStatusHistory(): Promise<StatusChange[]> {
+    return readCollection<StatusChange>(STATUS_HISTORY);
+  }
+
+  private recordStatusChange(
+    jobApplicationId: number,
+    fromStatus: ApplicationStatus | null,
+    toStatus: ApplicationStatus,
+    note?: string
+  ): void {
+    const entry: StatusChange = {
+      id: nextId(STATUS_HISTORY),
+      jobApplicationId,
+      fromStatus,
+      toStatus,
+      changedAt: new Date().toISOString(),
+      note: note && note.trim() ? note.trim() : undefined
+    };
+    writeCollection(STATUS_HISTORY, [...readCollection<StatusChange>(STATUS_HISTORY), entry]);
+  }
+}
+
+export default LocalJobApplicationRepository;
@@ -0,0 +1,57 @@
+import { Note, CreateNoteDto, UpdateNoteDto, sortNotesNewestFirst } from '../types/Note';
+import { NoteRepository } from './NoteRepository';
+import { readCollection, writeCollection, nextId, notFoundError } from './localStore';
+
+export const NOTES = 'notes';
+
+// Note repository stored in localStorage alongside LocalJobApplicationRepository
+export class LocalNoteRepository implements NoteRepository {
+  async getByApplicationId(jobApplicationId: number): Promise<Note[]> {
+    return readCollection<Note>(NOTES).filter(note => note.jobApplicationId === jobApplicationId);
+  }
+
+  async getLatestByApplicationIds(jobApplicationIds: number[]): Promise<Note[]> {
+    const latest = new Map<number, Note>();
+    sortNotesNewestFirst(readCollection<Note>(NOTES)).forEach(note => {
+      if (jobApplicationIds.includes(note.jobApplicationId) && !latest.has(note.jobApplicationId)) {
+        latest.set(note.jobApplicationId, note);
+      }
+    });
+    return Array.from(latest.values());
+  }
+
+  async create(jobApplicationId: number, note: CreateNoteDto): Promise<Note> {
+    const now = new Date().toISOString();
+    const created: Note = {
+      ...note,
+      id: nextId(NOTES),
+      jobApplicationId,
+      createdAt: now,
+      updatedAt: now
+    };
+    writeCollection(NOTES, [...readCollection<Note>(NOTES), created]);
+    return created;
+  }
+
+  async update(id: number, note: UpdateNoteDto): Promise<Note> {
+    const notes = readCollection<Note>(NOTES);
+    const existing = notes.find(item => item.id === id);
+    if (!existing) {
+      throw notFoundError(`Note ${id} not found`);
+    }
+
+    const updated: Note = { ...existing, ...note, updatedAt: new Date().toISOString() };
+    writeCollection(NOTES, notes.map(item => (item.id === id ? updated : item)));
+    return updated;
+  }
+
+  async delete(id: number): Promise<void> {
+    const notes = readCollection<Note>(NOTES);
+    if (!notes.some(item => item.id === id)) {
+      throw notFoundError(`Note ${id} not found`);
+    }
+    writeCollection(NOTES, notes.filter(item => item.id !== id));
+  }
+}
+
+export default LocalNoteRepository;
@@ -0,0 +1,10 @@
+import { Note, CreateNoteDto, UpdateNoteDto } from '../types/Note';
+
+// Storage backend for notes written against job applications
+export interface NoteRepository {
+  getByApplicationId(jobApplicationId: number, signal?: AbortSignal): Promise<Note[]>;
+  getLatestByApplicationIds(jobApplicationIds: number[], signal?: AbortSignal): Promise<Note[]>;
+  create(jobApplicationId: number, note: CreateNoteDto, signal?: AbortSignal): Promise<Note>;
+  update(id: number, note: UpdateNoteDto, signal?: AbortSignal): Promise<Note>;
+  delete(id: number, signal?: AbortSignal): Promise<void>;
+}
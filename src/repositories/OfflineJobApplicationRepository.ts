@@ -0,0 +1,513 @@
+import {
+  JobApplication,
+  ApplicationStatus,
+  CreateJobApplicationDto,
+  UpdateJobApplicationDto,
+  JobApplicationQueryParams,
+  PaginatedResponse,
+  JobApplicationPatch,
+  UpdateOptions,
+  StatusUpdateOptions
+} from '../types/JobApplication';
+import { StatusChange } from '../types/StatusChange';
+import {
+  isNetworkError,
+  isTimeoutError,
+  isAuthError,
+  isNotFoundError,
+  isAbortError,
+  getErrorMessage
+} from '../services/ApiError';
+import { JobApplicationRepository } from './JobApplicationRepository';
+import { readCollection, writeCollection, nextId, notFoundError, acquireLease } from './localStore';
+import { queryJobApplications } from './localQuery';
+
+// localStorage collections used for the read cache and the mutation log
+const CACHED_APPLICATIONS = 'offlineCache.applications';
+const CACHED_STATUS_HISTORY = 'offlineCache.statusHistory';
+const MUTATION_QUEUE = 'offlineQueue';
+const TEMP_IDS = 'offlineTempIds';
+
+// Only one tab replays the queue at a time. Browsers without the Web Locks API fall back to a
+// lease in localStorage, renewed while the replay runs.
+const SYNC_LOCK = 'offlineQueue.sync';
+const SYNC_LEASE_MS = 30000;
+
+interface QueuedMutationBase {
+  seq: number;
+  queuedAt: string;
+}
+
+// A change made while offline, waiting to be replayed against the server in order
+export type QueuedMutation = QueuedMutationBase & (
+  | { type: 'create'; tempId: number; payload: CreateJobApplicationDto }
+  | { type: 'update'; targetId: number; payload: UpdateJobApplicationDto; options: UpdateOptions }
+  | { type: 'patch'; targetId: number; payload: JobApplicationPatch; options: UpdateOptions }
+  | { type: 'updateStatus'; targetId: number; status: ApplicationStatus; options: StatusUpdateOptions }
+  | { type: 'delete'; targetId: number }
+);
+
+// Distributes Omit over the union so each variant keeps its own fields
+type NewMutation = QueuedMutation extends infer M
+  ? M extends QueuedMutation ? Omit<M, 'seq' | 'queuedAt'> : never
+  : never;
+
+export interface SyncFailure {
+  mutation: QueuedMutation;
+  message: string;
+}
+
+export interface OfflineSyncState {
+  isOnline: boolean;
+  isSyncing: boolean;
+  pendingCount: number;
+  failures: SyncFailure[];
+}
+
+type SyncListener = (state: OfflineSyncState) => void;
+
+/**
+ * Offline-first decorator around the HTTP repository.
+ *
+ * Reads go to the server and refresh a local cache, with any queued changes laid over
+ * the result; when the server can't be reached they are answered from that cache
+ * instead. Writes that fail for network reasons are applied to the cache immediately
+ * and appended to a durable mutation log, which is replayed in order when connectivity
+ * returns. Records created offline get negative temporary ids that are swapped for
+ * real ids as their creates are replayed.
+ */
+export class OfflineJobApplicationRepository implements JobApplicationRepository {
+  private isSyncing = false;
+  private failures: SyncFailure[] = [];
+  private listeners = new Set<SyncListener>();
+
+  constructor(private readonly inner: JobApplicationRepository) {
+    window.addEventListener('online', () => {
+      this.notify();
+      this.flush();
+    });
+    window.addEventListener('offline', () => this.notify());
+    // Another tab may have queued or replayed changes
+    window.addEventListener('storage', () => this.notify());
+
+    // Replay anything left over from a previous session
+    setTimeout(() => this.flush(), 0);
+  }
+
+  getSyncState(): OfflineSyncState {
+    return {
+      isOnline: navigator.onLine,
+      isSyncing: this.isSyncing,
+      pendingCount: this.queue().length,
+      failures: this.failures
+    };
+  }
+
+  subscribe(listener: SyncListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  dismissFailures(): void {
+    this.failures = [];
+    this.notify();
+  }
+
+  /**
+   * Replay queued mutations in order. Stops at the first network failure so the rest
+   * stay queued; mutations the server rejects are dropped and reported as failures.
+   * Does nothing while another tab is already replaying the shared queue.
+   */
+  async flush(): Promise<void> {
+    if (this.isSyncing || !navigator.onLine || this.queue().length === 0) return;
+
+    await this.withSyncLock(async () => {
+      this.isSyncing = true;
+      this.notify();
+
+      try {
+        let mutation: QueuedMutation | undefined;
+        while ((mutation = this.queue()[0])) {
+          try {
+            await this.replay(mutation);
+          } catch (error) {
+            // A create that timed out may have been saved anyway, so it is reported rather than sent twice
+            const mayHaveApplied = mutation.type === 'create' && isTimeoutError(error);
+            // Keep the change queued until we're back online or signed in again
+            if ((isNetworkError(error) && !mayHaveApplied) || isAuthError(error)) break;
+            console.error('Dropping queued change rejected by the server:', error);
+            const message = mayHaveApplied
+              ? 'The server took too long to respond, so this application may not have been saved. Check before adding it again.'
+              : getErrorMessage(error, 'Change rejected');
+            this.failures = [...this.failures, { mutation, message }];
+            // Nothing queued after a dropped create has a record on the server to apply to
+            if (mutation.type === 'create') this.discardTempRecord(mutation.tempId);
+          }
+          const replayed = mutation;
+          this.saveQueue(this.queue().filter(item => item.seq !== replayed.seq));
+          this.notify();
+        }
+      } finally {
+        this.isSyncing = false;
+        this.notify();
+      }
+    });
+  }
+
+  /**
+   * Forget the cached data and any queued changes, e.g. when a different user signs in
+   */
+  clear(): void {
+    writeCollection(CACHED_APPLICATIONS, []);
+    writeCollection(CACHED_STATUS_HISTORY, []);
+    this.saveQueue([]);
+    this.failures = [];
+    this.notify();
+  }
+
+  async getAll(signal?: AbortSignal): Promise<JobApplication[]> {
+    return this.read(
+      () => this.inner.getAll(signal),
+      applications => writeCollection(CACHED_APPLICATIONS, applications),
+      () => {
+        const cached = this.cachedApplications();
+        return cached.length > 0 ? cached : undefined;
+      },
+      // Include records created offline that the server doesn't know about yet
+      (applications, queue) => [...this.withPendingChanges(applications, queue), ...this.pendingCreates(queue)]
+    );
+  }
+
+  async getPaged(
+    params: JobApplicationQueryParams,
+    signal?: AbortSignal
+  ): Promise<PaginatedResponse<JobApplication>> {
+    return this.read(
+      () => this.inner.getPaged(params, signal),
+      page => page.data.forEach(app => this.cacheApplication(app)),
+      () => {
+        const cached = this.cachedApplications();
+        return cached.length > 0 ? queryJobApplications(cached, params) : undefined;
+      },
+      (page, queue) => {
+        const data = this.withPendingChanges(page.data, queue);
+        if (page.page !== 1) return { ...page, data };
+
+        // Records created offline that match the query go at the top of the first page
+        const pending = this.pendingCreates(queue);
+        const created = queryJobApplications(pending, { ...params, page: 1, pageSize: pending.length || 1 });
+        return { ...page, data: [...created.data, ...data], totalCount: page.totalCount + created.totalCount };
+      }
+    );
+  }
+
+  async getById(id: number, signal?: AbortSignal): Promise<JobApplication> {
+    const fromCache = () => this.cachedApplications().find(app => app.id === id);
+
+    // A record created offline only exists here until its create is replayed
+    if (id < 0) {
+      const cached = fromCache();
+      if (!cached) throw notFoundError(`Job application ${id} not found`);
+      return cached;
+    }
+
+    return this.read(
+      () => this.inner.getById(id, signal),
+      app => this.cacheApplication(app),
+      fromCache,
+      (app, queue) => {
+        const [pending] = this.withPendingChanges([app], queue);
+        if (!pending) throw notFoundError(`Job application ${id} not found`);
+        return pending;
+      }
+    );
+  }
+
+  async getStatusHistory(jobApplicationId: number, signal?: AbortSignal): Promise<StatusChange[]> {
+    return this.read(
+      () => this.inner.getStatusHistory(jobApplicationId, signal),
+      history => writeCollection(CACHED_STATUS_HISTORY, [
+        ...this.cachedHistory().filter(entry => entry.jobApplicationId !== jobApplicationId),
+        ...history
+      ]),
+      () => this.cachedHistory().filter(entry => entry.jobApplicationId === jobApplicationId)
+    );
+  }
+
+  async getAllStatusHistory(signal?: AbortSignal): Promise<StatusChange[]> {
+    return this.read(
+      () => this.inner.getAllStatusHistory(signal),
+      history => writeCollection(CACHED_STATUS_HISTORY, history),
+      () => this.cachedHistory()
+    );
+  }
+
+  async create(jobApplication: CreateJobApplicationDto, signal?: AbortSignal): Promise<JobApplication> {
+    return this.write(
+      () => this.inner.create(jobApplication, signal),
+      () => {
+        const now = new Date().toISOString();
+        const app: JobApplication = { ...jobApplication, id: -nextId(TEMP_IDS), createdAt: now, updatedAt: now };
+        this.enqueue({ type: 'create', tempId: app.id, payload: jobApplication });
+        return app;
+      },
+      // A create that timed out may have reached the server, and replaying it would add a duplicate
+      error => isNetworkError(error) && !isTimeoutError(error)
+    );
+  }
+
+  async update(
+    id: number,
+    jobApplication: UpdateJobApplicationDto,
+    options: UpdateOptions = {},
+    signal?: AbortSignal
+  ): Promise<JobApplication> {
+    return this.write(
+      () => this.inner.update(id, jobApplication, options, signal),
+      () => {
+        const app = { ...this.requireCached(id), ...jobApplication, updatedAt: new Date().toISOString() };
+        this.enqueue({ type: 'update', targetId: id, payload: jobApplication, options: this.queuedOptions(id, options) });
+        return app;
+      }
+    );
+  }
+
+  async patch(
+    id: number,
+    changes: JobApplicationPatch,
+    options: UpdateOptions = {},
+    signal?: AbortSignal
+  ): Promise<JobApplication> {
+    return this.write(
+      () => this.inner.patch(id, changes, options, signal),
+      () => {
+        const app = { ...this.requireCached(id), ...changes, updatedAt: new Date().toISOString() };
+        this.enqueue({ type: 'patch', targetId: id, payload: changes, options: this.queuedOptions(id, options) });
+        return app;
+      }
+    );
+  }
+
+  async updateStatus(
+    id: number,
+    status: ApplicationStatus,
+    options: StatusUpdateOptions = {},
+    signal?: AbortSignal
+  ): Promise<JobApplication> {
+    return this.write(
+      () => this.inner.updateStatus(id, status, options, signal),
+      () => {
+        const app = { ...this.requireCached(id), status, updatedAt: new Date().toISOString() };
+        this.enqueue({ type: 'updateStatus', targetId: id, status, options: this.queuedOptions(id, options) });
+        return app;
+      }
+    );
+  }
+
+  async delete(id: number, signal?: AbortSignal): Promise<void> {
+    const removeFromCache = () =>
+      writeCollection(CACHED_APPLICATIONS, this.cachedApplications().filter(app => app.id !== id));
+
+    // A record that only exists offline can simply be dropped along with its queued changes
+    if (id < 0) {
+      this.discardTempRecord(id);
+      this.notify();
+      return;
+    }
+
+    if (this.queue().length === 0 && navigator.onLine) {
+      try {
+        await this.inner.delete(id, signal);
+        removeFromCache();
+        return;
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+      }
+    }
+
+    this.enqueue({ type: 'delete', targetId: id });
+    removeFromCache();
+  }
+
+  private async read<T>(
+    remote: () => Promise<T>,
+    store: (result: T) => void,
+    fromCache: () => T | undefined,
+    applyQueue: (result: T, queue: QueuedMutation[]) => T = result => result
+  ): Promise<T> {
+    try {
+      // Changes still waiting to be replayed are shown on top of the server's current data
+      const result = await remote();
+      const queue = this.queue();
+      const withQueue = queue.length > 0 ? applyQueue(result, queue) : result;
+      store(withQueue);
+      return withQueue;
+    } catch (error) {
+      // A cancelled read has no caller left to answer, so don't fall back to the cache
+      if (isAbortError(error) || !isNetworkError(error)) throw error;
+      const cached = fromCache();
+      if (cached === undefined) throw error;
+      return cached;
+    }
+  }
+
+  private async write(
+    remote: () => Promise<JobApplication>,
+    queueOffline: () => JobApplication,
+    canQueue: (error: unknown) => boolean = isNetworkError
+  ): Promise<JobApplication> {
+    // Anything already queued must reach the server first, so queue behind it
+    if (this.queue().length === 0 && navigator.onLine) {
+      try {
+        const result = await remote();
+        this.cacheApplication(result);
+        return result;
+      } catch (error) {
+        if (!canQueue(error)) throw error;
+      }
+    }
+
+    const optimistic = queueOffline();
+    this.cacheApplication(optimistic);
+    return optimistic;
+  }
+
+  // Run a replay unless another tab holds the sync lock
+  private async withSyncLock(replayQueue: () => Promise<void>): Promise<void> {
+    if (navigator.locks) {
+      await navigator.locks.request(SYNC_LOCK, { ifAvailable: true }, async lock => {
+        if (lock) await replayQueue();
+      });
+      return;
+    }
+
+    const lease = acquireLease(SYNC_LOCK, SYNC_LEASE_MS);
+    if (!lease) return;
+    const renewal = window.setInterval(() => lease.renew(), SYNC_LEASE_MS / 3);
+    try {
+      await replayQueue();
+    } finally {
+      window.clearInterval(renewal);
+      lease.release();
+    }
+  }
+
+  private async replay(mutation: QueuedMutation): Promise<void> {
+    switch (mutation.type) {
+      case 'create': {
+        const created = await this.inner.create(mutation.payload);
+        this.replaceTempId(mutation.tempId, created);
+        break;
+      }
+      case 'update':
+        this.cacheApplication(await this.inner.update(mutation.targetId, mutation.payload, mutation.options));
+        break;
+      case 'patch':
+        this.cacheApplication(await this.inner.patch(mutation.targetId, mutation.payload, mutation.options));
+        break;
+      case 'updateStatus':
+        this.cacheApplication(await this.inner.updateStatus(mutation.targetId, mutation.status, mutation.options));
+        break;
+      case 'delete':
+        try {
+          await this.inner.delete(mutation.targetId);
+        } catch (error) {
+          // Already gone on the server - that's the outcome we wanted
+          if (!isNotFoundError(error)) throw error;
+        }
+        break;
+    }
+  }
+
+  // Point queued changes and the cache at the real id once an offline create reaches the server
+  private replaceTempId(tempId: number, created: JobApplication): void {
+    this.saveQueue(this.queue().map(m =>
+      m.type !== 'create' && m.targetId === tempId ? { ...m, targetId: created.id } : m
+    ));
+    writeCollection(
+      CACHED_APPLICATIONS,
+      this.cachedApplications().map(app => (app.id === tempId ? created : app))
+    );
+  }
+
+  // Applications as they will be once the queued changes to them reach the server
+  private withPendingChanges(applications: JobApplication[], queue: QueuedMutation[]): JobApplication[] {
+    return applications.flatMap(app => {
+      let pending: JobApplication | undefined = app;
+      for (const mutation of queue) {
+        if (!pending || mutation.type === 'create' || mutation.targetId !== app.id) continue;
+        if (mutation.type === 'delete') pending = undefined;
+        else if (mutation.type === 'updateStatus') pending = { ...pending, status: mutation.status };
+        else pending = { ...pending, ...mutation.payload };
+      }
+      return pending ? [pending] : [];
+    });
+  }
+
+  // Records created offline whose creates are still queued, with any later queued changes applied
+  private pendingCreates(queue: QueuedMutation[]): JobApplication[] {
+    const tempIds = new Set(queue.flatMap(m => (m.type === 'create' ? [m.tempId] : [])));
+    return this.cachedApplications().filter(app => tempIds.has(app.id));
+  }
+
+  // Forget a record created offline, along with every queued change to it
+  private discardTempRecord(tempId: number): void {
+    this.saveQueue(this.queue().filter(m => !(m.type === 'create' ? m.tempId === tempId : m.targetId === tempId)));
+    writeCollection(CACHED_APPLICATIONS, this.cachedApplications().filter(app => app.id !== tempId));
+  }
+
+  // Only the first queued change to an application can check the server version it was based on;
+  // later ones build on that queued change, whose updatedAt is a local guess the server never had
+  private queuedOptions<O extends StatusUpdateOptions>(id: number, options: O): O {
+    const buildsOnQueued = id < 0 || this.queue().some(m => m.type !== 'create' && m.targetId === id);
+    return buildsOnQueued ? { ...options, expectedUpdatedAt: undefined } : options;
+  }
+
+  private enqueue(mutation: NewMutation): void {
+    const queued = { ...mutation, seq: nextId(MUTATION_QUEUE), queuedAt: new Date().toISOString() } as QueuedMutation;
+    this.saveQueue([...this.queue(), queued]);
+    this.notify();
+  }
+
+  private requireCached(id: number): JobApplication {
+    const app = this.cachedApplications().find(item => item.id === id);
+    if (!app) {
+      throw notFoundError(`Job application ${id} is not available offline`);
+    }
+    return app;
+  }
+
+  private cacheApplication(app: JobApplication): void {
+    const cached = this.cachedApplications();
+    const exists = cached.some(item => item.id === app.id);
+    writeCollection(
+      CACHED_APPLICATIONS,
+      exists ? cached.map(item => (item.id === app.id ? app : item)) : [...cached, app]
+    );
+  }
+
+  private cachedApplications(): JobApplication[] {
+    return readCollection<JobApplication>(CACHED_APPLICATIONS);
+  }
+
+  private cachedHistory(): StatusChange[] {
+    return readCollection<StatusChange>(CACHED_STATUS_HISTORY);
+  }
+
+  private queue(): QueuedMutation[] {
+    return readCollection<QueuedMutation>(MUTATION_QUEUE);
+  }
+
+  private saveQueue(queue: QueuedMutation[]): void {
+    writeCollection(MUTATION_QUEUE, queue);
+  }
+
+  private notify(): void {
+    const state = this.getSyncState();
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+export default OfflineJobApplicationRepository;
@@ -0,0 +1,42 @@
+import { JobApplicationRepository } from './JobApplicationRepository';
+import HttpJobApplicationRepository from './HttpJobApplicationRepository';
+import LocalJobApplicationRepository from './LocalJobApplicationRepository';
+import OfflineJobApplicationRepository from './OfflineJobApplicationRepository';
+import { InterviewRepository } from './InterviewRepository';
+import HttpInterviewRepository from './HttpInterviewRepository';
+import LocalInterviewRepository from './LocalInterviewRepository';
+import { NoteRepository } from './NoteRepository';
+import HttpNoteRepository from './HttpNoteRepository';
+import LocalNoteRepository from './LocalNoteRepository';
+import { ContactRepository } from './ContactRepository';
+import HttpContactRepository from './HttpContactRepository';
+import LocalContactRepository from './LocalContactRepository';
+
+export type DataSource = 'api' | 'local';
+
+// REACT_APP_DATA_SOURCE=local keeps all data in the browser; anything else uses the REST API
+export const DATA_SOURCE: DataSource =
+  process.env.REACT_APP_DATA_SOURCE?.trim().toLowerCase() === 'local' ? 'local' : 'api';
+
+// The API is wrapped so reads fall back to a local cache and writes queue while offline
+const offlineRepository: OfflineJobApplicationRepository | null =
+  DATA_SOURCE === 'api' ? new OfflineJobApplicationRepository(new HttpJobApplicationRepository()) : null;
+
+// Repository instance used by the services
+export const jobApplicationRepository: JobApplicationRepository =
+  offlineRepository ?? new LocalJobApplicationRepository();
+
+// Sync state and manual flush for the offline queue; null when data never leaves the browser
+export const offlineSync = offlineRepository;
+
+export const interviewRepository: InterviewRepository =
+  DATA_SOURCE === 'local' ? new LocalInterviewRepository() : new HttpInterviewRepository();
+
+export const noteRepository: NoteRepository =
+  DATA_SOURCE === 'local' ? new LocalNoteRepository() : new HttpNoteRepository();
+
+export const contactRepository: ContactRepository =
+  DATA_SOURCE === 'local' ? new LocalContactRepository() : new HttpContactRepository();
+
+export type { JobApplicationRepository, InterviewRepository, NoteRepository, ContactRepository };
+export type { OfflineSyncState, SyncFailure } from './OfflineJobApplicationRepository';
@@ -0,0 +1,73 @@
+import {
+  JobApplication,
+  JobApplicationFilters,
+  JobApplicationQueryParams,
+  PaginatedResponse,
+  sortJobApplications
+} from '../types/JobApplication';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Apply list filters the same way the API does
+const matchesFilters = (
+  app: JobApplication,
+  filters: JobApplicationFilters,
+  getExtraSearchText: (app: JobApplication) => string
+): boolean => {
+  if (filters.search) {
+    const search = filters.search.toLowerCase();
+    const haystack = [app.company, app.position, app.location || '', getExtraSearchText(app)];
+    if (!haystack.some(value => value.toLowerCase().includes(search))) {
+      return false;
+    }
+  }
+  if (filters.statuses && filters.statuses.length > 0 && !filters.statuses.includes(app.status)) {
+    return false;
+  }
+  if (filters.workModes && filters.workModes.length > 0 && (!app.workMode || !filters.workModes.includes(app.workMode))) {
+    return false;
+  }
+  if (filters.sources && filters.sources.length > 0 && (!app.source || !filters.sources.includes(app.source))) {
+    return false;
+  }
+  if (filters.location && !(app.location || '').toLowerCase().includes(filters.location.toLowerCase())) {
+    return false;
+  }
+  const appliedDate = app.dateApplied.slice(0, 10);
+  if (filters.dateAppliedFrom && appliedDate < filters.dateAppliedFrom) {
+    return false;
+  }
+  if (filters.dateAppliedTo && appliedDate > filters.dateAppliedTo) {
+    return false;
+  }
+  if (filters.updatedWithinDays) {
+    const cutoff = Date.now() - filters.updatedWithinDays * MS_PER_DAY;
+    if (new Date(app.updatedAt).getTime() < cutoff) {
+      return false;
+    }
+  }
+  return true;
+};
+
+// Filter, sort and page an in-memory list the way the API's paged endpoint does.
+// getExtraSearchText supplies related text (such as notes) the search should also match.
+export const queryJobApplications = (
+  applications: JobApplication[],
+  params: JobApplicationQueryParams,
+  getExtraSearchText: (app: JobApplication) => string = () => ''
+): PaginatedResponse<JobApplication> => {
+  const { page, pageSize, sort = [], ...filters } = params;
+  const matching = sortJobApplications(
+    applications.filter(app => matchesFilters(app, filters, getExtraSearchText)),
+    sort
+  );
+  const start = (page - 1) * pageSize;
+
+  return {
+    data: matching.slice(start, start + pageSize),
+    totalCount: matching.length,
+    page,
+    pageSize,
+    totalPages: Math.ceil(matching.length / pageSize)
+  };
+};
@@ -0,0 +1,71 @@
+import { ApiError } from '../services/ApiError';
+
+// Small helpers for persisting collections in localStorage under a shared prefix
+
+const STORAGE_PREFIX = 'jobApplicationTracker.';
+
+// Read a stored collection, treating missing or corrupt data as empty
+export const readCollection = <T>(name: string): T[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + name);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const writeCollection = <T>(name: string, items: T[]): void => {
+  localStorage.setItem(STORAGE_PREFIX + name, JSON.stringify(items));
+};
+
+// Next identity value for a collection, mirroring an auto-increment database column
+export const nextId = (name: string): number => {
+  const key = `${STORAGE_PREFIX}${name}.nextId`;
+  const current = parseInt(localStorage.getItem(key) || '') || 1;
+  localStorage.setItem(key, (current + 1).toString());
+  return current;
+};
+
+// Same error the API client throws for a 404, so callers can treat local and remote misses the same way
+export const notFoundError = (message: string): ApiError =>
+  new ApiError(message, { status: 404, kind: 'notFound' });
+
+// Same error the API client throws for a 412, e.g. when another tab saved the record first
+export const conflictError = (message: string): ApiError =>
+  new ApiError(message, { status: 412, kind: 'conflict' });
+
+// A time-limited claim on some work that only one tab should do at a time
+export interface StorageLease {
+  renew(): void;
+  release(): void;
+}
+
+// Claim a lease shared by every tab of the app. Returns undefined while another tab holds an
+// unexpired one; a tab that closes without releasing its lease loses it once it expires.
+export const acquireLease = (name: string, durationMs: number): StorageLease | undefined => {
+  const key = `${STORAGE_PREFIX}${name}.lease`;
+  const owner = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  const holder = (): { owner: string; expiresAt: number } | null => {
+    try {
+      return JSON.parse(localStorage.getItem(key) || 'null');
+    } catch {
+      return null;
+    }
+  };
+  const claim = () => localStorage.setItem(key, JSON.stringify({ owner, expiresAt: Date.now() + durationMs }));
+
+  const current = holder();
+  if (current && current.expiresAt > Date.now()) return undefined;
+  claim();
+  // Another tab may have claimed it in the same moment; whoever wrote last keeps it
+  if (holder()?.owner !== owner) return undefined;
+
+  return {
+    renew: () => {
+      if (holder()?.owner === owner) claim();
+    },
+    release: () => {
+      if (holder()?.owner === owner) localStorage.removeItem(key);
+    }
+  };
+};
@@ -0,0 +1,31 @@
+/**
+ * Register the service worker in public/service-worker.js so the app shell loads
+ * offline. Only production builds register it; in development it would serve stale
+ * bundles over the dev server. The API base URL is passed along so the worker never
+ * intercepts API requests.
+ */
+export const register = () => {
+  if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) {
+    return;
+  }
+
+  window.addEventListener('load', () => {
+    const apiBase = encodeURIComponent(process.env.REACT_APP_API_BASE_URL || '');
+    navigator.serviceWorker
+      .register(`${process.env.PUBLIC_URL}/service-worker.js?apiBase=${apiBase}`)
+      .catch(error => {
+        console.error('Error registering service worker:', error);
+      });
+  });
+};
+
+// Remove any registered service worker, e.g. when switching back to online-only
+export const unregister = () => {
+  if ('serviceWorker' in navigator) {
+    navigator.serviceWorker.ready
+      .then(registration => registration.unregister())
+      .catch(error => {
+        console.error('Error unregistering service worker:', error);
+      });
+  }
+};
@@ -0,0 +1,198 @@
+import axios from 'axios';
+
+// Broad category of a failed request, for deciding how to react without parsing messages
+export type ApiErrorKind =
+  | 'network' // No response: offline, DNS failure, CORS, server down
+  | 'timeout'
+  | 'aborted' // Cancelled by the caller through an AbortSignal
+  | 'unauthorized' // 401
+  | 'forbidden' // 403
+  | 'notFound' // 404
+  | 'conflict' // 409, or 412 when an If-Match precondition fails
+  | 'validation' // 400 / 422
+  | 'server' // 5xx
+  | 'unknown';
+
+/**
+ * RFC 7807 problem details, as returned by the backend. Validation failures add
+ * `errors`, keyed by field name, with one or more messages per field.
+ */
+export interface ProblemDetails {
+  type?: string;
+  title?: string;
+  status?: number;
+  detail?: string;
+  instance?: string;
+  errors?: Record<string, string[]>;
+  message?: string; // Older endpoints return { message } instead of problem details
+  [extension: string]: unknown;
+}
+
+interface ApiErrorOptions {
+  status?: number | null;
+  kind: ApiErrorKind;
+  problem?: ProblemDetails | null;
+}
+
+const kindFromStatus = (status: number): ApiErrorKind => {
+  if (status === 400 || status === 422) return 'validation';
+  if (status === 401) return 'unauthorized';
+  if (status === 403) return 'forbidden';
+  if (status === 404) return 'notFound';
+  if (status === 409 || status === 412) return 'conflict';
+  if (status >= 500) return 'server';
+  return 'unknown';
+};
+
+const DEFAULT_MESSAGES: Record<ApiErrorKind, string> = {
+  network: 'Unable to connect to the server',
+  timeout: 'The server took too long to respond',
+  aborted: 'The request was cancelled',
+  unauthorized: 'Your session has expired. Please sign in again.',
+  forbidden: "You don't have permission to do that",
+  notFound: 'The requested item was not found',
+  conflict: 'This item was changed by someone else',
+  validation: 'Some of the data is invalid',
+  server: 'Server error occurred',
+  unknown: 'An unexpected error occurred'
+};
+
+// "Company", "$.company", "dto.Company" and "company" all name the same form field
+const toFieldName = (key: string): string => {
+  const last = key.replace(/\[\d+\]/g, '').split('.').pop() || key;
+  const name = last.replace(/^\$/, '');
+  return name.charAt(0).toLowerCase() + name.slice(1);
+};
+
+/**
+ * Error thrown for every failed API call. Keeps the HTTP status, a kind to branch on and
+ * the server's problem-details payload, so callers can show field-level validation errors.
+ */
+export class ApiError extends Error {
+  readonly status: number | null;
+  readonly kind: ApiErrorKind;
+  readonly problem: ProblemDetails | null;
+
+  constructor(message: string, { status = null, kind, problem = null }: ApiErrorOptions) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.kind = kind;
+    this.problem = problem;
+    Object.setPrototypeOf(this, ApiError.prototype);
+  }
+
+  /**
+   * Server validation messages by camelCase field name, e.g. { company: ['Company is required'] }
+   */
+  get fieldErrors(): Record<string, string[]> {
+    const fieldErrors: Record<string, string[]> = {};
+    Object.entries(this.problem?.errors || {}).forEach(([key, messages]) => {
+      const field = toFieldName(key);
+      const list = Array.isArray(messages) ? messages : [String(messages)];
+      fieldErrors[field] = [...(fieldErrors[field] || []), ...list];
+    });
+    return fieldErrors;
+  }
+
+  static fromAxiosError(error: unknown): ApiError {
+    if (error instanceof ApiError) return error;
+
+    if (axios.isCancel(error)) {
+      return new ApiError(DEFAULT_MESSAGES.aborted, { kind: 'aborted' });
+    }
+
+    if (!axios.isAxiosError(error)) {
+      // Thrown by our own code rather than the request, e.g. from an interceptor
+      return new ApiError(getErrorMessage(error, DEFAULT_MESSAGES.unknown), { kind: 'unknown' });
+    }
+
+    if (error.response) {
+      // Server responded with error status
+      const { status, data } = error.response;
+      const problem: ProblemDetails | null = data && typeof data === 'object' ? data : null;
+      const kind = kindFromStatus(status);
+      const fieldMessages = Object.values(problem?.errors || {}).flat();
+      const message =
+        problem?.detail ||
+        (fieldMessages.length > 0 ? fieldMessages.join(' ') : undefined) ||
+        problem?.message ||
+        problem?.title ||
+        (typeof data === 'string' && data.trim() ? data.trim() : undefined) ||
+        DEFAULT_MESSAGES[kind];
+      return new ApiError(message, { status, kind, problem });
+    }
+
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+      return new ApiError(DEFAULT_MESSAGES.timeout, { kind: 'timeout' });
+    }
+
+    if (error.request) {
+      // Request was made but no response received
+      return new ApiError(DEFAULT_MESSAGES.network, { kind: 'network' });
+    }
+
+    // Something else happened while setting up the request
+    return new ApiError(error.message || DEFAULT_MESSAGES.unknown, { kind: 'unknown' });
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError => error instanceof ApiError;
+
+// Whether a request was cancelled by its caller, e.g. because the component unmounted
+export const isAbortError = (error: unknown): boolean =>
+  (isApiError(error) && error.kind === 'aborted') ||
+  (error instanceof Error && error.name === 'AbortError');
+
+// Whether an error means the server could not be reached (offline, DNS failure, timeout)
+export const isNetworkError = (error: unknown): boolean =>
+  (isApiError(error) && (error.kind === 'network' || error.kind === 'timeout')) ||
+  (typeof navigator !== 'undefined' && !navigator.onLine && !isAbortError(error));
+
+// Whether a request was sent but no response came back in time, so it may still have been applied
+export const isTimeoutError = (error: unknown): boolean => isApiError(error) && error.kind === 'timeout';
+
+// Whether an error means the request wasn't authorised, e.g. the session has expired
+export const isAuthError = (error: unknown): boolean => isApiError(error) && error.kind === 'unauthorized';
+
+export const isNotFoundError = (error: unknown): boolean => isApiError(error) && error.kind === 'notFound';
+
+// Whether a save was rejected because the record changed on the server since it was loaded
+export const isConflictError = (error: unknown): boolean => isApiError(error) && error.kind === 'conflict';
+
+/**
+ * Map an error onto a form's error object: server validation messages go under the
+ * matching fields, and anything left over (or any other failure) becomes `general`.
+ */
+export const toFormErrors = <E extends { general?: string }>(
+  error: unknown,
+  fields: readonly Exclude<keyof E, 'general'>[],
+  fallback: string
+): E => {
+  const errors = {} as E;
+
+  if (isApiError(error) && error.kind === 'validation') {
+    const unmatched: string[] = [];
+    Object.entries(error.fieldErrors).forEach(([field, messages]) => {
+      if ((fields as readonly string[]).includes(field)) {
+        (errors as Record<string, string>)[field] = messages.join(' ');
+      } else {
+        unmatched.push(...messages);
+      }
+    });
+
+    if (Object.keys(errors).length > 0) {
+      if (unmatched.length > 0) {
+        errors.general = unmatched.join(' ');
+      }
+      return errors;
+    }
+  }
+
+  errors.general = getErrorMessage(error, fallback);
+  return errors;
+};
+
+// Message to show for a failed load, falling back to a generic one for errors without a message
+export const getErrorMessage = (error: unknown, fallback: string): string =>
+  (error instanceof Error && error.message) || fallback;
@@ -0,0 +1,43 @@
+import { authClient } from './apiClient';
+import { ApiError } from './ApiError';
+import { getTokens, setTokens, clearTokens } from './authSession';
+import { AuthTokens, LoginCredentials } from '../types/Auth';
+
+// Auth service - signs in and out against the API's /auth endpoints
+export class AuthService {
+  /**
+   * Exchange credentials for a token pair and start a session
+   */
+  static async login(credentials: LoginCredentials, signal?: AbortSignal): Promise<AuthTokens> {
+    try {
+      const response = await authClient.post<AuthTokens>('/auth/login', credentials, { signal });
+      setTokens(response.data);
+      return response.data;
+    } catch (error) {
+      console.error('Error signing in:', error);
+      const apiError = ApiError.fromAxiosError(error);
+      if (apiError.status === 400 || apiError.status === 401) {
+        throw new ApiError('Incorrect email or password', apiError);
+      }
+      throw apiError;
+    }
+  }
+
+  /**
+   * End the session locally and revoke the refresh token on the server (best effort)
+   */
+  static async logout(): Promise<void> {
+    const tokens = getTokens();
+    clearTokens('logout');
+    if (!tokens) return;
+
+    try {
+      await authClient.post('/auth/logout', { refreshToken: tokens.refreshToken });
+    } catch (error) {
+      // Already signed out locally; an unrevoked refresh token will simply expire
+      console.error('Error revoking refresh token:', error);
+    }
+  }
+}
+
+export default AuthService;
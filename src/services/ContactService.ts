@@ -0,0 +1,62 @@
+import { contactRepository } from '../repositories';
+import { Contact, CreateContactDto, UpdateContactDto, sortContactsByName } from '../types/Contact';
+import { JobApplication } from '../types/JobApplication';
+import { invalidateQueries } from './queryCache';
+import { queryKeys } from './queryKeys';
+
+// Contact service - recruiters and other people linked to job applications
+export class ContactService {
+  /**
+   * Get all contacts, sorted by name
+   */
+  static async getAll(signal?: AbortSignal): Promise<Contact[]> {
+    return sortContactsByName(await contactRepository.getAll(signal));
+  }
+
+  /**
+   * Get a contact by ID
+   */
+  static async getById(id: number, signal?: AbortSignal): Promise<Contact> {
+    return contactRepository.getById(id, signal);
+  }
+
+  /**
+   * Get the job applications a contact is linked to, most recently applied first
+   */
+  static async getLinkedApplications(contactId: number, signal?: AbortSignal): Promise<JobApplication[]> {
+    const applications = await contactRepository.getLinkedApplications(contactId, signal);
+    return [...applications].sort(
+      (a, b) => new Date(b.dateApplied).getTime() - new Date(a.dateApplied).getTime()
+    );
+  }
+
+  /**
+   * Create a new contact
+   */
+  static async create(contact: CreateContactDto, signal?: AbortSignal): Promise<Contact> {
+    const created = await contactRepository.create(contact, signal);
+    invalidateQueries(queryKeys.contacts.all);
+    return created;
+  }
+
+  /**
+   * Update an existing contact
+   */
+  static async update(id: number, contact: UpdateContactDto, signal?: AbortSignal): Promise<Contact> {
+    const updated = await contactRepository.update(id, contact, signal);
+    invalidateQueries(queryKeys.contacts.all);
+    return updated;
+  }
+
+  /**
+   * Delete a contact, unlinking it from any applications
+   */
+  static async delete(id: number, signal?: AbortSignal): Promise<void> {
+    await contactRepository.delete(id, signal);
+    invalidateQueries(queryKeys.contacts.all);
+    // Applications it was linked to no longer list it
+    invalidateQueries(queryKeys.jobApplications.all);
+  }
+}
+
+export default ContactService;
@@ -0,0 +1,61 @@
+import { interviewRepository } from '../repositories';
+import {
+  Interview,
+  CreateInterviewDto,
+  UpdateInterviewDto,
+  getUpcomingInterviews
+} from '../types/Interview';
+import { invalidateQueries } from './queryCache';
+import { queryKeys } from './queryKeys';
+
+// Interview service - schedules and tracks interviews for job applications
+export class InterviewService {
+  /**
+   * Get the interviews for a job application, soonest first
+   */
+  static async getByApplicationId(jobApplicationId: number, signal?: AbortSignal): Promise<Interview[]> {
+    const interviews = await interviewRepository.getByApplicationId(jobApplicationId, signal);
+    return [...interviews].sort(
+      (a, b) => new Date(a.scheduledAt).getTime() - new Date(b.scheduledAt).getTime()
+    );
+  }
+
+  /**
+   * Get scheduled interviews that haven't finished yet, across all applications, soonest first
+   */
+  static async getUpcoming(signal?: AbortSignal): Promise<Interview[]> {
+    return getUpcomingInterviews(await interviewRepository.getAll(signal));
+  }
+
+  /**
+   * Schedule an interview for a job application
+   */
+  static async create(
+    jobApplicationId: number,
+    interview: CreateInterviewDto,
+    signal?: AbortSignal
+  ): Promise<Interview> {
+    const created = await interviewRepository.create(jobApplicationId, interview, signal);
+    invalidateQueries(queryKeys.interviews.all);
+    return created;
+  }
+
+  /**
+   * Update an existing interview
+   */
+  static async update(id: number, interview: UpdateInterviewDto, signal?: AbortSignal): Promise<Interview> {
+    const updated = await interviewRepository.update(id, interview, signal);
+    invalidateQueries(queryKeys.interviews.all);
+    return updated;
+  }
+
+  /**
+   * Delete an interview
+   */
+  static async delete(id: number, signal?: AbortSignal): Promise<void> {
+    await interviewRepository.delete(id, signal);
+    invalidateQueries(queryKeys.interviews.all);
+  }
+}
+
+export default InterviewService;
@@ -1,104 +1,82 @@
-import axios, { AxiosResponse } from 'axios';
+import { jobApplicationRepository } from '../repositories';
+import { isApiError, getErrorMessage } from './ApiError';
+import { invalidateQueries } from './queryCache';
+import { queryKeys } from './queryKeys';
+import {
+  setCachedApplication,
+  removeCachedApplication,
+  invalidateJobApplications
+} from './jobApplicationCache';
 import {
   JobApplication,
+  ApplicationStatus,
   CreateJobApplicationDto,
-  UpdateJobApplicationDto
+  UpdateJobApplicationDto,
+  JobApplicationQueryParams,
+  JobApplicationListQuery,
+  PaginatedResponse,
+  JobApplicationPatch,
+  UpdateOptions,
+  StatusUpdateOptions
 } from '../types/JobApplication';
 
-// API base configuration
-const API_BASE_URL = process.env.REACT_APP_API_BASE_URL ;
-
-// Create axios instance with default configuration
-const apiClient = axios.create({
-  baseURL: API_BASE_URL,
-  headers: {
-    'Content-Type': 'application/json',
-  },
-  timeout: 10000, // 10 seconds timeout
-});
-
-// Request interceptor for logging or auth tokens
-apiClient.interceptors.request.use(
-  (config) => {
-    console.log(`Making ${config.method?.toUpperCase()} request to: ${config.url}`);
-    return config;
-  },
-  (error) => {
-    console.error('Request error:', error);
-    return Promise.reject(error);
+// Job Application service. Delegates to the repository selected by REACT_APP_DATA_SOURCE.
+// Every method takes an optional AbortSignal so callers can cancel requests they no longer need.
+// Mutations update the shared query cache, so every view showing the application stays in sync.
+export class JobApplicationService {
+  /**
+   * Get all job applications
+   */
+  static async getAll(signal?: AbortSignal): Promise<JobApplication[]> {
+    return jobApplicationRepository.getAll(signal);
   }
-);
 
-// Response interceptor for error handling
-apiClient.interceptors.response.use(
-  (response) => {
-    return response;
-  },
-  (error) => {
-    console.error('Response error:', error);
-    
-    if (error.response) {
-      // Server responded with error status
-      const { status, data } = error.response;
-      throw new Error(`HTTP ${status}: ${data?.message || 'Server error'}`);
-    } else if (error.request) {
-      // Request was made but no response received
-      throw new Error('Network error: No response from server');
-    } else {
-      // Something else happened
-      throw new Error(`Request error: ${error.message}`);
-    }
+  /**
+   * Get a single page of job applications, filtered and sorted by the backend
+   */
+  static async getPaged(
+    params: JobApplicationQueryParams,
+    signal?: AbortSignal
+  ): Promise<PaginatedResponse<JobApplication>> {
+    return jobApplicationRepository.getPaged(params, signal);
   }
-);
-
-// Job Application API service
-export class JobApplicationService {
-  private static readonly ENDPOINT = '/jobapplications';
 
   /**
-   * Get all job applications
+   * Get every job application matching a query, walking through all pages in order
    */
-  static async getAll(): Promise<JobApplication[]> {
-    try {
-      const response: AxiosResponse<JobApplication[]> = await apiClient.get(
-        this.ENDPOINT
-      );
-      return response.data;
-    } catch (error) {
-      console.error('Error fetching job applications:', error);
-      throw error;
-    }
+  static async getAllMatching(
+    query: JobApplicationListQuery,
+    signal?: AbortSignal
+  ): Promise<JobApplication[]> {
+    const pageSize = 100;
+    const results: JobApplication[] = [];
+    let page = 1;
+    let totalPages = 1;
+
+    do {
+      const response = await this.getPaged({ ...query, page, pageSize }, signal);
+      results.push(...response.data);
+      totalPages = response.totalPages;
+      page++;
+    } while (page <= totalPages);
+
+    return results;
   }
 
   /**
    * Get a specific job application by ID
    */
-  static async getById(id: number): Promise<JobApplication> {
-    try {
-      const response: AxiosResponse<JobApplication> = await apiClient.get(
-        `${this.ENDPOINT}/${id}`
-      );
-      return response.data;
-    } catch (error) {
-      console.error(`Error fetching job application ${id}:`, error);
-      throw error;
-    }
+  static async getById(id: number, signal?: AbortSignal): Promise<JobApplication> {
+    return jobApplicationRepository.getById(id, signal);
   }
 
   /**
    * Create a new job application
    */
-  static async create(jobApplication: CreateJobApplicationDto): Promise<JobApplication> {
-    try {
-      const response: AxiosResponse<JobApplication> = await apiClient.post(
-        this.ENDPOINT,
-        jobApplication
-      );
-      return response.data;
-    } catch (error) {
-      console.error('Error creating job application:', error);
-      throw error;
-    }
+  static async create(jobApplication: CreateJobApplicationDto, signal?: AbortSignal): Promise<JobApplication> {
+    const created = await jobApplicationRepository.create(jobApplication, signal);
+    invalidateJobApplications();
+    return created;
   }
 
   /**
@@ -106,81 +84,77 @@ export class JobApplicationService {
    */
   static async update(
     id: number,
-    jobApplication: UpdateJobApplicationDto
+    jobApplication: UpdateJobApplicationDto,
+    options: UpdateOptions = {},
+    signal?: AbortSignal
+  ): Promise<JobApplication> {
+    const updated = await jobApplicationRepository.update(id, jobApplication, options, signal);
+    setCachedApplication(updated);
+    invalidateJobApplications();
+    return updated;
+  }
+
+  /**
+   * Update only the given fields of a job application. Pass `expectedUpdatedAt` to have the
+   * save rejected with a conflict error if someone else has changed the application since.
+   */
+  static async patch(
+    id: number,
+    changes: JobApplicationPatch,
+    options: UpdateOptions = {},
+    signal?: AbortSignal
   ): Promise<JobApplication> {
-    try {
-      const response: AxiosResponse<JobApplication> = await apiClient.put(
-        `${this.ENDPOINT}/${id}`,
-        jobApplication
-      );
-      return response.data;
-    } catch (error) {
-      console.error(`Error updating job application ${id}:`, error);
-      throw error;
-    }
+    const updated = await jobApplicationRepository.patch(id, changes, options, signal);
+    setCachedApplication(updated);
+    invalidateJobApplications();
+    return updated;
   }
 
   /**
    * Delete a job application
    */
-  static async delete(id: number): Promise<void> {
-    try {
-      await apiClient.delete(`${this.ENDPOINT}/${id}`);
-    } catch (error) {
-      console.error(`Error deleting job application ${id}:`, error);
-      throw error;
-    }
+  static async delete(id: number, signal?: AbortSignal): Promise<void> {
+    await jobApplicationRepository.delete(id, signal);
+    removeCachedApplication(id);
+    invalidateJobApplications();
+    // Its interviews and notes go with it
+    invalidateQueries(queryKeys.interviews.all);
+    invalidateQueries(queryKeys.notes.all);
   }
 
   /**
-   * Update only the status of a job application
+   * Update only the status of a job application. Pass the `expectedUpdatedAt` of the version
+   * on screen so the change is rejected if someone else has changed the application since.
    */
   static async updateStatus(
     id: number,
-    status: number
+    status: ApplicationStatus,
+    options: StatusUpdateOptions = {},
+    signal?: AbortSignal
   ): Promise<JobApplication> {
-    try {
-      // First get the current application
-      const currentApp = await this.getById(id);
-      
-      // Update with new status
-      const updateDto: UpdateJobApplicationDto = {
-        company: currentApp.company,
-        position: currentApp.position,
-        status: status,
-        dateApplied: currentApp.dateApplied
-      };
-      
-      return await this.update(id, updateDto);
-    } catch (error) {
-      console.error(`Error updating status for job application ${id}:`, error);
-      throw error;
-    }
+    const updated = await jobApplicationRepository.updateStatus(id, status, options, signal);
+    setCachedApplication(updated);
+    invalidateJobApplications();
+    return updated;
   }
 }
 
-// Utility functions for API error handling
-export const handleApiError = (error: any): string => {
-  if (error.response) {
-    // Server responded with error status
-    const { status, data } = error.response;
-    
-    if (status === 400) {
-      return data?.message || 'Invalid request data';
-    } else if (status === 404) {
+// User-facing message for a failed request
+export const handleApiError = (error: unknown): string => {
+  if (!isApiError(error)) {
+    return getErrorMessage(error, 'An unexpected error occurred');
+  }
+
+  switch (error.kind) {
+    case 'notFound':
       return 'Job application not found';
-    } else if (status === 500) {
-      return 'Server error occurred';
-    } else {
-      return data?.message || `HTTP ${status} error`;
-    }
-  } else if (error.request) {
-    return 'Network error: Unable to connect to server';
-  } else {
-    return error.message || 'An unexpected error occurred';
+    case 'network':
+      return 'Network error: Unable to connect to server';
+    case 'timeout':
+      return 'Network error: The server took too long to respond';
+    default:
+      return error.message;
   }
 };
 
-
-
 export default JobApplicationService;
\ No newline at end of file
@@ -0,0 +1,54 @@
+import { noteRepository } from '../repositories';
+import { Note, CreateNoteDto, UpdateNoteDto, sortNotesNewestFirst } from '../types/Note';
+import { invalidateQueries } from './queryCache';
+import { queryKeys } from './queryKeys';
+
+// Note service - keeps a journal of notes against each job application
+export class NoteService {
+  /**
+   * Get the notes for a job application, newest first
+   */
+  static async getByApplicationId(jobApplicationId: number, signal?: AbortSignal): Promise<Note[]> {
+    return sortNotesNewestFirst(await noteRepository.getByApplicationId(jobApplicationId, signal));
+  }
+
+  /**
+   * Get the most recent note for each of the given job applications, keyed by application id
+   */
+  static async getLatestByApplicationIds(
+    jobApplicationIds: number[],
+    signal?: AbortSignal
+  ): Promise<Map<number, Note>> {
+    if (jobApplicationIds.length === 0) return new Map();
+    const notes = await noteRepository.getLatestByApplicationIds(jobApplicationIds, signal);
+    return new Map(notes.map(note => [note.jobApplicationId, note]));
+  }
+
+  /**
+   * Add a note to a job application
+   */
+  static async create(jobApplicationId: number, note: CreateNoteDto, signal?: AbortSignal): Promise<Note> {
+    const created = await noteRepository.create(jobApplicationId, note, signal);
+    invalidateQueries(queryKeys.notes.all);
+    return created;
+  }
+
+  /**
+   * Update an existing note
+   */
+  static async update(id: number, note: UpdateNoteDto, signal?: AbortSignal): Promise<Note> {
+    const updated = await noteRepository.update(id, note, signal);
+    invalidateQueries(queryKeys.notes.all);
+    return updated;
+  }
+
+  /**
+   * Delete a note
+   */
+  static async delete(id: number, signal?: AbortSignal): Promise<void> {
+    await noteRepository.delete(id, signal);
+    invalidateQueries(queryKeys.notes.all);
+  }
+}
+
+export default NoteService;
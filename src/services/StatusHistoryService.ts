@@ -0,0 +1,22 @@
+import { jobApplicationRepository } from '../repositories';
+import { StatusChange } from '../types/StatusChange';
+
+// Status history service. Entries are recorded by the repository whenever an
+// application is created or changes status; this service only reads them.
+export class StatusHistoryService {
+  /**
+   * Get the status history of a job application, oldest first
+   */
+  static async getByApplicationId(jobApplicationId: number, signal?: AbortSignal): Promise<StatusChange[]> {
+    return jobApplicationRepository.getStatusHistory(jobApplicationId, signal);
+  }
+
+  /**
+   * Get status history across all job applications (used for analytics)
+   */
+  static async getAll(signal?: AbortSignal): Promise<StatusChange[]> {
+    return jobApplicationRepository.getAllStatusHistory(signal);
+  }
+}
+
+export default StatusHistoryService;
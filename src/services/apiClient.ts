@@ -0,0 +1,158 @@
+import axios, { AxiosError, GenericAbortSignal, InternalAxiosRequestConfig } from 'axios';
+import { AuthTokens } from '../types/Auth';
+import { getTokens, setTokens, clearTokens } from './authSession';
+import { ApiError, isNetworkError } from './ApiError';
+
+// API base configuration
+const API_BASE_URL = process.env.REACT_APP_API_BASE_URL ;
+
+const DEFAULT_TIMEOUT = 10000; // 10 seconds
+
+// REACT_APP_API_TIMEOUT is in milliseconds; anything unusable falls back to the default
+const parseTimeout = (value: string | undefined): number => {
+  const timeout = Number(value);
+  return Number.isFinite(timeout) && timeout > 0 ? timeout : DEFAULT_TIMEOUT;
+};
+
+const clientConfig = {
+  baseURL: API_BASE_URL,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+  timeout: parseTimeout(process.env.REACT_APP_API_TIMEOUT),
+};
+
+// Transient failures of idempotent requests are retried up to MAX_RETRIES times, waiting a
+// random time up to an exponentially growing cap ("full jitter") so clients don't retry in step
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY = 500;
+const RETRY_MAX_DELAY = 8000;
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+
+type ApiRequestConfig = InternalAxiosRequestConfig & {
+  _retried?: boolean; // Already retried after refreshing the session
+  _retryCount?: number; // Transient-failure retries made so far
+};
+
+// Network errors, timeouts and 5xx responses may succeed if sent again; cancellations never do
+const shouldRetry = (error: AxiosError, request: ApiRequestConfig): boolean => {
+  if (axios.isCancel(error) || request.signal?.aborted) return false;
+  if (!IDEMPOTENT_METHODS.includes((request.method || 'get').toLowerCase())) return false;
+  if ((request._retryCount ?? 0) >= MAX_RETRIES) return false;
+  // There's no point waiting while the browser knows it's offline
+  if (!navigator.onLine) return false;
+
+  const status = error.response?.status;
+  return status === undefined ? !!error.request : status >= 500;
+};
+
+const retryDelay = (attempt: number): number =>
+  Math.random() * Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * 2 ** attempt);
+
+// Wait before a retry, giving up straight away if the caller cancels in the meantime
+const waitForRetry = (delay: number, signal?: GenericAbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ApiError('The request was cancelled', { kind: 'aborted' }));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener?.('abort', onAbort);
+      resolve();
+    }, delay);
+    signal?.addEventListener?.('abort', onAbort);
+  });
+
+// Create axios instance with default configuration
+const apiClient = axios.create(clientConfig);
+
+// Bare client for the auth endpoints, so logging in or refreshing never triggers another refresh
+export const authClient = axios.create(clientConfig);
+
+// The refresh in flight, if any. Requests that get a 401 while it runs wait for it
+// and are retried with the new token, so concurrent failures only refresh once.
+let refreshPromise: Promise<string> | null = null;
+
+const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      const tokens = getTokens();
+      if (!tokens) {
+        throw new ApiError('Not signed in', { status: 401, kind: 'unauthorized' });
+      }
+
+      try {
+        const response = await authClient.post<AuthTokens>('/auth/refresh', {
+          refreshToken: tokens.refreshToken
+        });
+        setTokens(response.data);
+        return response.data.accessToken;
+      } catch (error) {
+        const apiError = ApiError.fromAxiosError(error);
+        // Being offline doesn't end the session; a rejected refresh token does
+        if (!isNetworkError(apiError)) {
+          clearTokens('expired');
+        }
+        throw apiError;
+      }
+    })().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+// Request interceptor for logging and auth tokens
+apiClient.interceptors.request.use(
+  (config) => {
+    console.log(`Making ${config.method?.toUpperCase()} request to: ${config.url}`);
+    const tokens = getTokens();
+    if (tokens) {
+      config.headers.Authorization = `Bearer ${tokens.accessToken}`;
+    }
+    return config;
+  },
+  (error) => {
+    console.error('Request error:', error);
+    return Promise.reject(error);
+  }
+);
+
+// Response interceptor: refreshes the session once on a 401, retries transient failures
+// of idempotent requests, and turns every other failure into an ApiError
+apiClient.interceptors.response.use(
+  (response) => {
+    return response;
+  },
+  async (error) => {
+    const request = error.config as ApiRequestConfig | undefined;
+
+    const tokens = getTokens();
+    if (error.response?.status === 401 && request && tokens) {
+      if (!request._retried) {
+        request._retried = true;
+        // Another request may already have refreshed since this one was sent
+        const accessToken = request.headers.Authorization === `Bearer ${tokens.accessToken}`
+          ? await refreshAccessToken()
+          : tokens.accessToken;
+        request.headers.Authorization = `Bearer ${accessToken}`;
+        return apiClient(request);
+      }
+      // Still unauthorised with a freshly refreshed token - the session can't be recovered
+      clearTokens('expired');
+    }
+
+    if (request && shouldRetry(error, request)) {
+      const attempt = request._retryCount ?? 0;
+      request._retryCount = attempt + 1;
+      console.warn(`Retrying ${request.method?.toUpperCase()} ${request.url} (attempt ${attempt + 1} of ${MAX_RETRIES})`);
+      await waitForRetry(retryDelay(attempt), request.signal);
+      return apiClient(request);
+    }
+
+    console.error('Response error:', error);
+    throw ApiError.fromAxiosError(error);
+  }
+);
+
+export default apiClient;
@@ -0,0 +1,55 @@
+import { AuthTokens } from '../types/Auth';
+
+// localStorage key for the token pair, shared across tabs
+const TOKENS_KEY = 'authTokens';
+
+// Why a session ended: the user signed out, or the tokens could no longer be refreshed
+export type SessionEndReason = 'logout' | 'expired';
+
+type SessionListener = (tokens: AuthTokens | null, reason?: SessionEndReason) => void;
+
+const listeners = new Set<SessionListener>();
+
+const notify = (tokens: AuthTokens | null, reason?: SessionEndReason) => {
+  listeners.forEach(listener => listener(tokens, reason));
+};
+
+/**
+ * The current token pair, or null when signed out. Kept outside React so the API client
+ * can attach and refresh tokens; AuthProvider subscribes to follow changes.
+ */
+export const getTokens = (): AuthTokens | null => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(TOKENS_KEY) || 'null');
+    return stored && typeof stored.accessToken === 'string' && typeof stored.refreshToken === 'string'
+      ? stored
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+export const setTokens = (tokens: AuthTokens) => {
+  localStorage.setItem(TOKENS_KEY, JSON.stringify(tokens));
+  notify(tokens);
+};
+
+export const clearTokens = (reason: SessionEndReason) => {
+  localStorage.removeItem(TOKENS_KEY);
+  notify(null, reason);
+};
+
+export const subscribeToSession = (listener: SessionListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Follow sign-ins, refreshes and sign-outs made in other tabs
+window.addEventListener('storage', (event) => {
+  if (event.key === TOKENS_KEY) {
+    const tokens = getTokens();
+    notify(tokens, tokens ? undefined : 'logout');
+  }
+});
@@ -0,0 +1,56 @@
+import { offlineSync } from '../repositories';
+import { JobApplication, PaginatedResponse } from '../types/JobApplication';
+import { invalidateQueries, updateQueries } from './queryCache';
+import { queryKeys } from './queryKeys';
+
+const replaceIn = (applications: JobApplication[], app: JobApplication): JobApplication[] =>
+  applications.map(item => (item.id === app.id ? app : item));
+
+/**
+ * Show a changed application in every cached view (detail, lists and pages) at once,
+ * whether it has just been saved or is an optimistic change the server hasn't confirmed yet
+ */
+export const setCachedApplication = (app: JobApplication): void => {
+  updateQueries<JobApplication>(queryKeys.jobApplications.detail(app.id), () => app);
+  updateQueries<JobApplication[]>(queryKeys.jobApplications.list(), list => replaceIn(list, app));
+  updateQueries<JobApplication[]>(queryKeys.contacts.allLinkedApplications(), list => replaceIn(list, app));
+  updateQueries<PaginatedResponse<JobApplication>>(queryKeys.jobApplications.pages(), page => ({
+    ...page,
+    data: replaceIn(page.data, app)
+  }));
+};
+
+/**
+ * Take a deleted application out of every cached list and page straight away,
+ * so it doesn't reappear while the views refetch
+ */
+export const removeCachedApplication = (id: number): void => {
+  const without = (applications: JobApplication[]) => applications.filter(item => item.id !== id);
+  updateQueries<JobApplication[]>(queryKeys.jobApplications.list(), without);
+  updateQueries<JobApplication[]>(queryKeys.contacts.allLinkedApplications(), without);
+  updateQueries<PaginatedResponse<JobApplication>>(queryKeys.jobApplications.pages(), page =>
+    page.data.some(item => item.id === id)
+      ? { ...page, data: without(page.data), totalCount: page.totalCount - 1 }
+      : page
+  );
+};
+
+/**
+ * Refetch everything derived from job applications after one is created, changed or deleted
+ */
+export const invalidateJobApplications = (): void => {
+  invalidateQueries(queryKeys.jobApplications.all);
+  invalidateQueries(queryKeys.statusHistory.all);
+  invalidateQueries(queryKeys.contacts.allLinkedApplications());
+};
+
+// Changes queued offline get real ids and server timestamps once they sync, so reload then
+if (offlineSync) {
+  let wasSyncing = offlineSync.getSyncState().isSyncing;
+  offlineSync.subscribe(state => {
+    if (wasSyncing && !state.isSyncing) {
+      invalidateJobApplications();
+    }
+    wasSyncing = state.isSyncing;
+  });
+}
@@ -0,0 +1,209 @@
+import { isAbortError } from './ApiError';
+
+// Identifies a cached request, e.g. ['jobApplications', 'detail', 42]. Keys are compared by
+// value, and invalidating a key also invalidates every key it is a prefix of.
+export type QueryKey = readonly unknown[];
+
+export type QueryFetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+export interface QueryState<T> {
+  data: T | undefined;
+  error: unknown;
+  updatedAt: number; // When data was last fetched or set; 0 if never
+  isFetching: boolean;
+  isInvalidated: boolean;
+}
+
+interface QueryEntry<T> {
+  key: QueryKey;
+  state: QueryState<T>;
+  fetcher?: QueryFetcher<T>;
+  promise?: Promise<T>;
+  controller?: AbortController;
+  listeners: Set<() => void>;
+  gcTimer?: ReturnType<typeof setTimeout>;
+}
+
+// Cached data younger than this is served without asking the server again
+export const DEFAULT_STALE_TIME = 10 * 1000;
+
+// Entries nobody has used for this long are dropped
+const GC_TIME = 5 * 60 * 1000;
+
+const EMPTY_STATE: QueryState<never> = {
+  data: undefined,
+  error: undefined,
+  updatedAt: 0,
+  isFetching: false,
+  isInvalidated: false
+};
+
+const entries = new Map<string, QueryEntry<unknown>>();
+
+export const hashQueryKey = (key: QueryKey): string => JSON.stringify(key);
+
+const matchesPrefix = (key: QueryKey, prefix: QueryKey): boolean =>
+  prefix.length <= key.length &&
+  prefix.every((part, index) => hashQueryKey([part]) === hashQueryKey([key[index]]));
+
+// Entries are stored untyped; the key decides what type of data an entry holds
+const findEntry = <T>(key: QueryKey): QueryEntry<T> | undefined =>
+  entries.get(hashQueryKey(key)) as QueryEntry<T> | undefined;
+
+const getEntry = <T>(key: QueryKey): QueryEntry<T> => {
+  let entry = findEntry<T>(key);
+  if (!entry) {
+    entry = { key, state: EMPTY_STATE, listeners: new Set() };
+    entries.set(hashQueryKey(key), entry);
+  }
+  return entry;
+};
+
+// Replace an entry's state with a new object so subscribers (and useSyncExternalStore) see the change
+const setState = <T>(entry: QueryEntry<T>, changes: Partial<QueryState<T>>): void => {
+  entry.state = { ...entry.state, ...changes };
+  entry.listeners.forEach(listener => listener());
+};
+
+const scheduleGc = (hash: string, entry: QueryEntry<unknown>): void => {
+  clearTimeout(entry.gcTimer);
+  entry.gcTimer = setTimeout(() => {
+    if (entry.listeners.size === 0 && !entry.promise) {
+      entries.delete(hash);
+    }
+  }, GC_TIME);
+};
+
+/**
+ * Current state of a query, or an empty state if it has never been requested.
+ * The same object is returned until the query changes.
+ */
+export const getQueryState = <T>(key: QueryKey): QueryState<T> =>
+  findEntry<T>(key)?.state ?? EMPTY_STATE;
+
+/**
+ * Fetch a query, sharing the request with anyone else who asks for the same key while it
+ * is in flight. Resolves to the cached data without a request while it is still fresh.
+ */
+export const fetchQuery = <T>(
+  key: QueryKey,
+  fetcher: QueryFetcher<T>,
+  { staleTime = DEFAULT_STALE_TIME, force = false }: { staleTime?: number; force?: boolean } = {}
+): Promise<T> => {
+  const entry = getEntry<T>(key);
+  entry.fetcher = fetcher;
+
+  if (entry.promise) return entry.promise;
+
+  const { data, updatedAt, isInvalidated } = entry.state;
+  if (!force && !isInvalidated && data !== undefined && Date.now() - updatedAt < staleTime) {
+    return Promise.resolve(data);
+  }
+
+  const controller = new AbortController();
+  const promise = fetcher(controller.signal).then(
+    result => {
+      if (entry.promise !== promise) return result;
+      entry.promise = undefined;
+      entry.controller = undefined;
+      const changedWhileFetching = entry.state.isInvalidated;
+      setState(entry, { data: result, error: undefined, updatedAt: Date.now(), isFetching: false });
+      // Something changed on the server after this request was sent, so it's already out of date
+      if (changedWhileFetching && entry.listeners.size > 0) {
+        fetchQuery(key, entry.fetcher ?? fetcher, { force: true }).catch(() => undefined);
+      }
+      return result;
+    },
+    error => {
+      if (entry.promise === promise) {
+        entry.promise = undefined;
+        entry.controller = undefined;
+        setState(entry, isAbortError(error) ? { isFetching: false } : { error, isFetching: false });
+      }
+      throw error;
+    }
+  );
+
+  entry.promise = promise;
+  entry.controller = controller;
+  setState(entry, { isFetching: true, isInvalidated: false });
+  scheduleGc(hashQueryKey(key), entry);
+  return promise;
+};
+
+/**
+ * Listen for changes to a query. While anyone is listening an invalidated query is
+ * refetched straight away; once the last listener leaves, its request is cancelled.
+ */
+export const subscribeToQuery = (key: QueryKey, listener: () => void): (() => void) => {
+  const hash = hashQueryKey(key);
+  const entry = getEntry(key);
+  entry.listeners.add(listener);
+  clearTimeout(entry.gcTimer);
+
+  return () => {
+    entry.listeners.delete(listener);
+    if (entry.listeners.size > 0) return;
+
+    // Wait a tick so a remount (e.g. under StrictMode) can pick up the request in flight
+    setTimeout(() => {
+      if (entry.listeners.size > 0) return;
+      if (entry.controller) {
+        entry.controller.abort();
+        entry.promise = undefined;
+        entry.controller = undefined;
+        setState(entry, { isFetching: false, isInvalidated: true });
+      }
+      scheduleGc(hash, entry);
+    }, 0);
+  };
+};
+
+/**
+ * Mark every query under a key prefix as out of date, refetching the ones on screen.
+ * Queries nobody is using are refetched the next time they're needed.
+ */
+export const invalidateQueries = (prefix: QueryKey): void => {
+  entries.forEach(entry => {
+    if (!matchesPrefix(entry.key, prefix)) return;
+    setState(entry, { isInvalidated: true });
+    if (entry.listeners.size > 0 && !entry.promise && entry.fetcher) {
+      fetchQuery(entry.key, entry.fetcher, { force: true }).catch(() => undefined);
+    }
+  });
+};
+
+/**
+ * Write a query's data directly, e.g. to show an optimistic change before the server confirms it
+ */
+export const setQueryData = <T>(key: QueryKey, data: T): void => {
+  setState(getEntry<T>(key), { data, error: undefined, updatedAt: Date.now() });
+};
+
+/**
+ * Rewrite the data of every cached query under a key prefix. Queries without data are skipped.
+ */
+export const updateQueries = <T>(prefix: QueryKey, updater: (data: T) => T): void => {
+  entries.forEach(({ key }) => {
+    const entry = findEntry<T>(key);
+    if (!entry || !matchesPrefix(key, prefix) || entry.state.data === undefined) return;
+    setState(entry, { data: updater(entry.state.data) });
+  });
+};
+
+/**
+ * Drop every cached query and cancel requests in flight, e.g. when a different user signs in
+ */
+export const clearQueryCache = (): void => {
+  entries.forEach((entry, hash) => {
+    entry.controller?.abort();
+    entry.promise = undefined;
+    entry.controller = undefined;
+    clearTimeout(entry.gcTimer);
+    // Views still on screen keep their subscription and load afresh when they next fetch
+    setState(entry, { ...EMPTY_STATE, isInvalidated: true });
+    if (entry.listeners.size === 0) {
+      entries.delete(hash);
+    }
+  });
+};
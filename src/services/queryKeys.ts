@@ -0,0 +1,37 @@
+import { JobApplicationQueryParams } from '../types/JobApplication';
+
+// Query cache keys for every request the views make. Each group's first key is the prefix
+// of all the others, so invalidating it refreshes everything in the group.
+export const queryKeys = {
+  jobApplications: {
+    all: ['jobApplications'] as const,
+    list: () => ['jobApplications', 'list'] as const,
+    pages: () => ['jobApplications', 'paged'] as const,
+    paged: (params: JobApplicationQueryParams) => ['jobApplications', 'paged', params] as const,
+    detail: (id: number) => ['jobApplications', 'detail', id] as const
+  },
+  statusHistory: {
+    all: ['statusHistory'] as const,
+    list: () => ['statusHistory', 'list'] as const,
+    byApplication: (jobApplicationId: number) => ['statusHistory', 'application', jobApplicationId] as const
+  },
+  interviews: {
+    all: ['interviews'] as const,
+    upcoming: () => ['interviews', 'upcoming'] as const,
+    byApplication: (jobApplicationId: number) => ['interviews', 'application', jobApplicationId] as const
+  },
+  notes: {
+    all: ['notes'] as const,
+    latest: (jobApplicationIds: number[]) => ['notes', 'latest', jobApplicationIds] as const,
+    byApplication: (jobApplicationId: number) => ['notes', 'application', jobApplicationId] as const
+  },
+  contacts: {
+    all: ['contacts'] as const,
+    list: () => ['contacts', 'list'] as const,
+    detail: (id: number) => ['contacts', 'detail', id] as const,
+    allLinkedApplications: () => ['contacts', 'linkedApplications'] as const,
+    linkedApplications: (contactId: number) => ['contacts', 'linkedApplications', contactId] as const
+  }
+};
+
+export default queryKeys;
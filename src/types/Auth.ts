@@ -0,0 +1,46 @@
+// Credentials posted to the login endpoint
+export interface LoginCredentials {
+  email: string;
+  password: string;
+}
+
+// Token pair issued by /auth/login and /auth/refresh
+export interface AuthTokens {
+  accessToken: string; // Short-lived JWT sent as a bearer token
+  refreshToken: string; // Longer-lived token exchanged for a new pair when the access token expires
+}
+
+// The signed-in user, read from the access token's claims
+export interface AuthUser {
+  id: string;
+  email: string;
+  name?: string;
+}
+
+// Decode the claims of a JWT without verifying it - the server does that on every request
+export const decodeJwtPayload = (token: string): Record<string, any> | null => {
+  try {
+    const payload = token.split('.')[1];
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const json = decodeURIComponent(
+      atob(base64)
+        .split('')
+        .map(char => `%${char.charCodeAt(0).toString(16).padStart(2, '0')}`)
+        .join('')
+    );
+    return JSON.parse(json);
+  } catch {
+    return null;
+  }
+};
+
+// The user an access token belongs to, from the standard sub/email/name claims
+export const getUserFromToken = (accessToken: string): AuthUser | null => {
+  const claims = decodeJwtPayload(accessToken);
+  if (!claims) return null;
+  return {
+    id: String(claims.sub ?? ''),
+    email: claims.email ?? claims.unique_name ?? '',
+    name: claims.name
+  };
+};
@@ -0,0 +1,105 @@
+// A person met during the search - a recruiter, hiring manager, referrer or interviewer
+export interface Contact {
+  id: number;
+  name: string;
+  role?: string | null; // e.g. "Technical recruiter"
+  company?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  linkedInUrl?: string | null;
+  notes?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Create DTO interface matching backend CreateContactDto
+export interface CreateContactDto {
+  name: string;
+  role?: string | null;
+  company?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  linkedInUrl?: string | null;
+  notes?: string | null;
+}
+
+// Update DTO interface matching backend UpdateContactDto
+export interface UpdateContactDto extends CreateContactDto {}
+
+// Form state for the contact form
+export interface ContactFormData {
+  name: string;
+  role: string;
+  company: string;
+  email: string;
+  phone: string;
+  linkedInUrl: string;
+  notes: string;
+}
+
+// Form validation errors interface
+export interface ContactFormErrors {
+  name?: string;
+  role?: string;
+  company?: string;
+  email?: string;
+  phone?: string;
+  linkedInUrl?: string;
+  notes?: string;
+  general?: string;
+}
+
+// Form fields that can carry an error, for mapping server validation errors onto the form
+export const CONTACT_FORM_FIELDS: Exclude<keyof ContactFormErrors, 'general'>[] = [
+  'name',
+  'role',
+  'company',
+  'email',
+  'phone',
+  'linkedInUrl',
+  'notes'
+];
+
+// Form data for a new contact, optionally pre-filled (e.g. with the application's company)
+export const getEmptyContactFormData = (defaults: Partial<ContactFormData> = {}): ContactFormData => ({
+  name: '',
+  role: '',
+  company: '',
+  email: '',
+  phone: '',
+  linkedInUrl: '',
+  notes: '',
+  ...defaults
+});
+
+// Build editable form data from a saved contact
+export const toContactFormData = (contact: Contact): ContactFormData => ({
+  name: contact.name,
+  role: contact.role || '',
+  company: contact.company || '',
+  email: contact.email || '',
+  phone: contact.phone || '',
+  linkedInUrl: contact.linkedInUrl || '',
+  notes: contact.notes || ''
+});
+
+// Convert validated form data to a DTO; create and update take the same fields
+export const fromContactFormData = (formData: ContactFormData): CreateContactDto => ({
+  name: formData.name.trim(),
+  role: formData.role.trim() || null,
+  company: formData.company.trim() || null,
+  email: formData.email.trim() || null,
+  phone: formData.phone.trim() || null,
+  linkedInUrl: formData.linkedInUrl.trim() || null,
+  notes: formData.notes.trim() || null
+});
+
+// Alphabetical by name, which is how contacts are listed and picked
+export const sortContactsByName = (contacts: Contact[]): Contact[] =>
+  [...contacts].sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
+
+// "Name · Role, Company" for pickers and compact lists
+export const getContactSummary = (contact: Contact): string => {
+  const details = [contact.role, contact.company].filter(Boolean).join(', ');
+  return details ? `${contact.name} · ${details}` : contact.name;
+};
@@ -0,0 +1,162 @@
+// Enums matching backend API
+export enum InterviewFormat {
+  Phone = 1,
+  Video = 2,
+  Onsite = 3
+}
+
+export enum InterviewOutcome {
+  Scheduled = 1,
+  Passed = 2,
+  Failed = 3,
+  Cancelled = 4
+}
+
+// An interview round scheduled against a job application
+export interface Interview {
+  id: number;
+  jobApplicationId: number;
+  roundName: string; // e.g. "Phone screen", "Technical", "Final"
+  scheduledAt: string; // ISO date string (UTC instant)
+  timeZone: string; // IANA time zone the interview was scheduled in, e.g. "Europe/London"
+  durationMinutes: number;
+  format: InterviewFormat;
+  interviewers: string[];
+  location?: string; // Address for onsite interviews, meeting link or phone number otherwise
+  outcome: InterviewOutcome;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Create DTO for scheduling an interview; the application comes from the URL
+export interface CreateInterviewDto {
+  roundName: string;
+  scheduledAt: string; // ISO date string
+  timeZone: string;
+  durationMinutes: number;
+  format: InterviewFormat;
+  interviewers: string[];
+  location?: string;
+  outcome: InterviewOutcome;
+}
+
+// Update DTO for an existing interview
+export interface UpdateInterviewDto extends CreateInterviewDto {}
+
+// Form state for the interview form. The date and time are entered in the chosen time zone.
+export interface InterviewFormData {
+  roundName: string;
+  scheduledAt: string; // YYYY-MM-DDTHH:mm wall-clock time in timeZone
+  timeZone: string;
+  durationMinutes: string;
+  format: InterviewFormat;
+  interviewers: string; // Comma-separated
+  location: string;
+  outcome: InterviewOutcome;
+}
+
+// Form validation errors interface
+export interface InterviewFormErrors {
+  roundName?: string;
+  scheduledAt?: string;
+  timeZone?: string;
+  durationMinutes?: string;
+  format?: string;
+  location?: string;
+  outcome?: string;
+  general?: string;
+}
+
+// Form fields that can carry an error, for mapping server validation errors onto the form
+export const INTERVIEW_FORM_FIELDS: Exclude<keyof InterviewFormErrors, 'general'>[] = [
+  'roundName',
+  'scheduledAt',
+  'timeZone',
+  'durationMinutes',
+  'format',
+  'location',
+  'outcome'
+];
+
+export interface InterviewFormatOption {
+  value: InterviewFormat;
+  label: string;
+}
+
+export interface InterviewOutcomeOption {
+  value: InterviewOutcome;
+  label: string;
+}
+
+// Default length of a new interview, in minutes
+export const DEFAULT_INTERVIEW_DURATION = 60;
+
+export const getInterviewFormatLabel = (format: InterviewFormat): string => {
+  switch (format) {
+    case InterviewFormat.Phone:
+      return 'Phone';
+    case InterviewFormat.Video:
+      return 'Video';
+    case InterviewFormat.Onsite:
+      return 'Onsite';
+    default:
+      return 'Unknown';
+  }
+};
+
+export const getInterviewFormatOptions = (): InterviewFormatOption[] => [
+  { value: InterviewFormat.Phone, label: 'Phone' },
+  { value: InterviewFormat.Video, label: 'Video' },
+  { value: InterviewFormat.Onsite, label: 'Onsite' }
+];
+
+export const getInterviewOutcomeLabel = (outcome: InterviewOutcome): string => {
+  switch (outcome) {
+    case InterviewOutcome.Scheduled:
+      return 'Scheduled';
+    case InterviewOutcome.Passed:
+      return 'Passed';
+    case InterviewOutcome.Failed:
+      return 'Failed';
+    case InterviewOutcome.Cancelled:
+      return 'Cancelled';
+    default:
+      return 'Unknown';
+  }
+};
+
+// Bootstrap colour variant for an interview outcome
+export const getInterviewOutcomeVariant = (outcome: InterviewOutcome): string => {
+  switch (outcome) {
+    case InterviewOutcome.Scheduled:
+      return 'info';
+    case InterviewOutcome.Passed:
+      return 'success';
+    case InterviewOutcome.Failed:
+      return 'danger';
+    case InterviewOutcome.Cancelled:
+      return 'secondary';
+    default:
+      return 'light';
+  }
+};
+
+export const getInterviewOutcomeOptions = (): InterviewOutcomeOption[] => [
+  { value: InterviewOutcome.Scheduled, label: 'Scheduled' },
+  { value: InterviewOutcome.Passed, label: 'Passed' },
+  { value: InterviewOutcome.Failed, label: 'Failed' },
+  { value: InterviewOutcome.Cancelled, label: 'Cancelled' }
+];
+
+// End time of an interview as an ISO string
+export const getInterviewEnd = (interview: Pick<Interview, 'scheduledAt' | 'durationMinutes'>): string =>
+  new Date(new Date(interview.scheduledAt).getTime() + interview.durationMinutes * 60 * 1000).toISOString();
+
+// Interviews that haven't started yet and are still on, soonest first
+export const getUpcomingInterviews = (interviews: Interview[], now: Date = new Date()): Interview[] =>
+  interviews
+    .filter(interview =>
+      interview.outcome === InterviewOutcome.Scheduled &&
+      new Date(getInterviewEnd(interview)).getTime() >= now.getTime()
+    )
+    .sort((a, b) => new Date(a.scheduledAt).getTime() - new Date(b.scheduledAt).getTime());
@@ -0,0 +1,39 @@
+import { ApplicationStatus, JobApplication, getChangedFields, toUpdateDto } from './JobApplication';
+
+const app: JobApplication = {
+  id: 1,
+  company: 'Acme',
+  position: 'Engineer',
+  status: ApplicationStatus.Applied,
+  dateApplied: '2024-03-01T00:00:00Z',
+  contactIds: [1, 2],
+  createdAt: '2024-03-01T00:00:00Z',
+  updatedAt: '2024-03-01T10:00:00Z'
+};
+
+describe('getChangedFields', () => {
+  it('returns nothing when the form is unchanged', () => {
+    expect(getChangedFields(app, toUpdateDto(app))).toEqual({});
+  });
+
+  it('returns only the fields that differ', () => {
+    const dto = { ...toUpdateDto(app), position: 'Lead', status: ApplicationStatus.Interview };
+
+    expect(getChangedFields(app, dto)).toEqual({ position: 'Lead', status: ApplicationStatus.Interview });
+  });
+
+  it('treats missing optional fields as empty', () => {
+    expect(getChangedFields(app, { ...toUpdateDto(app), location: null, description: null })).toEqual({});
+    expect(getChangedFields(app, { ...toUpdateDto(app), location: 'Berlin' })).toEqual({ location: 'Berlin' });
+  });
+
+  it('compares dates by day', () => {
+    expect(getChangedFields(app, { ...toUpdateDto(app), dateApplied: '2024-03-01' })).toEqual({});
+    expect(getChangedFields(app, { ...toUpdateDto(app), dateApplied: '2024-03-02' })).toEqual({ dateApplied: '2024-03-02' });
+  });
+
+  it('compares contacts regardless of order', () => {
+    expect(getChangedFields(app, { ...toUpdateDto(app), contactIds: [2, 1] })).toEqual({});
+    expect(getChangedFields(app, { ...toUpdateDto(app), contactIds: [1] })).toEqual({ contactIds: [1] });
+  });
+});
@@ -8,6 +8,21 @@ export enum ApplicationStatus {
   Withdrawn = 6
 }
 
+export enum WorkMode {
+  Remote = 1,
+  Hybrid = 2,
+  Onsite = 3
+}
+
+// Where the application came from
+export enum ApplicationSource {
+  JobBoard = 1,
+  Referral = 2,
+  Recruiter = 3,
+  CompanyWebsite = 4,
+  Other = 5
+}
+
 // Main JobApplication interface matching backend JobApplicationDto
 export interface JobApplication {
   id: number;
@@ -15,6 +30,16 @@ export interface JobApplication {
   position: string;
   status: ApplicationStatus;
   dateApplied: string; // ISO date string
+  nextFollowUpDate?: string | null; // ISO date string; null when no follow-up is planned
+  postingUrl?: string | null;
+  location?: string | null;
+  workMode?: WorkMode | null;
+  salaryMin?: number | null;
+  salaryMax?: number | null;
+  salaryCurrency?: string | null; // ISO 4217 code, e.g. "USD"
+  source?: ApplicationSource | null;
+  description?: string | null;
+  contactIds?: number[]; // Contacts linked to this application
   createdAt: string;
   updatedAt: string;
 }
@@ -25,6 +50,16 @@ export interface CreateJobApplicationDto {
   position: string;
   status: ApplicationStatus;
   dateApplied: string; // ISO date string
+  nextFollowUpDate?: string | null;
+  postingUrl?: string | null;
+  location?: string | null;
+  workMode?: WorkMode | null;
+  salaryMin?: number | null;
+  salaryMax?: number | null;
+  salaryCurrency?: string | null;
+  source?: ApplicationSource | null;
+  description?: string | null;
+  contactIds?: number[];
 }
 
 // Update DTO interface matching backend UpdateJobApplicationDto
@@ -33,6 +68,46 @@ export interface UpdateJobApplicationDto {
   position: string;
   status: ApplicationStatus;
   dateApplied: string; // ISO date string
+  nextFollowUpDate?: string | null;
+  postingUrl?: string | null;
+  location?: string | null;
+  workMode?: WorkMode | null;
+  salaryMin?: number | null;
+  salaryMax?: number | null;
+  salaryCurrency?: string | null;
+  source?: ApplicationSource | null;
+  description?: string | null;
+  contactIds?: number[];
+}
+
+// Only the fields an update changes, sent as a PATCH so other fields edited elsewhere are left alone
+export type JobApplicationPatch = Partial<UpdateJobApplicationDto>;
+
+// Options for recording a status transition alongside an update
+export interface StatusChangeOptions {
+  previousStatus?: ApplicationStatus; // Status before the update; a history entry is recorded if it differs
+  statusNote?: string;
+}
+
+// Options for saving changes to an existing application
+export interface UpdateOptions extends StatusChangeOptions {
+  expectedUpdatedAt?: string; // updatedAt of the version that was edited; the save is rejected if it has changed since
+}
+
+// Options for a status-only change; the previous status is looked up when it's saved
+export type StatusUpdateOptions = Omit<UpdateOptions, 'previousStatus'>;
+
+// An edit submitted from the form, applied to the table optimistically before it is saved
+export interface JobApplicationEdit {
+  original: JobApplication;
+  changes: JobApplicationPatch;
+  options: UpdateOptions;
+}
+
+// An edit the server rejected because the application was changed elsewhere after it was loaded
+export interface JobApplicationConflict {
+  edit: JobApplicationEdit; // The edit's original is the base version both sides started from
+  theirs: JobApplication; // The application as it is on the server now
 }
 
 // Form state interface for client-side form handling
@@ -41,6 +116,16 @@ export interface JobApplicationFormData {
   position: string;
   status: ApplicationStatus;
   dateApplied: string;
+  nextFollowUpDate: string; // YYYY-MM-DD, or empty for none
+  postingUrl: string;
+  location: string;
+  workMode: WorkMode | ''; // Empty when not specified
+  salaryMin: string;
+  salaryMax: string;
+  salaryCurrency: string;
+  source: ApplicationSource | ''; // Empty when not specified
+  description: string;
+  contactIds: number[];
 }
 
 // Validation errors interface
@@ -49,9 +134,35 @@ export interface FormErrors {
   position?: string;
   status?: string;
   dateApplied?: string;
+  nextFollowUpDate?: string;
+  postingUrl?: string;
+  location?: string;
+  workMode?: string;
+  salaryMin?: string;
+  salaryMax?: string;
+  salaryCurrency?: string;
+  source?: string;
+  description?: string;
   general?: string;
 }
 
+// Form fields that can carry an error, for mapping server validation errors onto the form
+export const JOB_APPLICATION_FORM_FIELDS: Exclude<keyof FormErrors, 'general'>[] = [
+  'company',
+  'position',
+  'status',
+  'dateApplied',
+  'nextFollowUpDate',
+  'postingUrl',
+  'location',
+  'workMode',
+  'salaryMin',
+  'salaryMax',
+  'salaryCurrency',
+  'source',
+  'description'
+];
+
 // API response interfaces
 export interface ApiResponse<T> {
   data: T;
@@ -73,6 +184,106 @@ export interface PaginationParams {
   pageSize: number;
 }
 
+// Sort direction for list queries
+export type SortDirection = 'asc' | 'desc';
+
+// Sortable job application fields
+export type JobApplicationSortField = 'company' | 'position' | 'status' | 'dateApplied' | 'updatedAt';
+
+// Single sort instruction, e.g. { field: 'dateApplied', direction: 'desc' }
+export interface SortDescriptor {
+  field: JobApplicationSortField;
+  direction: SortDirection;
+}
+
+// Filter criteria for job application list queries
+export interface JobApplicationFilters {
+  search?: string; // Free text matched against company, position, location and notes
+  statuses?: ApplicationStatus[];
+  dateAppliedFrom?: string; // YYYY-MM-DD, inclusive
+  dateAppliedTo?: string; // YYYY-MM-DD, inclusive
+  updatedWithinDays?: number;
+  workModes?: WorkMode[];
+  sources?: ApplicationSource[];
+  location?: string; // Free text matched against location
+}
+
+// Filters plus ordering for job application list queries
+export interface JobApplicationListQuery extends JobApplicationFilters {
+  sort?: SortDescriptor[];
+}
+
+// Query parameters for paged job application requests
+export interface JobApplicationQueryParams extends PaginationParams, JobApplicationListQuery {}
+
+// Page size options for paged views
+export const PAGE_SIZE_OPTIONS: number[] = [5, 10, 25, 50];
+
+// "Updated within" options for the filter bar, in days
+export const UPDATED_WITHIN_OPTIONS: number[] = [7, 14, 30, 90];
+
+// Currencies offered for salary ranges (ISO 4217)
+export const CURRENCY_OPTIONS: string[] = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'SGD', 'JPY', 'INR', 'THB', 'MMK'];
+export const DEFAULT_CURRENCY = 'USD';
+
+export interface WorkModeOption {
+  value: WorkMode;
+  label: string;
+}
+
+export interface SourceOption {
+  value: ApplicationSource;
+  label: string;
+}
+
+export const getWorkModeOptions = (): WorkModeOption[] => [
+  { value: WorkMode.Remote, label: 'Remote' },
+  { value: WorkMode.Hybrid, label: 'Hybrid' },
+  { value: WorkMode.Onsite, label: 'Onsite' }
+];
+
+export const getWorkModeLabel = (workMode: WorkMode): string =>
+  getWorkModeOptions().find(option => option.value === workMode)?.label ?? 'Unknown';
+
+export const getSourceOptions = (): SourceOption[] => [
+  { value: ApplicationSource.JobBoard, label: 'Job Board' },
+  { value: ApplicationSource.Referral, label: 'Referral' },
+  { value: ApplicationSource.Recruiter, label: 'Recruiter' },
+  { value: ApplicationSource.CompanyWebsite, label: 'Company Website' },
+  { value: ApplicationSource.Other, label: 'Other' }
+];
+
+export const getSourceLabel = (source: ApplicationSource): string =>
+  getSourceOptions().find(option => option.value === source)?.label ?? 'Unknown';
+
+// Salary range for display, e.g. "$90,000 - $120,000", "From €50,000"; empty when no salary is set
+export const formatSalaryRange = (
+  app: Pick<JobApplication, 'salaryMin' | 'salaryMax' | 'salaryCurrency'>
+): string => {
+  const format = (amount: number): string => {
+    try {
+      return amount.toLocaleString('en-US', {
+        style: 'currency',
+        currency: app.salaryCurrency || DEFAULT_CURRENCY,
+        maximumFractionDigits: 0
+      });
+    } catch {
+      return `${amount.toLocaleString('en-US')} ${app.salaryCurrency || ''}`.trim();
+    }
+  };
+
+  const hasMin = app.salaryMin !== null && app.salaryMin !== undefined;
+  const hasMax = app.salaryMax !== null && app.salaryMax !== undefined;
+  if (hasMin && hasMax) {
+    return app.salaryMin === app.salaryMax
+      ? format(app.salaryMin!)
+      : `${format(app.salaryMin!)} - ${format(app.salaryMax!)}`;
+  }
+  if (hasMin) return `From ${format(app.salaryMin!)}`;
+  if (hasMax) return `Up to ${format(app.salaryMax!)}`;
+  return '';
+};
+
 // Status option for dropdown
 export interface StatusOption {
   value: ApplicationStatus;
@@ -99,6 +310,26 @@ export const getStatusLabel = (status: ApplicationStatus): string => {
   }
 };
 
+// Bootstrap colour variant for a status (used for badges and text colours)
+export const getStatusVariant = (status: ApplicationStatus): string => {
+  switch (status) {
+    case ApplicationStatus.Applied:
+      return 'primary';
+    case ApplicationStatus.UnderReview:
+      return 'warning';
+    case ApplicationStatus.Interview:
+      return 'info';
+    case ApplicationStatus.Offer:
+      return 'success';
+    case ApplicationStatus.Rejected:
+      return 'danger';
+    case ApplicationStatus.Withdrawn:
+      return 'secondary';
+    default:
+      return 'light';
+  }
+};
+
 // Get all status options for dropdown
 export const getStatusOptions = (): StatusOption[] => {
   return [
@@ -111,6 +342,97 @@ export const getStatusOptions = (): StatusOption[] => {
   ];
 };
 
+// Statuses in pipeline order: active stages by progression, then closed outcomes.
+// Used for sorting and column layout instead of relying on the numeric enum values.
+export const STATUS_PIPELINE_ORDER: ApplicationStatus[] = [
+  ApplicationStatus.Applied,
+  ApplicationStatus.UnderReview,
+  ApplicationStatus.Interview,
+  ApplicationStatus.Offer,
+  ApplicationStatus.Rejected,
+  ApplicationStatus.Withdrawn
+];
+
+// Position of a status in the pipeline (unknown statuses sort last)
+export const getStatusPipelineRank = (status: ApplicationStatus): number => {
+  const rank = STATUS_PIPELINE_ORDER.indexOf(status);
+  return rank === -1 ? STATUS_PIPELINE_ORDER.length : rank;
+};
+
+const SORT_FIELDS: JobApplicationSortField[] = ['company', 'position', 'status', 'dateApplied', 'updatedAt'];
+
+// Serialize sort descriptors as "field:direction" pairs, e.g. "dateApplied:desc,company:asc"
+export const serializeSort = (sort: SortDescriptor[]): string =>
+  sort.map(s => `${s.field}:${s.direction}`).join(',');
+
+// Parse the "field:direction" format, dropping unknown fields and duplicates
+export const parseSort = (value: string | null): SortDescriptor[] => {
+  if (!value) return [];
+
+  const sort: SortDescriptor[] = [];
+  value.split(',').forEach(part => {
+    const [field, direction] = part.split(':');
+    if (
+      SORT_FIELDS.includes(field as JobApplicationSortField) &&
+      !sort.some(s => s.field === field)
+    ) {
+      sort.push({
+        field: field as JobApplicationSortField,
+        direction: direction === 'desc' ? 'desc' : 'asc'
+      });
+    }
+  });
+  return sort;
+};
+
+// Compare two applications on a single field
+const compareByField = (
+  a: JobApplication,
+  b: JobApplication,
+  field: JobApplicationSortField
+): number => {
+  switch (field) {
+    case 'company':
+    case 'position':
+      return a[field].localeCompare(b[field], undefined, { sensitivity: 'base' });
+    case 'status':
+      return getStatusPipelineRank(a.status) - getStatusPipelineRank(b.status);
+    case 'dateApplied':
+    case 'updatedAt':
+      return new Date(a[field]).getTime() - new Date(b[field]).getTime();
+    default:
+      return 0;
+  }
+};
+
+// Compare two applications by a list of sort descriptors, in priority order
+export const compareJobApplications = (
+  a: JobApplication,
+  b: JobApplication,
+  sort: SortDescriptor[]
+): number => {
+  for (const { field, direction } of sort) {
+    const result = compareByField(a, b, field);
+    if (result !== 0) {
+      return direction === 'asc' ? result : -result;
+    }
+  }
+  return 0;
+};
+
+// Stable multi-column sort: rows that compare equal keep their original relative order
+export const sortJobApplications = (
+  applications: JobApplication[],
+  sort: SortDescriptor[]
+): JobApplication[] => {
+  if (sort.length === 0) return applications;
+
+  return applications
+    .map((app, index) => ({ app, index }))
+    .sort((a, b) => compareJobApplications(a.app, b.app, sort) || a.index - b.index)
+    .map(({ app }) => app);
+};
+
 // Utility function to format date for display
 export const formatDate = (dateString: string): string => {
   const date = new Date(dateString);
@@ -121,8 +443,127 @@ export const formatDate = (dateString: string): string => {
   });
 };
 
+// Utility function to format a timestamp with time of day for display
+export const formatDateTime = (dateString: string): string => {
+  const date = new Date(dateString);
+  return date.toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+};
+
 // Utility function to format date for input field (YYYY-MM-DD)
 export const formatDateForInput = (dateString: string): string => {
   const date = new Date(dateString);
   return date.toISOString().split('T')[0];
-};
\ No newline at end of file
+};
+
+// Editable fields of a saved application, for updates that change only some of them
+export const toUpdateDto = (app: JobApplication): UpdateJobApplicationDto => ({
+  company: app.company,
+  position: app.position,
+  status: app.status,
+  dateApplied: app.dateApplied,
+  nextFollowUpDate: app.nextFollowUpDate ?? null,
+  postingUrl: app.postingUrl ?? null,
+  location: app.location ?? null,
+  workMode: app.workMode ?? null,
+  salaryMin: app.salaryMin ?? null,
+  salaryMax: app.salaryMax ?? null,
+  salaryCurrency: app.salaryCurrency ?? null,
+  source: app.source ?? null,
+  description: app.description ?? null,
+  contactIds: app.contactIds ?? []
+});
+
+// Whether two values of an editable field are the same. Dates are compared by day, since the form
+// only edits the day, and contact links ignore order.
+export const isSameFieldValue = (field: keyof UpdateJobApplicationDto, a: unknown, b: unknown): boolean => {
+  if (field === 'contactIds') {
+    const sorted = (ids: unknown) => [...((ids as number[] | undefined) ?? [])].sort((x, y) => x - y).join(',');
+    return sorted(a) === sorted(b);
+  }
+  if ((field === 'dateApplied' || field === 'nextFollowUpDate') && a && b) {
+    return formatDateForInput(a as string) === formatDateForInput(b as string);
+  }
+  return (a ?? null) === (b ?? null);
+};
+
+// The fields of an update that differ from the saved application
+export const getChangedFields = (app: JobApplication, dto: UpdateJobApplicationDto): JobApplicationPatch => {
+  const current = toUpdateDto(app);
+  return (Object.keys(dto) as (keyof UpdateJobApplicationDto)[])
+    .filter(field => !isSameFieldValue(field, current[field], dto[field]))
+    .reduce<JobApplicationPatch>((changes, field) => ({ ...changes, [field]: dto[field] }), {});
+};
+
+// Form data for a new application
+export const getEmptyFormData = (): JobApplicationFormData => ({
+  company: '',
+  position: '',
+  status: ApplicationStatus.Applied,
+  dateApplied: new Date().toISOString().split('T')[0], // Today's date in YYYY-MM-DD format
+  nextFollowUpDate: '',
+  postingUrl: '',
+  location: '',
+  workMode: '',
+  salaryMin: '',
+  salaryMax: '',
+  salaryCurrency: DEFAULT_CURRENCY,
+  source: '',
+  description: '',
+  contactIds: []
+});
+
+// Build editable form data from a saved application
+export const toFormData = (app: JobApplication): JobApplicationFormData => ({
+  company: app.company,
+  position: app.position,
+  status: app.status,
+  dateApplied: formatDateForInput(app.dateApplied),
+  nextFollowUpDate: app.nextFollowUpDate ? formatDateForInput(app.nextFollowUpDate) : '',
+  postingUrl: app.postingUrl || '',
+  location: app.location || '',
+  workMode: app.workMode ?? '',
+  salaryMin: app.salaryMin?.toString() ?? '',
+  salaryMax: app.salaryMax?.toString() ?? '',
+  salaryCurrency: app.salaryCurrency || DEFAULT_CURRENCY,
+  source: app.source ?? '',
+  description: app.description || '',
+  contactIds: app.contactIds ?? []
+});
+
+// Convert a raw input value to its form field's type; enum selects hold numbers
+export const parseFormFieldValue = (name: string, value: string): string | number => {
+  if (name === 'status') {
+    return parseInt(value);
+  }
+  if (name === 'workMode' || name === 'source') {
+    return value === '' ? '' : parseInt(value);
+  }
+  return value;
+};
+
+// Convert validated form data to a DTO; create and update take the same fields
+export const fromFormData = (formData: JobApplicationFormData): CreateJobApplicationDto => ({
+  company: formData.company.trim(),
+  position: formData.position.trim(),
+  status: formData.status,
+  dateApplied: new Date(formData.dateApplied).toISOString(),
+  nextFollowUpDate: formData.nextFollowUpDate ? new Date(formData.nextFollowUpDate).toISOString() : null,
+  postingUrl: formData.postingUrl.trim() || null,
+  location: formData.location.trim() || null,
+  workMode: formData.workMode === '' ? null : formData.workMode,
+  salaryMin: formData.salaryMin.trim() === '' ? null : Number(formData.salaryMin),
+  salaryMax: formData.salaryMax.trim() === '' ? null : Number(formData.salaryMax),
+  // A currency without an amount means nothing, so only keep it alongside a salary
+  salaryCurrency: formData.salaryMin.trim() === '' && formData.salaryMax.trim() === ''
+    ? null
+    : formData.salaryCurrency,
+  source: formData.source === '' ? null : formData.source,
+  description: formData.description.trim() || null,
+  contactIds: formData.contactIds
+});
@@ -0,0 +1,35 @@
+// A timestamped journal entry on a job application, written in markdown
+export interface Note {
+  id: number;
+  jobApplicationId: number;
+  body: string; // Markdown source
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Create DTO for adding a note; the application comes from the URL
+export interface CreateNoteDto {
+  body: string;
+}
+
+// Update DTO for editing a note
+export interface UpdateNoteDto extends CreateNoteDto {}
+
+// Longest note body the API accepts
+export const NOTE_MAX_LENGTH = 10000;
+
+// Newest first, which is how the journal and previews read
+export const sortNotesNewestFirst = (notes: Note[]): Note[] =>
+  [...notes].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+// Plain-text one-liner of a note for tooltips, with markdown syntax stripped
+export const getNotePreview = (body: string, maxLength: number = 140): string => {
+  const text = body
+    .replace(/```[\s\S]*?(```|$)/g, ' ')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+[.)])\s+/gm, '')
+    .replace(/[*_`]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+};
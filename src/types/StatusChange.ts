@@ -0,0 +1,18 @@
+import { ApplicationStatus } from './JobApplication';
+
+// A single status transition recorded against a job application
+export interface StatusChange {
+  id: number;
+  jobApplicationId: number;
+  fromStatus: ApplicationStatus | null; // null for the status an application was created with
+  toStatus: ApplicationStatus;
+  changedAt: string; // ISO date string
+  note?: string;
+}
+
+// Create DTO for recording a status transition
+export interface CreateStatusChangeDto {
+  fromStatus: ApplicationStatus | null;
+  toStatus: ApplicationStatus;
+  note?: string;
+}
@@ -0,0 +1,186 @@
+import { JobApplication, ApplicationStatus } from '../types/JobApplication';
+import { StatusChange } from '../types/StatusChange';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Funnel stages in the order an application progresses through them
+export const FUNNEL_STAGES: ApplicationStatus[] = [
+  ApplicationStatus.Applied,
+  ApplicationStatus.UnderReview,
+  ApplicationStatus.Interview,
+  ApplicationStatus.Offer
+];
+
+export interface DateRange {
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+}
+
+export interface FunnelStage {
+  status: ApplicationStatus;
+  count: number;
+  conversionFromPrevious: number; // 0-1, share of the previous stage that reached this one
+  conversionFromStart: number; // 0-1, share of all applications that reached this one
+}
+
+export interface WeeklyCount {
+  weekStart: string; // YYYY-MM-DD (Monday)
+  count: number;
+}
+
+export interface OutcomeRatios {
+  total: number;
+  rejected: number;
+  withdrawn: number;
+  rejectionRate: number; // 0-1
+  withdrawalRate: number; // 0-1
+}
+
+// Parse a YYYY-MM-DD string as a local calendar date
+const parseLocalDate = (value: string): Date => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// Format a date as YYYY-MM-DD in local time
+export const toLocalDateKey = (date: Date): string => {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Monday of the week containing the date, at local midnight
+const startOfWeek = (date: Date): Date => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const offset = (start.getDay() + 6) % 7; // Sunday = 6, Monday = 0
+  start.setDate(start.getDate() - offset);
+  return start;
+};
+
+// Keep applications whose dateApplied falls inside the range
+export const filterByDateRange = (applications: JobApplication[], range: DateRange): JobApplication[] => {
+  const from = range.from ? parseLocalDate(range.from).getTime() : -Infinity;
+  const to = range.to ? parseLocalDate(range.to).getTime() + MS_PER_DAY : Infinity;
+  return applications.filter(app => {
+    const applied = new Date(app.dateApplied).getTime();
+    return applied >= from && applied < to;
+  });
+};
+
+// Group status history entries by application, oldest first
+export const groupHistoryByApplication = (history: StatusChange[]): Map<number, StatusChange[]> => {
+  const grouped = new Map<number, StatusChange[]>();
+  history.forEach(entry => {
+    const entries = grouped.get(entry.jobApplicationId) || [];
+    entries.push(entry);
+    grouped.set(entry.jobApplicationId, entries);
+  });
+  grouped.forEach(entries =>
+    entries.sort((a, b) => new Date(a.changedAt).getTime() - new Date(b.changedAt).getTime())
+  );
+  return grouped;
+};
+
+// Furthest funnel stage an application reached, using its history so that
+// applications later rejected or withdrawn still count for the stages they passed
+const furthestStage = (app: JobApplication, history: StatusChange[]): number => {
+  const statuses = [app.status, ...history.map(entry => entry.toStatus)];
+  return statuses.reduce((furthest, status) => Math.max(furthest, FUNNEL_STAGES.indexOf(status)), 0);
+};
+
+/**
+ * Conversion funnel: how many applications reached each stage and what share
+ * of the previous stage made it through
+ */
+export const computeFunnel = (
+  applications: JobApplication[],
+  historyByApplication: Map<number, StatusChange[]>
+): FunnelStage[] => {
+  const reached = FUNNEL_STAGES.map(() => 0);
+  applications.forEach(app => {
+    const furthest = furthestStage(app, historyByApplication.get(app.id) || []);
+    for (let stage = 0; stage <= furthest; stage++) {
+      reached[stage]++;
+    }
+  });
+
+  return FUNNEL_STAGES.map((status, index) => ({
+    status,
+    count: reached[index],
+    conversionFromPrevious: index === 0
+      ? (reached[0] > 0 ? 1 : 0)
+      : (reached[index - 1] > 0 ? reached[index] / reached[index - 1] : 0),
+    conversionFromStart: reached[0] > 0 ? reached[index] / reached[0] : 0
+  }));
+};
+
+/**
+ * Median number of days from dateApplied to the first recorded status change,
+ * or null when no application has moved yet
+ */
+export const medianDaysToFirstResponse = (
+  applications: JobApplication[],
+  historyByApplication: Map<number, StatusChange[]>
+): number | null => {
+  const durations: number[] = [];
+  applications.forEach(app => {
+    const firstChange = (historyByApplication.get(app.id) || []).find(entry => entry.fromStatus !== null);
+    if (firstChange) {
+      const days = (new Date(firstChange.changedAt).getTime() - new Date(app.dateApplied).getTime()) / MS_PER_DAY;
+      durations.push(Math.max(0, days));
+    }
+  });
+
+  if (durations.length === 0) return null;
+
+  durations.sort((a, b) => a - b);
+  const middle = Math.floor(durations.length / 2);
+  return durations.length % 2 === 0
+    ? (durations[middle - 1] + durations[middle]) / 2
+    : durations[middle];
+};
+
+/**
+ * Applications per week across the range, including weeks with no applications.
+ * Open-ended ranges start at the earliest application and end today.
+ */
+export const applicationsPerWeek = (applications: JobApplication[], range: DateRange): WeeklyCount[] => {
+  if (applications.length === 0 && !range.from) return [];
+
+  const appliedDates = applications.map(app => new Date(app.dateApplied));
+  const earliest = appliedDates.reduce((min, date) => (date < min ? date : min), new Date());
+  const first = startOfWeek(range.from ? parseLocalDate(range.from) : earliest);
+  const last = startOfWeek(range.to ? parseLocalDate(range.to) : new Date());
+
+  const counts = new Map<string, number>();
+  for (let week = new Date(first); week <= last; week.setDate(week.getDate() + 7)) {
+    counts.set(toLocalDateKey(week), 0);
+  }
+  appliedDates.forEach(date => {
+    const key = toLocalDateKey(startOfWeek(date));
+    if (counts.has(key)) {
+      counts.set(key, (counts.get(key) || 0) + 1);
+    }
+  });
+
+  const weeks: WeeklyCount[] = [];
+  counts.forEach((count, weekStart) => weeks.push({ weekStart, count }));
+  return weeks;
+};
+
+// Share of applications that ended rejected or withdrawn
+export const computeOutcomeRatios = (applications: JobApplication[]): OutcomeRatios => {
+  const total = applications.length;
+  const rejected = applications.filter(app => app.status === ApplicationStatus.Rejected).length;
+  const withdrawn = applications.filter(app => app.status === ApplicationStatus.Withdrawn).length;
+  return {
+    total,
+    rejected,
+    withdrawn,
+    rejectionRate: total > 0 ? rejected / total : 0,
+    withdrawalRate: total > 0 ? withdrawn / total : 0
+  };
+};
+
+// Format a 0-1 ratio as a whole percentage
+export const formatPercent = (ratio: number): string => `${Math.round(ratio * 100)}%`;
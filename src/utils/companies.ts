@@ -0,0 +1,98 @@
+import { JobApplication, ApplicationStatus, STATUS_PIPELINE_ORDER } from '../types/JobApplication';
+
+// Legal-form suffixes that don't distinguish one employer from another
+const COMPANY_SUFFIXES = new Set([
+  'inc', 'incorporated', 'llc', 'llp', 'ltd', 'limited', 'corp', 'corporation', 'co', 'company',
+  'plc', 'gmbh', 'ag', 'sa', 'sas', 'srl', 'bv', 'nv', 'pty', 'pte', 'oy', 'ab', 'as', 'kk'
+]);
+
+/**
+ * Grouping key for a company name: case, punctuation, extra spaces and trailing legal
+ * suffixes are ignored, so "Acme", "acme inc." and "ACME, Inc" all give "acme"
+ */
+export const normalizeCompanyName = (name: string): string => {
+  const words = name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    // Join dotted abbreviations first so "S.A." matches the "sa" suffix and "I.B.M." gives "ibm"
+    .replace(/\b([a-z])\.(?=[a-z]\b)/g, '$1')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+
+  // Strip suffixes from the end, but never the whole name
+  while (words.length > 1 && COMPANY_SUFFIXES.has(words[words.length - 1])) {
+    words.pop();
+  }
+  return words.join(' ');
+};
+
+export interface CompanyGroup {
+  key: string; // Normalized name
+  name: string; // Spelling shown for the group
+  applications: JobApplication[]; // Most recently applied first
+  statusCounts: Record<ApplicationStatus, number>;
+  lastActivity: string; // Latest of any application's dateApplied or updatedAt
+}
+
+const getLastActivity = (app: JobApplication): string =>
+  new Date(app.updatedAt).getTime() > new Date(app.dateApplied).getTime() ? app.updatedAt : app.dateApplied;
+
+// The spelling used most often, preferring the most recent on a tie
+const pickDisplayName = (applications: JobApplication[]): string => {
+  const counts = new Map<string, number>();
+  applications.forEach(app => {
+    const name = app.company.trim();
+    counts.set(name, (counts.get(name) || 0) + 1);
+  });
+  let best = '';
+  let bestCount = 0;
+  counts.forEach((count, name) => {
+    if (count > bestCount) {
+      best = name;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+const emptyStatusCounts = (): Record<ApplicationStatus, number> =>
+  STATUS_PIPELINE_ORDER.reduce(
+    (counts, status) => ({ ...counts, [status]: 0 }),
+    {} as Record<ApplicationStatus, number>
+  );
+
+// Group applications by employer, most recent activity first
+export const groupByCompany = (applications: JobApplication[]): CompanyGroup[] => {
+  const groups = new Map<string, JobApplication[]>();
+  applications.forEach(app => {
+    const key = normalizeCompanyName(app.company);
+    if (!key) return;
+    groups.set(key, [...(groups.get(key) || []), app]);
+  });
+
+  return Array.from(groups.entries())
+    .map(([key, apps]) => {
+      const sorted = [...apps].sort(
+        (a, b) => new Date(b.dateApplied).getTime() - new Date(a.dateApplied).getTime()
+      );
+      const statusCounts = emptyStatusCounts();
+      sorted.forEach(app => {
+        statusCounts[app.status] = (statusCounts[app.status] || 0) + 1;
+      });
+      const lastActivity = sorted
+        .map(getLastActivity)
+        .reduce((latest, date) => (new Date(date).getTime() > new Date(latest).getTime() ? date : latest));
+
+      return { key, name: pickDisplayName(sorted), applications: sorted, statusCounts, lastActivity };
+    })
+    .sort((a, b) => new Date(b.lastActivity).getTime() - new Date(a.lastActivity).getTime());
+};
+
+// Distinct company names for autocomplete, one spelling per employer, alphabetical
+export const getCompanyNameSuggestions = (applications: JobApplication[]): string[] =>
+  groupByCompany(applications)
+    .map(group => group.name)
+    .sort((a, b) => a.localeCompare(b, undefined, { sensitivity: 'base' }));
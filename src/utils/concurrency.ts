@@ -0,0 +1,31 @@
+/**
+ * Run an async task for every item with at most `limit` running at once.
+ * Every item is attempted even if some fail; results come back in input order as
+ * settled results, and `onProgress` is called after each item finishes.
+ */
+export const runWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>,
+  onProgress?: (completed: number, total: number) => void
+): Promise<PromiseSettledResult<R>[]> => {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let nextIndex = 0;
+  let completed = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = { status: 'fulfilled', value: await task(items[index]) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+      completed++;
+      onProgress?.(completed, items.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker));
+  return results;
+};
@@ -0,0 +1,81 @@
+import { ApplicationStatus, JobApplication, JobApplicationConflict } from '../types/JobApplication';
+import { getFieldConflicts, resolveConflict } from './conflicts';
+
+const original: JobApplication = {
+  id: 1,
+  company: 'Acme',
+  position: 'Engineer',
+  status: ApplicationStatus.Applied,
+  dateApplied: '2024-03-01T00:00:00Z',
+  nextFollowUpDate: null,
+  location: 'Berlin',
+  contactIds: [1, 2],
+  createdAt: '2024-03-01T00:00:00Z',
+  updatedAt: '2024-03-01T10:00:00Z'
+};
+
+// A conflict where I changed `changes` on the original and they saved `theirs` in the meantime
+const conflictOf = (
+  changes: JobApplicationConflict['edit']['changes'],
+  theirs: Partial<JobApplication>
+): JobApplicationConflict => ({
+  edit: { original, changes, options: { previousStatus: original.status, expectedUpdatedAt: original.updatedAt } },
+  theirs: { ...original, ...theirs, updatedAt: '2024-03-02T10:00:00Z' }
+});
+
+describe('getFieldConflicts', () => {
+  it('reports a field both sides changed to different values', () => {
+    const conflict = conflictOf({ location: 'Paris' }, { location: 'London' });
+
+    expect(getFieldConflicts(conflict)).toEqual([
+      { field: 'location', label: 'Location', base: 'Berlin', mine: 'Paris', theirs: 'London' }
+    ]);
+  });
+
+  it('ignores fields only they changed', () => {
+    const conflict = conflictOf({ location: 'Paris' }, { position: 'Senior Engineer' });
+
+    expect(getFieldConflicts(conflict)).toEqual([]);
+  });
+
+  it('ignores fields both sides changed to the same value', () => {
+    const conflict = conflictOf({ status: ApplicationStatus.Interview }, { status: ApplicationStatus.Interview });
+
+    expect(getFieldConflicts(conflict)).toEqual([]);
+  });
+
+  it('compares contacts regardless of order', () => {
+    expect(getFieldConflicts(conflictOf({ contactIds: [3, 1] }, { contactIds: [1, 3] }))).toEqual([]);
+    expect(getFieldConflicts(conflictOf({ contactIds: [1, 3] }, { contactIds: [2] }))).toHaveLength(1);
+  });
+});
+
+describe('resolveConflict', () => {
+  it('keeps my value by default and rebases onto their version', () => {
+    const conflict = conflictOf({ location: 'Paris' }, { location: 'London', status: ApplicationStatus.Interview });
+
+    expect(resolveConflict(conflict, {})).toEqual({
+      original: conflict.theirs,
+      changes: { location: 'Paris' },
+      options: { previousStatus: ApplicationStatus.Interview, expectedUpdatedAt: '2024-03-02T10:00:00Z' }
+    });
+  });
+
+  it('drops the fields where their value was chosen', () => {
+    const conflict = conflictOf({ location: 'Paris', company: 'Acme Inc' }, { location: 'London' });
+
+    expect(resolveConflict(conflict, { location: 'theirs' }).changes).toEqual({ company: 'Acme Inc' });
+  });
+
+  it('keeps changes to fields only I edited', () => {
+    const conflict = conflictOf({ position: 'Lead' }, { location: 'London' });
+
+    expect(resolveConflict(conflict, {}).changes).toEqual({ position: 'Lead' });
+  });
+
+  it('leaves out changes they already made', () => {
+    const conflict = conflictOf({ contactIds: [2, 1, 3] }, { contactIds: [3, 2, 1] });
+
+    expect(resolveConflict(conflict, {}).changes).toEqual({});
+  });
+});
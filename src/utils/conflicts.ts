@@ -0,0 +1,111 @@
+import {
+  JobApplicationConflict,
+  JobApplicationEdit,
+  JobApplicationPatch,
+  UpdateJobApplicationDto,
+  formatDate,
+  getStatusLabel,
+  getWorkModeLabel,
+  getSourceLabel,
+  isSameFieldValue,
+  toUpdateDto
+} from '../types/JobApplication';
+
+export type EditableField = keyof UpdateJobApplicationDto;
+
+// Which side's value to keep for a field both sides changed
+export type ConflictChoice = 'mine' | 'theirs';
+
+export interface FieldConflict {
+  field: EditableField;
+  label: string;
+  base: unknown; // Value both sides started from
+  mine: unknown;
+  theirs: unknown;
+}
+
+const FIELD_LABELS: Record<EditableField, string> = {
+  company: 'Company',
+  position: 'Position',
+  status: 'Status',
+  dateApplied: 'Date Applied',
+  nextFollowUpDate: 'Next Follow-up',
+  postingUrl: 'Posting URL',
+  location: 'Location',
+  workMode: 'Work Mode',
+  salaryMin: 'Salary Min',
+  salaryMax: 'Salary Max',
+  salaryCurrency: 'Currency',
+  source: 'Source',
+  description: 'Description',
+  contactIds: 'Contacts'
+};
+
+const editedFields = (changes: JobApplicationPatch): EditableField[] =>
+  Object.keys(changes) as EditableField[];
+
+/**
+ * Fields both sides changed to different values, which the user has to choose between.
+ * Fields only one side changed merge by themselves: theirs are already saved, and mine are
+ * re-sent with the retry.
+ */
+export const getFieldConflicts = ({ edit, theirs }: JobApplicationConflict): FieldConflict[] => {
+  const base = toUpdateDto(edit.original);
+  const current = toUpdateDto(theirs);
+
+  return editedFields(edit.changes)
+    .filter(field =>
+      !isSameFieldValue(field, base[field], current[field]) &&
+      !isSameFieldValue(field, edit.changes[field], current[field])
+    )
+    .map(field => ({
+      field,
+      label: FIELD_LABELS[field],
+      base: base[field],
+      mine: edit.changes[field],
+      theirs: current[field]
+    }));
+};
+
+/**
+ * Rebase an edit onto the server's current version, keeping my value for every field
+ * except those the user chose to take from theirs. The result can be saved as a new edit.
+ */
+export const resolveConflict = (
+  { edit, theirs }: JobApplicationConflict,
+  choices: Partial<Record<EditableField, ConflictChoice>>
+): JobApplicationEdit => {
+  const current = toUpdateDto(theirs);
+  const changes = editedFields(edit.changes)
+    .filter(field => choices[field] !== 'theirs' && !isSameFieldValue(field, edit.changes[field], current[field]))
+    .reduce<JobApplicationPatch>((merged, field) => ({ ...merged, [field]: edit.changes[field] }), {});
+
+  return {
+    original: theirs,
+    changes,
+    options: { ...edit.options, previousStatus: theirs.status, expectedUpdatedAt: theirs.updatedAt }
+  };
+};
+
+// Human-readable value of an editable field, for showing the versions side by side
+export const formatFieldValue = (field: EditableField, value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '(empty)';
+
+  switch (field) {
+    case 'status':
+      return getStatusLabel(value as UpdateJobApplicationDto['status']);
+    case 'workMode':
+      return getWorkModeLabel(value as NonNullable<UpdateJobApplicationDto['workMode']>);
+    case 'source':
+      return getSourceLabel(value as NonNullable<UpdateJobApplicationDto['source']>);
+    case 'dateApplied':
+    case 'nextFollowUpDate':
+      return formatDate(value as string);
+    case 'contactIds': {
+      const count = (value as number[]).length;
+      return count === 1 ? '1 contact' : `${count} contacts`;
+    }
+    default:
+      return String(value);
+  }
+};
@@ -0,0 +1,43 @@
+import { parseCsv, parseCsvRecords, toCsv } from './csv';
+
+describe('parseCsv', () => {
+  it('splits rows and fields', () => {
+    expect(parseCsv('a,b\n1,2')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('handles quoted fields with delimiters and escaped quotes', () => {
+    expect(parseCsv('"Acme, Inc","Say ""hi"""')).toEqual([['Acme, Inc', 'Say "hi"']]);
+  });
+
+  it('keeps line breaks inside quoted fields', () => {
+    expect(parseCsv('name,notes\r\nAcme,"line one\r\nline two"\r\n')).toEqual([
+      ['name', 'notes'],
+      ['Acme', 'line one\r\nline two']
+    ]);
+  });
+
+  it('strips a leading byte order mark', () => {
+    expect(parseCsv('\ufeffcompany,position\nAcme,Engineer')).toEqual([['company', 'position'], ['Acme', 'Engineer']]);
+  });
+
+  it('skips blank lines but keeps empty fields', () => {
+    expect(parseCsv('a,b\n\n,2\n')).toEqual([['a', 'b'], ['', '2']]);
+  });
+
+  it('accepts another delimiter', () => {
+    expect(parseCsv('a;b\n"1;2";3', ';')).toEqual([['a', 'b'], ['1;2', '3']]);
+  });
+
+  it('reads back what toCsv writes', () => {
+    const rows = [['Company', 'Notes'], ['Acme, Inc', 'Said "soon"\nfollow up']];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
+
+describe('parseCsvRecords', () => {
+  it('numbers rows by the line they start on', () => {
+    const text = 'company,notes\n\nAcme,"two\nlines"\r\nGlobex,x\rInitech,y';
+
+    expect(parseCsvRecords(text).map(record => record.lineNumber)).toEqual([1, 3, 5, 6]);
+  });
+});
@@ -0,0 +1,87 @@
+// A parsed CSV row along with where it starts in the file
+export interface CsvRecord {
+  fields: string[];
+  lineNumber: number; // 1-based; a row with quoted line breaks spans several lines
+}
+
+/**
+ * Parse CSV text (RFC 4180) into rows of fields, keeping the line each row starts on.
+ * Handles quoted fields, escaped quotes (""), embedded newlines, CRLF line endings
+ * and a leading byte order mark. Blank lines are skipped.
+ */
+export const parseCsvRecords = (text: string, delimiter: string = ','): CsvRecord[] => {
+  const records: CsvRecord[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowStart = 1;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      records.push({ fields: row, lineNumber: rowStart });
+    }
+    row = [];
+    field = '';
+    rowStart = line;
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) {
+      line++;
+    }
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      endRow();
+    } else if (char === '\r') {
+      if (input[i + 1] === '\n') {
+        i++;
+        line++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return records;
+};
+
+// Parse CSV text into rows of fields, see parseCsvRecords
+export const parseCsv = (text: string, delimiter: string = ','): string[][] =>
+  parseCsvRecords(text, delimiter).map(record => record.fields);
+
+// Quote a field if it contains the delimiter, quotes or line breaks, doubling embedded quotes
+export const escapeCsvField = (value: string, delimiter: string = ','): string => {
+  if (value.includes('"') || value.includes(delimiter) || value.includes('\n') || value.includes('\r')) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+};
+
+// Serialize rows of fields to CSV text with CRLF line endings (RFC 4180)
+export const toCsv = (rows: string[][], delimiter: string = ','): string =>
+  rows.map(row => row.map(field => escapeCsvField(field, delimiter)).join(delimiter)).join('\r\n');
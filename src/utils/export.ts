@@ -0,0 +1,172 @@
+import { JobApplication, getStatusLabel, getWorkModeLabel, getSourceLabel } from '../types/JobApplication';
+import { toCsv } from './csv';
+
+export type ExportFormat = 'csv' | 'json' | 'excel';
+
+// Flat record written for each application, with status as both number and label
+export interface JobApplicationExportRecord {
+  id: number;
+  company: string;
+  position: string;
+  status: number;
+  statusLabel: string;
+  dateApplied: string;
+  nextFollowUpDate: string;
+  postingUrl: string;
+  location: string;
+  workMode: string;
+  salaryMin: number | string;
+  salaryMax: number | string;
+  salaryCurrency: string;
+  source: string;
+  description: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Column order and headers shared by the tabular formats
+const EXPORT_COLUMNS: { key: keyof JobApplicationExportRecord; header: string }[] = [
+  { key: 'id', header: 'Id' },
+  { key: 'company', header: 'Company' },
+  { key: 'position', header: 'Position' },
+  { key: 'status', header: 'Status' },
+  { key: 'statusLabel', header: 'Status Label' },
+  { key: 'dateApplied', header: 'Date Applied' },
+  { key: 'nextFollowUpDate', header: 'Next Follow-up' },
+  { key: 'postingUrl', header: 'Posting URL' },
+  { key: 'location', header: 'Location' },
+  { key: 'workMode', header: 'Work Mode' },
+  { key: 'salaryMin', header: 'Salary Min' },
+  { key: 'salaryMax', header: 'Salary Max' },
+  { key: 'salaryCurrency', header: 'Salary Currency' },
+  { key: 'source', header: 'Source' },
+  { key: 'description', header: 'Description' },
+  { key: 'createdAt', header: 'Created At' },
+  { key: 'updatedAt', header: 'Updated At' }
+];
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  json: 'application/json;charset=utf-8',
+  excel: 'application/vnd.ms-excel;charset=utf-8'
+};
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  csv: 'csv',
+  json: 'json',
+  excel: 'xls'
+};
+
+// Normalise any parseable date to full ISO 8601
+const toIsoString = (value: string): string => {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : date.toISOString();
+};
+
+export const toExportRecords = (applications: JobApplication[]): JobApplicationExportRecord[] =>
+  applications.map(app => ({
+    id: app.id,
+    company: app.company,
+    position: app.position,
+    status: app.status,
+    statusLabel: getStatusLabel(app.status),
+    dateApplied: toIsoString(app.dateApplied),
+    nextFollowUpDate: app.nextFollowUpDate ? toIsoString(app.nextFollowUpDate) : '',
+    postingUrl: app.postingUrl || '',
+    location: app.location || '',
+    workMode: app.workMode ? getWorkModeLabel(app.workMode) : '',
+    salaryMin: app.salaryMin ?? '',
+    salaryMax: app.salaryMax ?? '',
+    salaryCurrency: app.salaryCurrency || '',
+    source: app.source ? getSourceLabel(app.source) : '',
+    description: app.description || '',
+    createdAt: toIsoString(app.createdAt),
+    updatedAt: toIsoString(app.updatedAt)
+  }));
+
+// CSV text a spreadsheet would run as a formula gets a leading apostrophe, so a company or description
+// like "=HYPERLINK(...)" is shown as typed instead of being evaluated. The Excel export doesn't need
+// this, since its cells are typed as strings and never evaluated.
+const FORMULA_TRIGGER = /^[=+\-@\t\r]/;
+
+const escapeFormula = (value: string): string => (FORMULA_TRIGGER.test(value) ? `'${value}` : value);
+
+// Numbers are written as numbers, so only text values need escaping
+const toCellText = (value: string | number): string =>
+  typeof value === 'number' ? String(value) : escapeFormula(value);
+
+export const toCsvExport = (records: JobApplicationExportRecord[]): string =>
+  toCsv([
+    EXPORT_COLUMNS.map(column => column.header),
+    ...records.map(record => EXPORT_COLUMNS.map(column => toCellText(record[column.key])))
+  ]);
+
+export const toJsonExport = (records: JobApplicationExportRecord[]): string =>
+  JSON.stringify(records, null, 2);
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * Excel 2003 XML spreadsheet (SpreadsheetML). Excel, LibreOffice and Numbers open it
+ * directly, and cell types are explicit so ids and status codes stay numeric.
+ */
+export const toExcelExport = (records: JobApplicationExportRecord[]): string => {
+  const cell = (value: string | number): string =>
+    typeof value === 'number'
+      ? `<Cell><Data ss:Type="Number">${value}</Data></Cell>`
+      : `<Cell><Data ss:Type="String">${escapeXml(value)}</Data></Cell>`;
+
+  const headerRow = `<Row>${EXPORT_COLUMNS.map(column => cell(column.header)).join('')}</Row>`;
+  const dataRows = records
+    .map(record => `<Row>${EXPORT_COLUMNS.map(column => cell(record[column.key])).join('')}</Row>`)
+    .join('\n');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<?mso-application progid="Excel.Sheet"?>',
+    '<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet" xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">',
+    '<Worksheet ss:Name="Job Applications">',
+    '<Table>',
+    headerRow,
+    dataRows,
+    '</Table>',
+    '</Worksheet>',
+    '</Workbook>'
+  ].join('\n');
+};
+
+// Trigger a browser download for generated content
+export const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Some browsers start the download asynchronously, so give them time to read the blob first
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Export applications in the given format and download the file.
+ * CSV gets a byte order mark so Excel detects UTF-8.
+ */
+export const exportJobApplications = (applications: JobApplication[], format: ExportFormat) => {
+  const records = toExportRecords(applications);
+  const content = format === 'csv'
+    ? '\ufeff' + toCsvExport(records)
+    : format === 'json'
+      ? toJsonExport(records)
+      : toExcelExport(records);
+  const date = new Date().toISOString().split('T')[0];
+
+  downloadFile(content, `job-applications-${date}.${FILE_EXTENSIONS[format]}`, MIME_TYPES[format]);
+};
@@ -0,0 +1,109 @@
+import { JobApplication } from '../types/JobApplication';
+import {
+  Interview,
+  getInterviewEnd,
+  getInterviewFormatLabel,
+  getInterviewOutcomeLabel
+} from '../types/Interview';
+import { downloadFile } from './export';
+
+// An interview with the application it belongs to, for event titles
+export interface InterviewEvent {
+  interview: Interview;
+  application?: JobApplication;
+}
+
+// Escape TEXT values (RFC 5545 section 3.3.11)
+const escapeIcsText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// Fold content lines longer than 75 octets of UTF-8 onto continuation lines starting with a space,
+// breaking only between characters so no multi-byte character is split
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const chunks: string[] = [];
+  let chunk = '';
+  let octets = 0;
+  let limit = 75;
+  Array.from(line).forEach(char => {
+    const size = encoder.encode(char).length;
+    if (octets + size > limit) {
+      chunks.push(chunk);
+      chunk = '';
+      octets = 0;
+      limit = 74; // The leading space of a continuation line counts too
+    }
+    chunk += char;
+    octets += size;
+  });
+  chunks.push(chunk);
+  return chunks.join('\r\n ');
+};
+
+// UTC date-time in basic format, e.g. 20240131T143000Z
+const toIcsDateTime = (isoString: string): string =>
+  new Date(isoString).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const isUrl = (value: string): boolean => /^https?:\/\//i.test(value.trim());
+
+const buildEvent = ({ interview, application }: InterviewEvent, stamp: string): string[] => {
+  const title = application
+    ? `${interview.roundName} - ${application.company} (${application.position})`
+    : interview.roundName;
+
+  const details = [
+    `Format: ${getInterviewFormatLabel(interview.format)}`,
+    interview.interviewers.length > 0 ? `Interviewers: ${interview.interviewers.join(', ')}` : '',
+    interview.location ? `Location: ${interview.location}` : '',
+    `Outcome: ${getInterviewOutcomeLabel(interview.outcome)}`,
+    `Scheduled in time zone: ${interview.timeZone}`
+  ].filter(Boolean);
+
+  // Times are written in UTC, which every calendar app converts to the viewer's zone
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:interview-${interview.id}@job-application-tracker`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${toIcsDateTime(interview.scheduledAt)}`,
+    `DTEND:${toIcsDateTime(getInterviewEnd(interview))}`,
+    `SUMMARY:${escapeIcsText(title)}`,
+    `DESCRIPTION:${escapeIcsText(details.join('\n'))}`
+  ];
+  if (interview.location) {
+    lines.push(`LOCATION:${escapeIcsText(interview.location)}`);
+    if (isUrl(interview.location)) {
+      lines.push(`URL:${interview.location.trim()}`);
+    }
+  }
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+/**
+ * Build an iCalendar (RFC 5545) file with one event per interview.
+ * Event UIDs are stable, so re-importing an updated file updates the existing events.
+ */
+export const toIcs = (events: InterviewEvent[]): string => {
+  const stamp = toIcsDateTime(new Date().toISOString());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Job Application Tracker//Interviews//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...events.flatMap(event => buildEvent(event, stamp)),
+    'END:VCALENDAR'
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+// Build an .ics file for the given interviews and download it
+export const exportInterviewsToIcs = (events: InterviewEvent[], fileName: string = 'interviews') => {
+  downloadFile(toIcs(events), `${fileName}.ics`, 'text/calendar;charset=utf-8');
+};
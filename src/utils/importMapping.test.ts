@@ -0,0 +1,102 @@
+import { ApplicationStatus } from '../types/JobApplication';
+import { parseCsvRecords } from './csv';
+import { buildImportRows, guessColumnMapping, parseDateText, parseStatusText } from './importMapping';
+
+describe('parseDateText', () => {
+  it('reads year-first dates, with or without a time', () => {
+    expect(parseDateText('2024-03-05')).toBe('2024-03-05');
+    expect(parseDateText('2024/3/5')).toBe('2024-03-05');
+    expect(parseDateText('2024-03-05T10:00:00Z')).toBe('2024-03-05');
+  });
+
+  it('reads slash dates in the chosen order', () => {
+    expect(parseDateText('03/05/2024', 'monthFirst')).toBe('2024-03-05');
+    expect(parseDateText('03/05/2024', 'dayFirst')).toBe('2024-05-03');
+    expect(parseDateText('25/12/2024', 'monthFirst')).toBeNull();
+    expect(parseDateText('25/12/2024', 'dayFirst')).toBe('2024-12-25');
+  });
+
+  it('reads dotted dates day first', () => {
+    expect(parseDateText('05.03.2024', 'monthFirst')).toBe('2024-03-05');
+  });
+
+  it('reads two-digit years as this century', () => {
+    expect(parseDateText('3/5/24')).toBe('2024-03-05');
+    expect(parseDateText('05.03.99')).toBe('2099-03-05');
+  });
+
+  it('reads month names', () => {
+    expect(parseDateText('5 Mar 2024')).toBe('2024-03-05');
+    expect(parseDateText('March 5, 2024')).toBe('2024-03-05');
+    expect(parseDateText('Sept 21st 2024')).toBe('2024-09-21');
+  });
+
+  it('rejects impossible and unknown dates', () => {
+    expect(parseDateText('2024-02-31')).toBeNull();
+    expect(parseDateText('2023-02-29')).toBeNull();
+    expect(parseDateText('13/01/2024')).toBeNull();
+    expect(parseDateText('5 Foo 2024')).toBeNull();
+    expect(parseDateText('yesterday')).toBeNull();
+  });
+});
+
+describe('parseStatusText', () => {
+  it('reads labels regardless of case, spacing and punctuation', () => {
+    expect(parseStatusText('Under Review')).toBe(ApplicationStatus.UnderReview);
+    expect(parseStatusText('  phone-screen ')).toBe(ApplicationStatus.Interview);
+    expect(parseStatusText('NOT SELECTED')).toBe(ApplicationStatus.Rejected);
+  });
+
+  it('reads numeric status codes', () => {
+    expect(parseStatusText('4')).toBe(ApplicationStatus.Offer);
+    expect(parseStatusText('9')).toBeNull();
+  });
+
+  it('rejects unknown values', () => {
+    expect(parseStatusText('ghosted')).toBeNull();
+    expect(parseStatusText('')).toBeNull();
+  });
+});
+
+describe('guessColumnMapping', () => {
+  it('matches common header names', () => {
+    expect(guessColumnMapping(['Date Applied', 'Employer', 'Job Title', 'Notes'])).toEqual({
+      company: 1,
+      position: 2,
+      status: null,
+      dateApplied: 0
+    });
+  });
+});
+
+describe('buildImportRows', () => {
+  const mapping = { company: 0, position: 1, status: 2, dateApplied: 3 };
+
+  it('defaults a missing status to Applied', () => {
+    const today = new Date().toISOString().split('T')[0];
+    const [row] = buildImportRows(parseCsvRecords(`Acme,Engineer,,${today}`), mapping, 'monthFirst');
+
+    expect(row.formData).toMatchObject({
+      company: 'Acme',
+      position: 'Engineer',
+      status: ApplicationStatus.Applied,
+      dateApplied: today
+    });
+    expect(row.errors).toEqual({});
+  });
+
+  it('reports values it could not read', () => {
+    const [row] = buildImportRows(parseCsvRecords('Acme,Engineer,ghosted,someday'), mapping, 'monthFirst');
+
+    expect(row.errors).toMatchObject({
+      status: 'Unrecognised status "ghosted"',
+      dateApplied: 'Unrecognised date "someday"'
+    });
+  });
+
+  it('numbers rows by their line in the file', () => {
+    const records = parseCsvRecords('company,position,status,date\nAcme,"Lead\nEngineer",,2024-03-05\n\nGlobex,QA,,2024-03-06');
+
+    expect(buildImportRows(records.slice(1), mapping, 'monthFirst').map(row => row.rowNumber)).toEqual([2, 5]);
+  });
+});
@@ -0,0 +1,192 @@
+import {
+  ApplicationStatus,
+  FormErrors,
+  JobApplicationFormData,
+  getEmptyFormData
+} from '../types/JobApplication';
+import { validateJobApplication } from './validation';
+import { CsvRecord } from './csv';
+
+// Fields a CSV column can be mapped to
+export type ImportField = 'company' | 'position' | 'status' | 'dateApplied';
+
+// Column index per field (null = not mapped)
+export type ColumnMapping = Record<ImportField, number | null>;
+
+// How to read ambiguous numeric dates such as 03/04/2024
+export type DateOrder = 'monthFirst' | 'dayFirst';
+
+export interface ImportRow {
+  rowNumber: number; // 1-based line number in the file where the row starts, counting the header
+  formData: JobApplicationFormData;
+  errors: FormErrors;
+}
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean }[] = [
+  { field: 'company', label: 'Company Name', required: true },
+  { field: 'position', label: 'Position', required: true },
+  { field: 'status', label: 'Status', required: false },
+  { field: 'dateApplied', label: 'Date Applied', required: true }
+];
+
+// Header names recognised for each field when guessing the mapping
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  company: ['company', 'companyname', 'employer', 'organization', 'organisation'],
+  position: ['position', 'title', 'jobtitle', 'role', 'job'],
+  status: ['status', 'stage', 'state'],
+  dateApplied: ['dateapplied', 'applied', 'applieddate', 'date', 'applicationdate', 'appliedon']
+};
+
+// Free-text status values, normalised to lowercase letters only
+const STATUS_ALIASES: Record<string, ApplicationStatus> = {
+  applied: ApplicationStatus.Applied,
+  submitted: ApplicationStatus.Applied,
+  sent: ApplicationStatus.Applied,
+  new: ApplicationStatus.Applied,
+  underreview: ApplicationStatus.UnderReview,
+  inreview: ApplicationStatus.UnderReview,
+  review: ApplicationStatus.UnderReview,
+  reviewing: ApplicationStatus.UnderReview,
+  screening: ApplicationStatus.UnderReview,
+  inprogress: ApplicationStatus.UnderReview,
+  interview: ApplicationStatus.Interview,
+  interviewing: ApplicationStatus.Interview,
+  interviewed: ApplicationStatus.Interview,
+  phonescreen: ApplicationStatus.Interview,
+  onsite: ApplicationStatus.Interview,
+  offer: ApplicationStatus.Offer,
+  offered: ApplicationStatus.Offer,
+  accepted: ApplicationStatus.Offer,
+  rejected: ApplicationStatus.Rejected,
+  rejection: ApplicationStatus.Rejected,
+  declined: ApplicationStatus.Rejected,
+  denied: ApplicationStatus.Rejected,
+  notselected: ApplicationStatus.Rejected,
+  withdrawn: ApplicationStatus.Withdrawn,
+  withdrew: ApplicationStatus.Withdrawn,
+  withdraw: ApplicationStatus.Withdrawn,
+  cancelled: ApplicationStatus.Withdrawn,
+  canceled: ApplicationStatus.Withdrawn
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const normalize = (value: string): string => value.toLowerCase().replace(/[^a-z]/g, '');
+
+// Guess which column holds each field from the header row
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = { company: null, position: null, status: null, dateApplied: null };
+  const normalized = headers.map(normalize);
+
+  IMPORT_FIELDS.forEach(({ field }) => {
+    const index = normalized.findIndex((header, i) =>
+      HEADER_ALIASES[field].includes(header) && !Object.values(mapping).includes(i)
+    );
+    mapping[field] = index === -1 ? null : index;
+  });
+
+  return mapping;
+};
+
+// Map free-text or numeric status values such as "under review" or "3" to ApplicationStatus
+export const parseStatusText = (text: string): ApplicationStatus | null => {
+  const trimmed = text.trim();
+  const numeric = Number(trimmed);
+  if (trimmed !== '' && Number.isInteger(numeric) && Object.values(ApplicationStatus).includes(numeric)) {
+    return numeric as ApplicationStatus;
+  }
+  return STATUS_ALIASES[normalize(trimmed)] ?? null;
+};
+
+// Build a YYYY-MM-DD string, rejecting impossible dates such as 2024-02-31
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  const fullYear = year < 100 ? 2000 + year : year;
+  const date = new Date(fullYear, month - 1, day);
+  if (date.getFullYear() !== fullYear || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return `${fullYear}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Parse common spreadsheet date formats to YYYY-MM-DD:
+ * 2024-03-05, 2024/03/05, 2024-03-05T10:00:00Z, 03/05/2024 or 05/03/2024 (per dateOrder),
+ * 05.03.2024, 5 Mar 2024, March 5, 2024
+ */
+export const parseDateText = (text: string, dateOrder: DateOrder = 'monthFirst'): string | null => {
+  const value = text.trim();
+  let match: RegExpMatchArray | null;
+
+  // Year first: 2024-03-05, 2024/3/5, optionally followed by a time
+  if ((match = value.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T\s].*)?$/))) {
+    return toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+  }
+
+  // Dotted dates are day first by convention: 05.03.2024
+  if ((match = value.match(/^(\d{1,2})\.(\d{1,2})\.(\d{2}|\d{4})$/))) {
+    return toIsoDate(Number(match[3]), Number(match[2]), Number(match[1]));
+  }
+
+  // Slash or dash dates, order chosen by the user: 03/05/2024
+  if ((match = value.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{2}|\d{4})$/))) {
+    const [first, second, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    return dateOrder === 'dayFirst'
+      ? toIsoDate(year, second, first)
+      : toIsoDate(year, first, second);
+  }
+
+  // Day then month name: 5 Mar 2024, 5-March-2024
+  if ((match = value.match(/^(\d{1,2})[\s-]+([a-z]+)\.?,?[\s-]+(\d{4})$/i))) {
+    const month = MONTH_NAMES.indexOf(match[2].slice(0, 3).toLowerCase()) + 1;
+    return month > 0 ? toIsoDate(Number(match[3]), month, Number(match[1])) : null;
+  }
+
+  // Month name then day: Mar 5, 2024 / March 5 2024
+  if ((match = value.match(/^([a-z]+)\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/i))) {
+    const month = MONTH_NAMES.indexOf(match[1].slice(0, 3).toLowerCase()) + 1;
+    return month > 0 ? toIsoDate(Number(match[3]), month, Number(match[2])) : null;
+  }
+
+  return null;
+};
+
+/**
+ * Turn CSV data rows into form data using the column mapping, then run the same
+ * validation as the application form. Rows missing a status default to Applied.
+ */
+export const buildImportRows = (
+  dataRows: CsvRecord[],
+  mapping: ColumnMapping,
+  dateOrder: DateOrder
+): ImportRow[] => {
+  const cell = (row: string[], field: ImportField): string => {
+    const index = mapping[field];
+    return index === null ? '' : (row[index] || '').trim();
+  };
+
+  return dataRows.map(({ fields: row, lineNumber }) => {
+    const statusText = cell(row, 'status');
+    const dateText = cell(row, 'dateApplied');
+    const status = statusText === '' ? ApplicationStatus.Applied : parseStatusText(statusText);
+    const dateApplied = dateText === '' ? '' : parseDateText(dateText, dateOrder);
+
+    const formData: JobApplicationFormData = {
+      ...getEmptyFormData(),
+      company: cell(row, 'company'),
+      position: cell(row, 'position'),
+      status: status ?? ApplicationStatus.Applied,
+      dateApplied: dateApplied ?? ''
+    };
+
+    const errors = validateJobApplication(formData);
+    if (status === null) {
+      errors.status = `Unrecognised status "${statusText}"`;
+    }
+    if (dateApplied === null) {
+      errors.dateApplied = `Unrecognised date "${dateText}"`;
+    }
+
+    return { rowNumber: lineNumber, formData, errors };
+  });
+};
+
@@ -0,0 +1,151 @@
+// A small markdown subset for notes: headings, paragraphs, bullet and numbered lists,
+// block quotes, fenced code, and inline bold, italics, code and links. Parsing to a tree
+// (rather than an HTML string) lets the renderer build React elements, so note text can
+// never inject markup.
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'em'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'break' };
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] }
+  | { type: 'quote'; children: MarkdownInline[] }
+  | { type: 'code'; text: string };
+
+// Earliest-match inline syntax; the capture group that matched decides the element.
+// Underscore emphasis has to start a word, so the character before it is matched as a prefix
+// rather than with a lookbehind, which older Safari versions can't parse.
+const INLINE_PATTERN =
+  /`([^`]+)`|\*\*(.+?)\*\*|__(.+?)__|\*(?!\s)(.+?)\*|(^|\W)_(?!\s)(.+?)_(?!\w)|\[([^\]]+)\]\(([^)\s]+)\)/;
+
+// Only these link targets are rendered as links; anything else stays as text
+const SAFE_URL_PATTERN = /^(https?:|mailto:)/i;
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let rest = text;
+
+  while (rest) {
+    const match = INLINE_PATTERN.exec(rest);
+    if (!match) {
+      nodes.push({ type: 'text', text: rest });
+      break;
+    }
+
+    const [whole, code, strong, strongAlt, em, emPrefix = '', emAlt, linkText, href] = match;
+    const before = rest.slice(0, match.index) + emPrefix;
+    if (before) {
+      nodes.push({ type: 'text', text: before });
+    }
+
+    if (code !== undefined) {
+      nodes.push({ type: 'code', text: code });
+    } else if (strong !== undefined || strongAlt !== undefined) {
+      nodes.push({ type: 'strong', children: parseInline(strong ?? strongAlt) });
+    } else if (em !== undefined || emAlt !== undefined) {
+      nodes.push({ type: 'em', children: parseInline(em ?? emAlt) });
+    } else if (SAFE_URL_PATTERN.test(href)) {
+      nodes.push({ type: 'link', href, children: parseInline(linkText) });
+    } else {
+      nodes.push({ type: 'text', text: whole.slice(emPrefix.length) });
+    }
+    rest = rest.slice(match.index + whole.length);
+  }
+
+  return nodes;
+};
+
+// Join consecutive lines of a paragraph or quote, keeping the line breaks
+const parseLines = (lines: string[]): MarkdownInline[] =>
+  lines.flatMap((line, index) => [
+    ...(index > 0 ? [{ type: 'break' } as MarkdownInline] : []),
+    ...parseInline(line.trim())
+  ]);
+
+const FENCE_PATTERN = /^\s*```/;
+const HEADING_PATTERN = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const BULLET_PATTERN = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED_PATTERN = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE_PATTERN = /^\s{0,3}>\s?(.*)$/;
+
+const startsBlock = (line: string): boolean =>
+  FENCE_PATTERN.test(line) ||
+  HEADING_PATTERN.test(line) ||
+  BULLET_PATTERN.test(line) ||
+  NUMBERED_PATTERN.test(line) ||
+  QUOTE_PATTERN.test(line);
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  // Collect consecutive lines matching a pattern, returning its first capture group
+  const takeWhile = (pattern: RegExp): string[] => {
+    const taken: string[] = [];
+    let match: RegExpExecArray | null;
+    while (i < lines.length && (match = pattern.exec(lines[i]))) {
+      taken.push(match[1]);
+      i++;
+    }
+    return taken;
+  };
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    if (FENCE_PATTERN.test(line)) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE_PATTERN.test(lines[i])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++; // Skip the closing fence, if there is one
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (BULLET_PATTERN.test(line)) {
+      blocks.push({ type: 'list', ordered: false, items: takeWhile(BULLET_PATTERN).map(parseInline) });
+      continue;
+    }
+
+    if (NUMBERED_PATTERN.test(line)) {
+      blocks.push({ type: 'list', ordered: true, items: takeWhile(NUMBERED_PATTERN).map(parseInline) });
+      continue;
+    }
+
+    if (QUOTE_PATTERN.test(line)) {
+      blocks.push({ type: 'quote', children: parseLines(takeWhile(QUOTE_PATTERN)) });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !startsBlock(lines[i]))) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseLines(paragraph) });
+  }
+
+  return blocks;
+};
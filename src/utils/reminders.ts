@@ -0,0 +1,120 @@
+import { JobApplication, ApplicationStatus, formatDateForInput } from '../types/JobApplication';
+import { toLocalDateKey } from './analytics';
+
+// Days without activity before an application in each status needs a follow-up (null = never)
+export type StaleRules = Record<ApplicationStatus, number | null>;
+
+export const DEFAULT_STALE_RULES: StaleRules = {
+  [ApplicationStatus.Applied]: 14,
+  [ApplicationStatus.UnderReview]: 7,
+  [ApplicationStatus.Interview]: 7,
+  [ApplicationStatus.Offer]: 3,
+  [ApplicationStatus.Rejected]: null,
+  [ApplicationStatus.Withdrawn]: null
+};
+
+// localStorage key for the user's rules, and the event fired when they change
+const STALE_RULES_KEY = 'jobApplicationStaleRules';
+export const STALE_RULES_CHANGED_EVENT = 'jobApplicationStaleRulesChanged';
+
+export type AttentionReason = 'followUpDue' | 'stale';
+
+// An application that needs following up, and why
+export interface AttentionItem {
+  application: JobApplication;
+  reason: AttentionReason;
+  dueDate: string; // YYYY-MM-DD the reminder fell due
+  daysOverdue: number; // 0 when due today
+  daysSinceActivity: number;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Whole days from one YYYY-MM-DD key to another
+const daysBetween = (fromKey: string, toKey: string): number =>
+  Math.round((Date.parse(toKey) - Date.parse(fromKey)) / MS_PER_DAY);
+
+const addDays = (dateKey: string, days: number): string =>
+  new Date(Date.parse(dateKey) + days * MS_PER_DAY).toISOString().split('T')[0];
+
+// Stored rules merged over the defaults, ignoring anything malformed
+export const loadStaleRules = (): StaleRules => {
+  const rules = { ...DEFAULT_STALE_RULES };
+  try {
+    const stored = JSON.parse(localStorage.getItem(STALE_RULES_KEY) || '{}');
+    (Object.keys(rules) as unknown as ApplicationStatus[]).forEach(status => {
+      const value = stored[status];
+      if (value === null || (typeof value === 'number' && Number.isInteger(value) && value > 0)) {
+        rules[status] = value;
+      }
+    });
+  } catch {
+    // Fall back to the defaults
+  }
+  return rules;
+};
+
+export const saveStaleRules = (rules: StaleRules) => {
+  localStorage.setItem(STALE_RULES_KEY, JSON.stringify(rules));
+  window.dispatchEvent(new Event(STALE_RULES_CHANGED_EVENT));
+};
+
+/**
+ * Work out whether an application needs attention. An explicit follow-up date takes
+ * precedence; otherwise it is stale once the status's rule has passed since the later
+ * of its last update and the date applied.
+ */
+export const getAttentionItem = (
+  application: JobApplication,
+  rules: StaleRules,
+  now: Date = new Date()
+): AttentionItem | null => {
+  const today = toLocalDateKey(now);
+  const lastActivity = toLocalDateKey(new Date(Math.max(
+    new Date(application.updatedAt).getTime(),
+    new Date(application.dateApplied).getTime()
+  )));
+  const daysSinceActivity = daysBetween(lastActivity, today);
+
+  if (application.nextFollowUpDate) {
+    const dueDate = formatDateForInput(application.nextFollowUpDate);
+    const daysOverdue = daysBetween(dueDate, today);
+    return daysOverdue >= 0
+      ? { application, reason: 'followUpDue', dueDate, daysOverdue, daysSinceActivity }
+      : null;
+  }
+
+  const staleAfter = rules[application.status];
+  if (staleAfter === null || staleAfter === undefined) {
+    return null;
+  }
+
+  const dueDate = addDays(lastActivity, staleAfter);
+  const daysOverdue = daysBetween(dueDate, today);
+  return daysOverdue >= 0
+    ? { application, reason: 'stale', dueDate, daysOverdue, daysSinceActivity }
+    : null;
+};
+
+// Applications needing attention, most overdue first
+export const getAttentionItems = (
+  applications: JobApplication[],
+  rules: StaleRules,
+  now: Date = new Date()
+): AttentionItem[] =>
+  applications
+    .map(app => getAttentionItem(app, rules, now))
+    .filter((item): item is AttentionItem => item !== null)
+    .sort((a, b) => b.daysOverdue - a.daysOverdue);
+
+// Short description for badges and notifications
+export const getAttentionLabel = (item: AttentionItem): string => {
+  if (item.reason === 'followUpDue') {
+    return item.daysOverdue === 0 ? 'Follow up today' : `Follow-up overdue ${item.daysOverdue}d`;
+  }
+  return `No activity for ${item.daysSinceActivity}d`;
+};
+
+// Bootstrap colour variant for an attention badge: explicit follow-ups are more urgent
+export const getAttentionVariant = (item: AttentionItem): string =>
+  item.reason === 'followUpDue' ? 'danger' : 'warning';
@@ -0,0 +1,112 @@
+// Fallback for browsers without Intl.supportedValuesOf
+const COMMON_TIME_ZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Paris',
+  'Europe/Berlin',
+  'Africa/Johannesburg',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Yangon',
+  'Asia/Bangkok',
+  'Asia/Singapore',
+  'Asia/Shanghai',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Pacific/Auckland'
+];
+
+// The browser's own IANA time zone
+export const getLocalTimeZone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// IANA time zones for a picker, always including the local one
+export const getTimeZoneOptions = (): string[] => {
+  const supported = (Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] })
+    .supportedValuesOf?.('timeZone');
+  const zones = supported && supported.length > 0 ? supported : COMMON_TIME_ZONES;
+  const local = getLocalTimeZone();
+  return zones.includes(local) ? zones : [local, ...zones];
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Calendar fields of an instant as seen on a wall clock in the given zone
+const getZonedParts = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+  const get = (type: string) => parseInt(parts.find(part => part.type === type)?.value || '0');
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second')
+  };
+};
+
+// Offset of the zone from UTC at the given instant, in milliseconds
+const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+/**
+ * Convert a wall-clock date and time (YYYY-MM-DDTHH:mm, as from a datetime-local input)
+ * in the given zone to an ISO string. Re-checks the offset at the result so times
+ * near daylight saving transitions land on the right side of them.
+ */
+export const zonedDateTimeToIso = (value: string, timeZone: string): string => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/.exec(value);
+  if (!match) {
+    throw new Error(`Invalid date and time: ${value}`);
+  }
+  const [, year, month, day, hour, minute] = match.map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  const firstGuess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  const offset = getTimeZoneOffset(new Date(firstGuess), timeZone);
+  return new Date(wallClock - offset).toISOString();
+};
+
+// Format an ISO string as a datetime-local input value on a wall clock in the given zone
+export const isoToZonedDateTime = (isoString: string, timeZone: string): string => {
+  const p = getZonedParts(new Date(isoString), timeZone);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}`;
+};
+
+// Format an instant for display in the given zone, including the zone's short name
+export const formatInZone = (isoString: string, timeZone: string): string =>
+  new Date(isoString).toLocaleString('en-US', {
+    timeZone,
+    weekday: 'short',
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short'
+  });
@@ -0,0 +1,208 @@
+import {
+  ApplicationStatus,
+  ApplicationSource,
+  WorkMode,
+  FormErrors,
+  JobApplicationFormData
+} from '../types/JobApplication';
+import {
+  InterviewFormat,
+  InterviewOutcome,
+  InterviewFormData,
+  InterviewFormErrors
+} from '../types/Interview';
+import { ContactFormData, ContactFormErrors } from '../types/Contact';
+import { isValidTimeZone } from './timeZone';
+
+const isHttpUrl = (value: string): boolean => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[\d\s().-]{5,30}$/;
+
+// Parse an optional salary: null when blank, undefined when invalid
+const parseSalary = (value: string): number | null | undefined => {
+  if (value.trim() === '') return null;
+  const amount = Number(value);
+  return isFinite(amount) && amount >= 0 ? amount : undefined;
+};
+
+/**
+ * Validate job application form data, returning an error message per invalid field.
+ * Shared by every screen that creates or edits applications so the rules stay in one place.
+ */
+export const validateJobApplication = (formData: JobApplicationFormData): FormErrors => {
+  const errors: FormErrors = {};
+
+  // Company validation
+  if (!formData.company.trim()) {
+    errors.company = 'Company name is required';
+  } else if (formData.company.trim().length > 200) {
+    errors.company = 'Company name must be 200 characters or less';
+  }
+
+  // Position validation
+  if (!formData.position.trim()) {
+    errors.position = 'Position is required';
+  } else if (formData.position.trim().length > 200) {
+    errors.position = 'Position must be 200 characters or less';
+  }
+
+  // Status validation
+  if (!Object.values(ApplicationStatus).includes(formData.status)) {
+    errors.status = 'Please select a valid status';
+  }
+
+  // Date validation
+  if (!formData.dateApplied) {
+    errors.dateApplied = 'Date applied is required';
+  } else {
+    const selectedDate = new Date(formData.dateApplied);
+    const today = new Date();
+    const oneYearAgo = new Date();
+    oneYearAgo.setFullYear(today.getFullYear() - 1);
+
+    if (isNaN(selectedDate.getTime())) {
+      errors.dateApplied = 'Please enter a valid date';
+    } else if (selectedDate > today) {
+      errors.dateApplied = 'Date applied cannot be in the future';
+    } else if (selectedDate < oneYearAgo) {
+      errors.dateApplied = 'Date applied cannot be more than one year ago';
+    }
+  }
+
+  // Follow-up date validation (optional)
+  if (formData.nextFollowUpDate && isNaN(new Date(formData.nextFollowUpDate).getTime())) {
+    errors.nextFollowUpDate = 'Please enter a valid date';
+  }
+
+  // Posting URL validation (optional)
+  const postingUrl = formData.postingUrl.trim();
+  if (postingUrl) {
+    if (!isHttpUrl(postingUrl)) {
+      errors.postingUrl = 'Please enter a valid http(s) URL';
+    } else if (postingUrl.length > 2000) {
+      errors.postingUrl = 'Posting URL must be 2000 characters or less';
+    }
+  }
+
+  // Location validation (optional)
+  if (formData.location.trim().length > 200) {
+    errors.location = 'Location must be 200 characters or less';
+  }
+
+  // Work mode and source validation (optional)
+  if (formData.workMode !== '' && !Object.values(WorkMode).includes(formData.workMode)) {
+    errors.workMode = 'Please select a valid work mode';
+  }
+  if (formData.source !== '' && !Object.values(ApplicationSource).includes(formData.source)) {
+    errors.source = 'Please select a valid source';
+  }
+
+  // Salary validation (optional)
+  const salaryMin = parseSalary(formData.salaryMin);
+  const salaryMax = parseSalary(formData.salaryMax);
+  if (salaryMin === undefined) {
+    errors.salaryMin = 'Minimum salary must be a non-negative number';
+  }
+  if (salaryMax === undefined) {
+    errors.salaryMax = 'Maximum salary must be a non-negative number';
+  }
+  if (typeof salaryMin === 'number' && typeof salaryMax === 'number' && salaryMax < salaryMin) {
+    errors.salaryMax = 'Maximum salary cannot be less than the minimum';
+  }
+  if ((salaryMin !== null || salaryMax !== null) && !/^[A-Z]{3}$/.test(formData.salaryCurrency)) {
+    errors.salaryCurrency = 'Please select a currency';
+  }
+
+  // Description validation (optional)
+  if (formData.description.length > 5000) {
+    errors.description = 'Description must be 5000 characters or less';
+  }
+
+  return errors;
+};
+
+// Validate interview form data, returning an error message per invalid field
+export const validateInterview = (formData: InterviewFormData): InterviewFormErrors => {
+  const errors: InterviewFormErrors = {};
+
+  if (!formData.roundName.trim()) {
+    errors.roundName = 'Round name is required';
+  } else if (formData.roundName.trim().length > 100) {
+    errors.roundName = 'Round name must be 100 characters or less';
+  }
+
+  if (!formData.scheduledAt) {
+    errors.scheduledAt = 'Date and time are required';
+  } else if (!/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(formData.scheduledAt)) {
+    errors.scheduledAt = 'Please enter a valid date and time';
+  }
+
+  if (!formData.timeZone || !isValidTimeZone(formData.timeZone)) {
+    errors.timeZone = 'Please select a valid time zone';
+  }
+
+  const duration = Number(formData.durationMinutes);
+  if (!Number.isInteger(duration) || duration < 5 || duration > 24 * 60) {
+    errors.durationMinutes = 'Duration must be between 5 and 1440 minutes';
+  }
+
+  if (!Object.values(InterviewFormat).includes(formData.format)) {
+    errors.format = 'Please select a valid format';
+  }
+
+  if (formData.location.trim().length > 500) {
+    errors.location = 'Location must be 500 characters or less';
+  }
+
+  if (!Object.values(InterviewOutcome).includes(formData.outcome)) {
+    errors.outcome = 'Please select a valid outcome';
+  }
+
+  return errors;
+};
+
+// Validate contact form data, returning an error message per invalid field
+export const validateContact = (formData: ContactFormData): ContactFormErrors => {
+  const errors: ContactFormErrors = {};
+
+  if (!formData.name.trim()) {
+    errors.name = 'Name is required';
+  } else if (formData.name.trim().length > 200) {
+    errors.name = 'Name must be 200 characters or less';
+  }
+
+  if (formData.role.trim().length > 200) {
+    errors.role = 'Role must be 200 characters or less';
+  }
+
+  if (formData.company.trim().length > 200) {
+    errors.company = 'Company must be 200 characters or less';
+  }
+
+  if (formData.email.trim() && !EMAIL_PATTERN.test(formData.email.trim())) {
+    errors.email = 'Please enter a valid email address';
+  }
+
+  if (formData.phone.trim() && !PHONE_PATTERN.test(formData.phone.trim())) {
+    errors.phone = 'Please enter a valid phone number';
+  }
+
+  const linkedInUrl = formData.linkedInUrl.trim();
+  if (linkedInUrl && !isHttpUrl(linkedInUrl)) {
+    errors.linkedInUrl = 'Please enter a full http(s) URL';
+  }
+
+  if (formData.notes.length > 2000) {
+    errors.notes = 'Notes must be 2000 characters or less';
+  }
+
+  return errors;
+};